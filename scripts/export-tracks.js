@@ -0,0 +1,34 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import process from "node:process";
+import { createServer } from "vite";
+
+// Writes the built-in tracks as track files, e.g. as a starting point
+// for new tracks:
+//
+//     npm run export-tracks -- tracks
+
+const outputDir = process.argv[2] ?? "tracks";
+
+const server = await createServer({
+    server: { middlewareMode: true, hmr: false },
+    appType: "custom",
+    logLevel: "error",
+});
+
+try {
+    const { builtInTracks } = await server.ssrLoadModule("/src/tracks.ts");
+    const { exportTrackDefinition } = await server.ssrLoadModule(
+        "/src/trackFormat.ts",
+    );
+
+    mkdirSync(outputDir, { recursive: true });
+
+    for (const track of builtInTracks) {
+        const file = join(outputDir, `${track.name.toLowerCase()}.json`);
+        writeFileSync(file, exportTrackDefinition(track) + "\n");
+        console.log(`Wrote ${file}`);
+    }
+} finally {
+    await server.close();
+}
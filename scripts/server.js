@@ -0,0 +1,73 @@
+import process from "node:process";
+import { createServer } from "vite";
+import { WebSocketServer } from "ws";
+
+// Runs the server for networked races, e.g.
+//
+//     npm run server -- --port 8787
+//
+// and then open the game with ?server=ws://localhost:8787 in the URL.
+// Everything runs on this machine, nothing else is needed.
+
+const parseArgs = (argv) => {
+    const args = {
+        port: undefined,
+        seed: undefined,
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        switch (argv[i]) {
+            case "--port":
+                args.port = parseInt(argv[++i], 10);
+                break;
+            case "--seed":
+                args.seed = parseInt(argv[++i], 10);
+                break;
+            default:
+                throw new Error(`Unknown argument: ${argv[i]}`);
+        }
+    }
+
+    return args;
+};
+
+const args = parseArgs(process.argv.slice(2));
+
+const vite = await createServer({
+    server: { middlewareMode: true, hmr: false },
+    appType: "custom",
+    logLevel: "error",
+});
+
+const { RaceServer } = await vite.ssrLoadModule("/src/RaceServer.ts");
+const { DEFAULT_SERVER_PORT } = await vite.ssrLoadModule("/src/netProtocol.ts");
+
+const port = args.port ?? DEFAULT_SERVER_PORT;
+const raceServer = new RaceServer(args.seed);
+const wss = new WebSocketServer({ host: "localhost", port });
+
+wss.on("connection", (socket) => {
+    const connection = {
+        send: (data) => socket.send(data),
+        close: () => socket.close(),
+    };
+
+    raceServer.connect(connection);
+    socket.on("message", (data) =>
+        raceServer.receive(connection, String(data)),
+    );
+    socket.on("close", () => raceServer.disconnect(connection));
+});
+
+wss.on("listening", () =>
+    console.log(`Race server listening on ws://localhost:${port}`),
+);
+
+const shutDown = () => {
+    raceServer.close();
+    wss.close();
+    vite.close().then(() => process.exit());
+};
+
+process.on("SIGINT", shutDown);
+process.on("SIGTERM", shutDown);
@@ -0,0 +1,103 @@
+import { readFileSync } from "node:fs";
+import process from "node:process";
+import { createServer } from "vite";
+
+// Runs races headlessly in Node, e.g.
+//
+//     npm run simulate -- --seed 123 --count 10 --race 2
+//
+// Use --track to race on a track file instead of a built-in track.
+// Add --json to get the full results as JSON.
+
+const parseArgs = (argv) => {
+    const args = {
+        seed: Date.now() % 100000,
+        count: 1,
+        race: 1,
+        track: undefined,
+        json: false,
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        switch (argv[i]) {
+            case "--seed":
+                args.seed = parseInt(argv[++i], 10);
+                break;
+            case "--count":
+                args.count = parseInt(argv[++i], 10);
+                break;
+            case "--race":
+                args.race = parseInt(argv[++i], 10);
+                break;
+            case "--track":
+                args.track = argv[++i];
+                break;
+            case "--json":
+                args.json = true;
+                break;
+            default:
+                throw new Error(`Unknown argument: ${argv[i]}`);
+        }
+    }
+
+    return args;
+};
+
+const formatTime = (ms) => (ms != null ? (ms / 1000).toFixed(2) + "s" : "-");
+
+const args = parseArgs(process.argv.slice(2));
+
+const server = await createServer({
+    server: { middlewareMode: true, hmr: false },
+    appType: "custom",
+    logLevel: "error",
+});
+
+try {
+    const { simulateRace } = await server.ssrLoadModule("/src/simulation.ts");
+    const { parseTrackDefinition } = await server.ssrLoadModule(
+        "/src/trackFormat.ts",
+    );
+
+    const trackDefinition = args.track
+        ? parseTrackDefinition(readFileSync(args.track, "utf8"))
+        : undefined;
+
+    const results = [];
+
+    for (let i = 0; i < args.count; i++) {
+        const result = simulateRace({
+            seed: args.seed + i,
+            raceNumber: args.race,
+            trackDefinition,
+        });
+        results.push(result);
+
+        if (!args.json) {
+            const finished = result.characters.filter((c) => c.finished);
+            const eliminated = result.characters.filter((c) => c.eliminated);
+            const winner = result.characters[0];
+
+            console.log(
+                [
+                    `seed ${result.seed}`,
+                    result.completed ? "completed" : "TIMED OUT",
+                    `time ${formatTime(result.time)}`,
+                    `winner #${winner.id} ${formatTime(winner.finishTime)}`,
+                    `finished ${finished.length}`,
+                    `eliminated ${eliminated.length}`,
+                ].join(", "),
+            );
+        }
+    }
+
+    if (args.json) {
+        console.log(JSON.stringify(results, null, 2));
+    }
+
+    if (results.some((r) => !r.completed)) {
+        process.exitCode = 1;
+    }
+} finally {
+    await server.close();
+}
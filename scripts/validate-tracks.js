@@ -0,0 +1,50 @@
+import { readFileSync } from "node:fs";
+import process from "node:process";
+import { createServer } from "vite";
+
+// Checks that the built-in tracks and the given track files can be
+// completed, e.g.
+//
+//     npm run validate-tracks -- tracks/custom.json
+
+const server = await createServer({
+    server: { middlewareMode: true, hmr: false },
+    appType: "custom",
+    logLevel: "error",
+});
+
+try {
+    const { builtInTracks } = await server.ssrLoadModule("/src/tracks.ts");
+    const { parseTrackDefinition } = await server.ssrLoadModule(
+        "/src/trackFormat.ts",
+    );
+    const { formatTrackProblem, validateTrackDefinition } =
+        await server.ssrLoadModule("/src/trackValidation.ts");
+
+    const tracks = [
+        ...builtInTracks,
+        ...process.argv
+            .slice(2)
+            .map((file) => parseTrackDefinition(readFileSync(file, "utf8"))),
+    ];
+
+    for (const track of tracks) {
+        const variants = validateTrackDefinition(track);
+
+        variants.forEach((problems, variant) => {
+            const name = `${track.name} (variant ${variant + 1})`;
+
+            if (problems.length === 0) {
+                console.log(`${name}: OK`);
+            } else {
+                console.log(`${name}:`);
+                problems.forEach((p) =>
+                    console.log(`    ${formatTrackProblem(p)}`),
+                );
+                process.exitCode = 1;
+            }
+        });
+    }
+} finally {
+    await server.close();
+}
@@ -0,0 +1,140 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+    Achievement,
+    ACHIEVEMENTS,
+    createTournamentProgress,
+    loadUnlockedAchievements,
+    saveUnlockedAchievements,
+    TournamentProgress,
+    updateTournamentProgress,
+} from "./achievements";
+import { Level } from "./Level";
+import { PROFILE_PLAYER_ID } from "./profile";
+import { CharacterRaceEvent, RaceEvent, RaceEventType } from "./raceEvents";
+import { renderText, TextSize } from "./text";
+
+const TOAST_DURATION = 4000;
+const TOAST_FADE_DURATION = 500;
+
+interface Toast {
+    achievement: Achievement;
+    // Time left on the screen
+    remaining: number;
+}
+
+const isPlayerEvent = (event: CharacterRaceEvent): boolean =>
+    event.character.id === PROFILE_PLAYER_ID ||
+    (event.type === RaceEventType.CharacterCollision &&
+        event.other.id === PROFILE_PLAYER_ID);
+
+/*
+ * Follows the events of the races of a tournament and unlocks the
+ * achievements of the player, showing a toast for each.
+ */
+export class AchievementTracker {
+    private unlocked = loadUnlockedAchievements();
+    private progress: TournamentProgress = createTournamentProgress();
+    private unsubscribe: (() => void) | undefined;
+    private toasts: Toast[] = [];
+
+    startRace(level: Level, raceNumber: number, isFinalRound: boolean): void {
+        this.stop();
+
+        if (raceNumber === 1) {
+            this.progress = createTournamentProgress();
+        }
+        this.progress.raceNumber = raceNumber;
+        this.progress.isFinalRound = isFinalRound;
+        this.progress.obstacleHits = 0;
+        this.progress.characterCollisions = 0;
+
+        this.unsubscribe = level.events.subscribe(this.onEvent);
+    }
+
+    // E.g. for test drives, which don't count.
+    stop(): void {
+        this.unsubscribe?.();
+        this.unsubscribe = undefined;
+    }
+
+    draw(dt: number): void {
+        const [toast] = this.toasts;
+        if (!toast) {
+            return;
+        }
+
+        const alpha = Math.min(toast.remaining / TOAST_FADE_DURATION, 1);
+        renderText(
+            `🏆 ${toast.achievement.name}`,
+            TextSize.Small,
+            "Impact",
+            alpha,
+            -10,
+            true,
+            0,
+            undefined,
+            "gold",
+        );
+        renderText(
+            toast.achievement.description,
+            TextSize.Tiny,
+            "Sans-serif",
+            alpha * 0.8,
+            -8.7,
+        );
+
+        toast.remaining -= dt;
+        if (toast.remaining <= 0) {
+            this.toasts.shift();
+        }
+    }
+
+    private onEvent = (event: RaceEvent): void => {
+        if (
+            event.type === RaceEventType.RaceFinished ||
+            !isPlayerEvent(event)
+        ) {
+            return;
+        }
+
+        updateTournamentProgress(this.progress, event);
+
+        for (const achievement of ACHIEVEMENTS) {
+            if (
+                this.unlocked[achievement.id] == null &&
+                achievement.isUnlocked(event, this.progress)
+            ) {
+                this.unlock(achievement);
+            }
+        }
+    };
+
+    private unlock(achievement: Achievement): void {
+        this.unlocked[achievement.id] = Date.now();
+        saveUnlockedAchievements(this.unlocked);
+        this.toasts.push({ achievement, remaining: TOAST_DURATION });
+    }
+}
@@ -25,8 +25,9 @@
 import { getCenter } from "./core/math/Area";
 import { GameObject } from "./GameObject";
 import { CHARACTER_MAX_RUN_SPEED } from "./physics";
-import { random } from "./core/math/random";
+import { Random } from "./core/math/random";
 import { Block, BLOCK_COUNT, BLOCK_WIDTH, BlockType } from "./TrackElement";
+import { CharacterAction } from "./Character";
 import { Map } from "./Map";
 import { normalize, Vector, ZERO_VECTOR } from "./core/math/Vector";
 
@@ -49,6 +50,7 @@ const SLOWDOWN_TIME = 1000;
 export class Ai {
     private host: GameObject;
     private track: Map;
+    private rng: Random;
 
     /*
      * Randomized every now and then. Not useful for an individual
@@ -66,9 +68,13 @@ export class Ai {
 
     target: Block | null = null;
 
-    constructor(host: GameObject, track: Map) {
+    // Decided together with the movement.
+    private action: CharacterAction = CharacterAction.None;
+
+    constructor(host: GameObject, track: Map, rng: Random) {
         this.host = host;
         this.track = track;
+        this.rng = rng;
     }
 
     reset(): void {
@@ -82,6 +88,20 @@ export class Ai {
             currentBlock.col,
         );
 
+        const movement = this.findMovement(currentBlock, nextBlock, t);
+        this.action = this.findAction(currentBlock, nextBlock, movement);
+        return movement;
+    }
+
+    getAction(): CharacterAction {
+        return this.action;
+    }
+
+    private findMovement(
+        currentBlock: Block,
+        nextBlock: Block,
+        t: number,
+    ): Vector {
         const movement = this.goByRaft(currentBlock, nextBlock, t);
         if (movement) {
             return movement;
@@ -97,6 +117,73 @@ export class Ai {
         );
     }
 
+    private findAction(
+        currentBlock: Block,
+        nextBlock: Block,
+        movement: Vector,
+    ): CharacterAction {
+        if (movement.y >= 0) {
+            return CharacterAction.None;
+        }
+
+        if (
+            this.canJumpOver(currentBlock) &&
+            this.host.y + this.host.height / 2 <
+                currentBlock.y + this.host.height
+        ) {
+            // At the edge of a gap
+            return CharacterAction.Jump;
+        }
+
+        if (
+            nextBlock.type === BlockType.Free &&
+            this.track.isThreatened(currentBlock.row, currentBlock.col) &&
+            !this.track.isThreatened(nextBlock.row, nextBlock.col)
+        ) {
+            // Out of the way of a moving obstacle
+            return CharacterAction.Dive;
+        }
+
+        return CharacterAction.None;
+    }
+
+    /*
+     * Decides how to deal with another character within reach. Only
+     * worth the trouble when fighting for a place to qualify.
+     */
+    getInteraction(other: GameObject, isFighting: boolean): CharacterAction {
+        if (!isFighting) {
+            return CharacterAction.None;
+        }
+
+        const dx = other.x - this.host.x;
+        const dy = other.y - this.host.y;
+
+        if (Math.abs(dx) > Math.abs(dy)) {
+            // Push aside the one running alongside
+            return CharacterAction.Shove;
+        }
+
+        if (dy < 0) {
+            // Hold back the one just ahead
+            return CharacterAction.Grab;
+        }
+
+        return CharacterAction.None;
+    }
+
+    /*
+     * Checks if the next row is a gap with a place to land after it.
+     */
+    private canJumpOver(currentBlock: Block): boolean {
+        return (
+            currentBlock.type === BlockType.Free &&
+            this.track.getBlock(currentBlock.row + 1, currentBlock.col).type ===
+                BlockType.Empty &&
+            this.track.isFree(currentBlock.row + 2, currentBlock.col)
+        );
+    }
+
     private goByRaft(
         currentBlock: Block,
         nextBlock: Block,
@@ -166,6 +253,15 @@ export class Ai {
             return ZERO_VECTOR;
         }
 
+        if (
+            this.host.y <= currentBlock.y + 1.5 * this.host.height &&
+            !this.track.isThreatened(currentBlock.row, currentBlock.col) &&
+            this.track.isThreatened(nextBlock.row, nextBlock.col)
+        ) {
+            // Wait for the moving obstacle to go by
+            return { x: 0, y: VERTICAL_BACKWARD };
+        }
+
         if (currentBlock.type === BlockType.Obstacle) {
             if (
                 currentBlock.y + currentBlock.height / 2 <
@@ -234,7 +330,10 @@ export class Ai {
 
         let verticalMovement = 0;
 
-        if (
+        if (this.canJumpOver(currentBlock)) {
+            // Run up to the gap and jump
+            verticalMovement = VERTICAL_FORWARD;
+        } else if (
             nextBlock.type === BlockType.Empty &&
             this.host.y + this.host.height / 2 < currentBlock.y
         ) {
@@ -246,6 +345,7 @@ export class Ai {
 
         if (
             verticalMovement < 0 &&
+            !this.canJumpOver(currentBlock) &&
             nextBlock.type === BlockType.Empty &&
             this.host.y + this.host.height / 2 <
                 currentBlock.y + currentBlock.height / 2
@@ -353,10 +453,10 @@ export class Ai {
     }
 
     private findNextTarget(currentBlock: Block): Block | null {
-        const nextTarget = this.findNearestBlock(
-            currentBlock.row + 1,
-            currentBlock.col,
-        );
+        const nextTarget =
+            this.findNearestBlock(currentBlock.row + 1, currentBlock.col) ??
+            // Over a gap
+            this.findNearestBlock(currentBlock.row + 2, currentBlock.col);
 
         if (nextTarget == null || nextTarget.col !== currentBlock.col) {
             return nextTarget;
@@ -413,7 +513,7 @@ export class Ai {
 
     private findNearestBlock(row: number, col: number): Block | null {
         for (let i = 0; i < BLOCK_COUNT - 1; i++) {
-            const diff = (random() < 0.5 ? -1 : 1) * i;
+            const diff = (this.rng.random() < 0.5 ? -1 : 1) * i;
             const actualCol = col + diff;
 
             const block = this.track.getBlock(row, actualCol);
@@ -422,7 +522,7 @@ export class Ai {
                 block.type === BlockType.Free ||
                 block.type === BlockType.Raft
             ) {
-                this.horizontalMargin = random(0.2) * BLOCK_WIDTH;
+                this.horizontalMargin = this.rng.random(0.2) * BLOCK_WIDTH;
                 return this.track.getBlock(row, actualCol);
             }
         }
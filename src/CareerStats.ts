@@ -0,0 +1,127 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { ACHIEVEMENTS, loadUnlockedAchievements } from "./achievements";
+import { getFirstKeyName, InputAction, isKeyBound } from "./keyBindings";
+import { loadProfile, Profile } from "./profile";
+import { renderText, TextSize } from "./text";
+import { formatTime } from "./TimeTrial";
+
+// Horizontal positions of the names and the values in "rem" units of
+// the text rendering.
+const NAME_X = -8;
+const VALUE_X = 8;
+
+const FIRST_ROW_Y = -8;
+const ROW_HEIGHT = 1.5;
+
+const getStatRows = (
+    profile: Profile,
+    achievementCount: number,
+): [string, string][] => {
+    const { finalRanks, bestTimes } = profile;
+
+    return [
+        ["RACES PLAYED", `${profile.racesPlayed}`],
+        ["TOURNAMENTS PLAYED", `${profile.tournamentsPlayed}`],
+        ["TOURNAMENTS WON", `${profile.tournamentsWon}`],
+        ["ACHIEVEMENTS", `${achievementCount} / ${ACHIEVEMENTS.length}`],
+        [
+            "BEST FINAL RANK",
+            finalRanks.length > 0 ? `${Math.min(...finalRanks)}` : "-",
+        ],
+        [
+            "LATEST FINAL RANKS",
+            finalRanks.slice(-5).reverse().join(", ") || "-",
+        ],
+        ["ELIMINATED AS THE 13TH", `${profile.thirteenthEliminations}`],
+        ["FALLS", `${profile.falls}`],
+        ["CHECKPOINTS REACHED", `${profile.checkpointsReached}`],
+        ...Object.entries(bestTimes).map(([name, time]): [string, string] => [
+            `BEST TIME ${name}`,
+            formatTime(time),
+        ]),
+    ];
+};
+
+/*
+ * Screen showing the career statistics of the player from the profile.
+ */
+export class CareerStats {
+    private onExit: () => void;
+    private profile = loadProfile();
+    private achievementCount = Object.keys(loadUnlockedAchievements()).length;
+
+    constructor(onExit: () => void) {
+        this.onExit = onExit;
+    }
+
+    start(): void {
+        // Capture phase, so that the screen gets the keys before anyone
+        // else.
+        window.addEventListener("keydown", this.onKeyDown, true);
+    }
+
+    stop(): void {
+        window.removeEventListener("keydown", this.onKeyDown, true);
+    }
+
+    draw(): void {
+        renderText("CAREER", TextSize.Normal, "Impact", 1, -12);
+
+        getStatRows(this.profile, this.achievementCount).forEach(
+            ([name, value], row) => {
+                const y = FIRST_ROW_Y + row * ROW_HEIGHT;
+                renderText(name, TextSize.Xs, "Impact", 0.8, y, true, NAME_X);
+                renderText(
+                    value,
+                    TextSize.Xs,
+                    "Sans-serif",
+                    1,
+                    y,
+                    true,
+                    VALUE_X,
+                );
+            },
+        );
+
+        renderText(
+            `${getFirstKeyName(InputAction.Pause)} exit`,
+            TextSize.Tiny,
+            "Sans-serif",
+            0.8,
+            14,
+        );
+    }
+
+    private onKeyDown = (event: KeyboardEvent): void => {
+        // The screen takes all the keyboard input while shown.
+        event.stopImmediatePropagation();
+
+        if (isKeyBound(InputAction.Pause, event.code)) {
+            this.stop();
+            this.onExit();
+        }
+    };
+}
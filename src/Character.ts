@@ -29,18 +29,40 @@ import {
     CharacterFacingDirection,
     renderCharacter,
 } from "./CharacterAnimation";
-import { getControls } from "./controls";
 import { easeInQuad } from "./core/math/easings";
 import { GameObject } from "./GameObject";
-import { cx } from "./graphics";
-import { random } from "./core/math/random";
+import { Random } from "./core/math/random";
 import { mirrorHorizontally } from "./rendering";
 import { Track } from "./Track";
-import { isZero, Vector, ZERO_VECTOR } from "./core/math/Vector";
+import {
+    dotProduct,
+    isZero,
+    multiply,
+    normalize,
+    Vector,
+    ZERO_VECTOR,
+} from "./core/math/Vector";
 
 export const FALL_TIME: number = 500;
 export const DROP_TIME: number = 1000;
 
+// Time in the air, when the character can't fall off the track.
+export const JUMP_TIME: number = 800;
+// Time to get going again after landing.
+const LANDING_TIME: number = 900;
+const JUMP_SPEED: number = 0.4;
+
+const DIVE_TIME: number = 400;
+// Time lying down after a dive.
+const DIVE_RECOVERY_TIME: number = 800;
+const DIVE_SPEED: number = 0.35;
+
+// Longest time to hold on to another character.
+const GRAB_TIME: number = 1500;
+const GRAB_COOLDOWN: number = 2000;
+const SHOVE_COOLDOWN: number = 1500;
+const SHOVE_ANIMATION_TIME: number = 300;
+
 const colors: string[] = [
     "rgb(255, 255, 0)", // yellow
     "rgb(255, 0, 0)", // red
@@ -92,20 +114,49 @@ export const CHARACTER_DIMENSIONS: Readonly<Dimensions> = {
     height: 2,
 };
 
+export enum CharacterAction {
+    None,
+    Jump,
+    Dive,
+    Grab,
+    Shove,
+}
+
+/*
+ * Provides the movement direction of a character that is not
+ * controlled by the AI.
+ */
+export interface MovementSource {
+    getMovement(t: number): Vector;
+
+    // Without this, the character only runs.
+    getAction?(t: number): CharacterAction;
+}
+
 export class Character implements GameObject {
+    readonly id: number;
     ai: Ai | null;
+    private input: MovementSource | undefined;
     rank: number = 0;
     finished: boolean = false;
     eliminated: boolean = false;
+    // Eliminated during the race for being the 13th, not only for
+    // being too far behind when the race ended.
+    eliminatedAsThirteenth: boolean = false;
+    finishTime: number | undefined;
+    fallCount: number = 0;
 
     // Makes walk animations between characters go out of sync.
-    private timeOffset = random(2000);
+    private timeOffset: number;
 
     private direction: Vector = ZERO_VECTOR;
     private latestDirection: Vector = { x: 0, y: -1 };
 
     private color: string;
 
+    // Less than 1 for drawing the character translucent.
+    opacity: number = 1;
+
     x: number = 0;
     y: number = 0;
     width: number;
@@ -115,6 +166,14 @@ export class Character implements GameObject {
 
     fallStartTime: number | undefined;
     dropStartTime: number | undefined;
+    jumpStartTime: number | undefined;
+    diveStartTime: number | undefined;
+
+    // The character being held on to.
+    grabbed: Character | undefined;
+    private grabStartTime: number | undefined;
+    private grabEndTime: number | undefined;
+    private shoveTime: number | undefined;
 
     latestCheckpointIndex: number = 0;
 
@@ -124,11 +183,16 @@ export class Character implements GameObject {
 
     constructor(
         id: number,
-        track: Track | undefined,
-        wOffset = 1 + Math.random() * 0.6,
-        hOffset = 1 + Math.random() * 0.4,
+        track: Track,
+        rng: Random,
+        input?: MovementSource,
+        wOffset = 1 + rng.random(0.6),
+        hOffset = 1 + rng.random(0.4),
     ) {
-        this.ai = id === 0 || !track ? null : new Ai(this, track);
+        this.id = id;
+        this.ai = input ? null : new Ai(this, track, rng);
+        this.input = input;
+        this.timeOffset = rng.random(2000);
         this.color = colors[id];
         this.width = CHARACTER_DIMENSIONS.width * wOffset;
         this.height = CHARACTER_DIMENSIONS.height * hOffset;
@@ -147,15 +211,85 @@ export class Character implements GameObject {
         }
     }
 
+    getDirection(): Vector {
+        return this.direction;
+    }
+
     getMovement(t: number): Vector {
         if (!this.ai) {
             // Player
-            return getControls().movement;
+            return this.input ? this.input.getMovement(t) : ZERO_VECTOR;
         }
 
         return this.ai.getMovement(t);
     }
 
+    getAction(t: number): CharacterAction {
+        if (!this.ai) {
+            return this.input?.getAction?.(t) ?? CharacterAction.None;
+        }
+
+        return this.ai.getAction();
+    }
+
+    isJumping(t: number): boolean {
+        return this.jumpStartTime != null && t - this.jumpStartTime < JUMP_TIME;
+    }
+
+    isDiving(t: number): boolean {
+        return this.diveStartTime != null && t - this.diveStartTime < DIVE_TIME;
+    }
+
+    /*
+     * After landing from a jump or a dive, the character can't be
+     * controlled for a while.
+     */
+    isRecovering(t: number): boolean {
+        return (
+            (this.jumpStartTime != null &&
+                t - this.jumpStartTime < JUMP_TIME + LANDING_TIME) ||
+            (this.diveStartTime != null &&
+                t - this.diveStartTime < DIVE_TIME + DIVE_RECOVERY_TIME)
+        );
+    }
+
+    /*
+     * Starts a jump or a dive in the given direction, or in the
+     * direction the character is facing if there's none. Returns
+     * false if the character is still busy with the previous one.
+     */
+    startAction(
+        t: number,
+        action: CharacterAction,
+        direction: Vector,
+    ): boolean {
+        if (
+            (action !== CharacterAction.Jump &&
+                action !== CharacterAction.Dive) ||
+            this.isRecovering(t)
+        ) {
+            return false;
+        }
+
+        const actionDirection = normalize(
+            isZero(direction) ? this.latestDirection : direction,
+        );
+        const speed = Math.max(
+            dotProduct(this.velocity, actionDirection),
+            action === CharacterAction.Jump ? JUMP_SPEED : DIVE_SPEED,
+        );
+
+        if (action === CharacterAction.Jump) {
+            this.jumpStartTime = t;
+        } else {
+            this.diveStartTime = t;
+        }
+
+        this.setDirection(actionDirection);
+        this.velocity = multiply(actionDirection, speed);
+        return true;
+    }
+
     move(): void {
         if (this.eliminated || this.finished) {
             this.direction = ZERO_VECTOR;
@@ -171,6 +305,37 @@ export class Character implements GameObject {
         this.y += this.velocity.y * 8;
     }
 
+    canGrab(t: number): boolean {
+        return (
+            !this.grabbed &&
+            (this.grabEndTime == null || GRAB_COOLDOWN <= t - this.grabEndTime)
+        );
+    }
+
+    grab(t: number, other: Character): void {
+        this.grabbed = other;
+        this.grabStartTime = t;
+    }
+
+    isGrabOver(t: number): boolean {
+        return this.grabStartTime != null && GRAB_TIME < t - this.grabStartTime;
+    }
+
+    release(t: number): void {
+        if (this.grabbed) {
+            this.grabbed = undefined;
+            this.grabEndTime = t;
+        }
+    }
+
+    canShove(t: number): boolean {
+        return this.shoveTime == null || SHOVE_COOLDOWN <= t - this.shoveTime;
+    }
+
+    shove(t: number): void {
+        this.shoveTime = t;
+    }
+
     drop(t: number, position: Vector): void {
         this.x = position.x;
         this.y = position.y;
@@ -178,11 +343,19 @@ export class Character implements GameObject {
         this.latestDirection = { x: 0, y: -1 };
         this.velocity = ZERO_VECTOR;
         this.fallStartTime = undefined;
+        this.jumpStartTime = undefined;
+        this.diveStartTime = undefined;
+        this.release(t);
         this.dropStartTime = t;
         this.ai?.reset();
     }
 
-    draw(t: number, _: number, pattern?: CanvasPattern): void {
+    draw(
+        cx: CanvasRenderingContext2D,
+        t: number,
+        _: number,
+        pattern?: CanvasPattern,
+    ): void {
         const direction: CharacterFacingDirection =
             this.latestDirection.y !== 0
                 ? this.latestDirection.x === 0
@@ -222,6 +395,8 @@ export class Character implements GameObject {
 
         cx.translate(this.x, this.y - heightDiff);
 
+        cx.globalAlpha *= this.opacity;
+
         if (this.latestDirection.x < 0) {
             mirrorHorizontally(cx, this.width);
         }
@@ -238,9 +413,15 @@ export class Character implements GameObject {
             cx.translate(-this.width / 2, -renderHeight / 2);
 
             // Fade away
-            cx.globalAlpha = easeInQuad(progress);
+            cx.globalAlpha *= easeInQuad(progress);
         } else if (this.dropStartTime && t - this.dropStartTime < DROP_TIME) {
-            cx.globalAlpha = easeInQuad((t - this.dropStartTime) / DROP_TIME);
+            cx.globalAlpha *= easeInQuad((t - this.dropStartTime) / DROP_TIME);
+        }
+
+        if (this.jumpStartTime != null && this.isJumping(t)) {
+            // Up in the air
+            const progress = (t - this.jumpStartTime) / JUMP_TIME;
+            cx.translate(0, -Math.sin(progress * Math.PI) * renderHeight * 0.4);
         }
 
         const animationTime =
@@ -259,17 +440,36 @@ export class Character implements GameObject {
                     ? CharacterFacingDirection.Backward
                     : CharacterFacingDirection.BackwardRight
                 : direction,
-            this.getAnimation(),
+            this.getAnimation(t),
             pattern,
         );
         cx.restore();
     }
 
-    private getAnimation(): CharacterAnimation {
+    private getAnimation(t: number): CharacterAnimation {
         if (this.fallStartTime != null) {
             return CharacterAnimation.Fall;
         }
 
+        if (this.isJumping(t)) {
+            return CharacterAnimation.Jump;
+        }
+
+        if (this.diveStartTime != null && this.isRecovering(t)) {
+            return CharacterAnimation.Dive;
+        }
+
+        if (this.grabbed) {
+            return CharacterAnimation.Grab;
+        }
+
+        if (
+            this.shoveTime != null &&
+            t - this.shoveTime < SHOVE_ANIMATION_TIME
+        ) {
+            return CharacterAnimation.Shove;
+        }
+
         if (!isZero(this.direction)) {
             return CharacterAnimation.Walk;
         }
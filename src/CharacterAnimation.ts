@@ -30,6 +30,10 @@ export enum CharacterAnimation {
     Walk,
     Fall,
     Celebrate,
+    Jump,
+    Dive,
+    Grab,
+    Shove,
 }
 
 export enum CharacterFacingDirection {
@@ -125,6 +129,32 @@ export function renderCharacter(
                 -Math.PI * (8 / 8) +
                 easeInOutQuad(triangle(period, t)) * (Math.PI / 4);
             break;
+        case CharacterAnimation.Jump:
+            // Legs tucked in, arms up
+            leg1Angle = -Math.PI / 4;
+            leg2Angle = Math.PI / 4;
+            arm1Angle = -Math.PI * (7 / 8);
+            arm2Angle = -Math.PI * (6 / 8);
+            break;
+        case CharacterAnimation.Dive:
+            // Stretched out, arms first
+            bouncing = -0.1 * h;
+            leg1Angle = leg2Angle = Math.PI / 3;
+            arm1Angle = arm2Angle = -Math.PI / 2;
+            break;
+        case CharacterAnimation.Grab:
+            // Both hands holding on, leaning back
+            leg1Angle = -Math.PI / 8;
+            leg2Angle = Math.PI / 8;
+            arm1Angle = arm2Angle = -Math.PI * (5 / 8);
+            break;
+        case CharacterAnimation.Shove:
+            // One arm thrust forward
+            leg1Angle = -Math.PI / 6;
+            leg2Angle = Math.PI / 4;
+            arm1Angle = -Math.PI / 2;
+            arm2Angle = Math.PI / 8;
+            break;
         default:
             break;
     }
@@ -413,7 +443,10 @@ function parseColor(color: string): { r: number; g: number; b: number } {
         : { r: 0, g: 0, b: 0 };
 }
 
-const isFirefox = navigator.userAgent.toLowerCase().includes("firefox");
+// A function instead of a constant so that this module can be loaded
+// also outside of the browser, e.g. in the headless simulation.
+const isFirefox = (): boolean =>
+    navigator.userAgent.toLowerCase().includes("firefox");
 
 function getCharacterGradient(
     cx: CanvasRenderingContext2D,
@@ -463,7 +496,7 @@ function getCharacterGradient(
         }
 
         // Firefox is slow with gradients so use patterns instead
-        if (isFirefox) {
+        if (isFirefox()) {
             if (noCache)
                 return createGradientPattern(cx, gradient, w * 2, h * 2);
 
@@ -0,0 +1,273 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { getButtonName, getGamepadState } from "./gamepad";
+import {
+    BINDING_SLOT_COUNT,
+    bindButton,
+    bindKey,
+    clearButton,
+    clearKey,
+    getFirstKeyName,
+    getKeyMap,
+    getKeyName,
+    INPUT_ACTIONS,
+    InputAction,
+    isKeyBound,
+    resetKeyMap,
+} from "./keyBindings";
+import { renderText, TextSize } from "./text";
+
+// Columns of the table: the key slots first, then the button slots.
+const COLUMN_COUNT = 2 * BINDING_SLOT_COUNT;
+
+// Horizontal positions of the action names and the columns in "rem"
+// units of the text rendering.
+const NAME_X = -20;
+const COLUMN_X: readonly number[] = [-8, 1, 10, 19];
+
+const FIRST_ROW_Y = -8;
+const ROW_HEIGHT = 1.7;
+
+/*
+ * Settings screen for binding the actions to any keys and gamepad
+ * buttons. The screen itself is used with the arrow keys and the
+ * confirm and pause keys, which always keep a key, so that it can't be
+ * made unusable. The bindings are kept in the local storage.
+ */
+export class ControlSettings {
+    private onExit: () => void;
+
+    private row = 0;
+    private col = 0;
+    private isWaitingForInput = false;
+    private message = "";
+
+    // For noticing when a gamepad button goes down.
+    private previousButtons: readonly boolean[] = [];
+
+    constructor(onExit: () => void) {
+        this.onExit = onExit;
+    }
+
+    start(): void {
+        // Capture phase, so that the settings get the keys before
+        // anyone else.
+        window.addEventListener("keydown", this.onKeyDown, true);
+    }
+
+    stop(): void {
+        window.removeEventListener("keydown", this.onKeyDown, true);
+    }
+
+    draw(): void {
+        this.pollGamepad();
+
+        renderText("CONTROLS", TextSize.Normal, "Impact", 1, -12);
+
+        const headers = ["KEY 1", "KEY 2", "BUTTON 1", "BUTTON 2"];
+        headers.forEach((header, col) =>
+            renderText(
+                header,
+                TextSize.Xs,
+                "Impact",
+                0.6,
+                FIRST_ROW_Y - ROW_HEIGHT,
+                true,
+                COLUMN_X[col],
+            ),
+        );
+
+        INPUT_ACTIONS.forEach((action, row) => {
+            const y = FIRST_ROW_Y + row * ROW_HEIGHT;
+
+            renderText(
+                action.toUpperCase(),
+                TextSize.Xs,
+                "Impact",
+                0.8,
+                y,
+                true,
+                NAME_X,
+            );
+
+            for (let col = 0; col < COLUMN_COUNT; col++) {
+                const isSelected = row === this.row && col === this.col;
+                const text =
+                    isSelected && this.isWaitingForInput
+                        ? "..."
+                        : this.getBindingName(action, col);
+
+                renderText(
+                    text,
+                    TextSize.Xs,
+                    "Sans-serif",
+                    isSelected ? 1 : 0.7,
+                    y,
+                    true,
+                    COLUMN_X[col],
+                    undefined,
+                    isSelected
+                        ? this.isWaitingForInput
+                            ? "orange"
+                            : "yellow"
+                        : "white",
+                );
+            }
+        });
+
+        renderText(
+            this.message ||
+                (this.isWaitingForInput
+                    ? this.col < BINDING_SLOT_COUNT
+                        ? `Press the new key - ${getFirstKeyName(InputAction.Pause)} cancel`
+                        : `Press the new gamepad button - ${getFirstKeyName(InputAction.Pause)} cancel`
+                    : ""),
+            TextSize.Xs,
+            "Sans-serif",
+            1,
+            9.5,
+            true,
+            0,
+            undefined,
+            this.message ? "orange" : "white",
+        );
+        renderText(
+            `ARROWS move - ${getFirstKeyName(InputAction.Confirm)} change - DELETE clear - R reset all - ${getFirstKeyName(InputAction.Pause)} exit`,
+            TextSize.Tiny,
+            "Sans-serif",
+            0.8,
+            12,
+        );
+    }
+
+    private getBindingName(action: InputAction, col: number): string {
+        const { keys, buttons } = getKeyMap()[action];
+
+        if (col < BINDING_SLOT_COUNT) {
+            const key = keys[col];
+            return key != null ? getKeyName(key) : "-";
+        }
+
+        const button = buttons[col - BINDING_SLOT_COUNT];
+        return button != null ? getButtonName(button) : "-";
+    }
+
+    private getSelectedAction(): InputAction {
+        return INPUT_ACTIONS[this.row];
+    }
+
+    private showConflict(conflict: InputAction | undefined): void {
+        this.message = conflict
+            ? `Already used for ${conflict.toUpperCase()}, clear it there first`
+            : "";
+    }
+
+    private pollGamepad(): void {
+        const buttons = getGamepadState()?.buttons ?? [];
+
+        if (this.isWaitingForInput && this.col >= BINDING_SLOT_COUNT) {
+            const button = buttons.findIndex(
+                (isDown, i) => isDown && !this.previousButtons[i],
+            );
+            if (button >= 0) {
+                this.isWaitingForInput = false;
+                this.showConflict(
+                    bindButton(
+                        this.getSelectedAction(),
+                        this.col - BINDING_SLOT_COUNT,
+                        button,
+                    ),
+                );
+            }
+        }
+
+        this.previousButtons = buttons;
+    }
+
+    private clearSelected(): void {
+        const action = this.getSelectedAction();
+        if (this.col >= BINDING_SLOT_COUNT) {
+            clearButton(action, this.col - BINDING_SLOT_COUNT);
+        } else if (!clearKey(action, this.col)) {
+            this.message = `${action.toUpperCase()} needs at least one key`;
+        }
+    }
+
+    private onKeyDown = (event: KeyboardEvent): void => {
+        // The settings take all the keyboard input while shown.
+        event.stopImmediatePropagation();
+        this.message = "";
+
+        if (this.isWaitingForInput) {
+            event.preventDefault();
+
+            if (isKeyBound(InputAction.Pause, event.code)) {
+                this.isWaitingForInput = false;
+            } else if (this.col < BINDING_SLOT_COUNT) {
+                this.showConflict(
+                    bindKey(this.getSelectedAction(), this.col, event.code),
+                );
+                this.isWaitingForInput = false;
+            }
+            return;
+        }
+
+        switch (event.code) {
+            case "ArrowUp":
+                this.row = Math.max(this.row - 1, 0);
+                break;
+            case "ArrowDown":
+                this.row = Math.min(this.row + 1, INPUT_ACTIONS.length - 1);
+                break;
+            case "ArrowLeft":
+                this.col = Math.max(this.col - 1, 0);
+                break;
+            case "ArrowRight":
+                this.col = Math.min(this.col + 1, COLUMN_COUNT - 1);
+                break;
+            case "Delete":
+            case "Backspace":
+                this.clearSelected();
+                break;
+            case "KeyR":
+                resetKeyMap();
+                this.message = "Default controls restored";
+                break;
+            default:
+                if (isKeyBound(InputAction.Confirm, event.code)) {
+                    this.isWaitingForInput = true;
+                } else if (isKeyBound(InputAction.Pause, event.code)) {
+                    this.stop();
+                    this.onExit();
+                } else {
+                    return;
+                }
+                break;
+        }
+
+        // E.g. no scrolling with the arrow keys
+        event.preventDefault();
+    };
+}
@@ -33,5 +33,5 @@ export interface GameObject extends Area {
 
     velocity: Vector;
 
-    draw(t: number, dt: number): void;
+    draw(cx: CanvasRenderingContext2D, t: number, dt: number): void;
 }
@@ -0,0 +1,202 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Character, MovementSource } from "./Character";
+import { loadItem, saveItem } from "./core/platform/storage";
+import { Random } from "./core/math/random";
+import { normalize, Vector, ZERO_VECTOR } from "./core/math/Vector";
+import { Track } from "./Track";
+import { TrackTemplate } from "./TrackElement";
+import { RoundDefinition, TrackSource } from "./tournament";
+
+const GHOST_PATH_VERSION = 1;
+
+const STORAGE_KEY_PREFIX = "13thguy.ghost.";
+
+// Time between the recorded positions. Positions in between are
+// interpolated.
+const SAMPLE_INTERVAL = 100;
+
+const GHOST_OPACITY = 0.4;
+
+/*
+ * Path of the player in a finished race, stored for racing against
+ * it later on the same track.
+ */
+export interface GhostPath {
+    version: number;
+    track: TrackTemplate;
+    finishTime: number;
+    playerWidthOffset: number;
+    playerHeightOffset: number;
+    // Triples of [x, y, visible] every SAMPLE_INTERVAL. Not visible
+    // when the player has fallen off the track.
+    samples: readonly number[];
+}
+
+// FNV-1a hash of the track elements, to keep the storage keys short.
+export const hashTrack = (track: TrackTemplate): string => {
+    const text = JSON.stringify(track);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+};
+
+/*
+ * The generated tracks are never raced again, so only the rounds on
+ * the built-in tracks have a ghost.
+ */
+export const hasRoundGhost = (round: RoundDefinition): boolean =>
+    round.track === TrackSource.BuiltIn;
+
+const getStorageKey = (track: TrackTemplate): string =>
+    STORAGE_KEY_PREFIX + hashTrack(track);
+
+export const loadGhostPath = (track: TrackTemplate): GhostPath | undefined => {
+    const path = loadItem<GhostPath>(getStorageKey(track));
+    return path?.version === GHOST_PATH_VERSION ? path : undefined;
+};
+
+/*
+ * Saves the path if it is faster than the stored one.
+ */
+export const saveGhostPathIfBest = (path: GhostPath): boolean => {
+    const best = loadGhostPath(path.track);
+    if (best && best.finishTime <= path.finishTime) {
+        return false;
+    }
+
+    return saveItem(getStorageKey(path.track), path);
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/*
+ * Records the path of the player during a race.
+ */
+export class GhostRecorder {
+    private track: TrackTemplate;
+    private playerWidthOffset: number;
+    private playerHeightOffset: number;
+    private samples: number[] = [];
+
+    constructor(
+        track: TrackTemplate,
+        playerWidthOffset: number,
+        playerHeightOffset: number,
+    ) {
+        this.track = track;
+        this.playerWidthOffset = playerWidthOffset;
+        this.playerHeightOffset = playerHeightOffset;
+    }
+
+    record(t: number, player: Character): void {
+        while ((this.samples.length / 3) * SAMPLE_INTERVAL <= t) {
+            this.samples.push(
+                round(player.x),
+                round(player.y),
+                player.fallStartTime == null ? 1 : 0,
+            );
+        }
+    }
+
+    getPath(finishTime: number): GhostPath {
+        return {
+            version: GHOST_PATH_VERSION,
+            track: this.track,
+            finishTime,
+            playerWidthOffset: this.playerWidthOffset,
+            playerHeightOffset: this.playerHeightOffset,
+            samples: [...this.samples],
+        };
+    }
+}
+
+/*
+ * A translucent character following a recorded path. Not part of the
+ * race: it does not collide with the others and has no rank.
+ */
+export class Ghost implements MovementSource {
+    readonly character: Character;
+    private path: GhostPath;
+    private direction: Vector = ZERO_VECTOR;
+    visible = true;
+
+    constructor(path: GhostPath, track: Track) {
+        this.path = path;
+        // Own random generator so that the ghost does not affect the
+        // race.
+        this.character = new Character(
+            0,
+            track,
+            new Random(0),
+            this,
+            path.playerWidthOffset,
+            path.playerHeightOffset,
+        );
+        this.character.opacity = GHOST_OPACITY;
+    }
+
+    getMovement(): Vector {
+        return this.direction;
+    }
+
+    update(t: number): void {
+        const { samples } = this.path;
+        const count = samples.length / 3;
+
+        const position = t / SAMPLE_INTERVAL;
+        const i = Math.min(Math.floor(position), count - 1);
+        const next = Math.min(i + 1, count - 1);
+
+        const x0 = samples[i * 3];
+        const y0 = samples[i * 3 + 1];
+        const x1 = samples[next * 3];
+        const y1 = samples[next * 3 + 1];
+        const isVisible = samples[i * 3 + 2] === 1;
+        const isNextVisible = samples[next * 3 + 2] === 1;
+
+        this.visible = isVisible;
+        this.character.finished = t >= this.path.finishTime;
+
+        if (!isVisible || !isNextVisible || this.character.finished) {
+            this.character.x = x0;
+            this.character.y = y0;
+            this.direction = ZERO_VECTOR;
+        } else {
+            const progress = position - i;
+            this.character.x = x0 + (x1 - x0) * progress;
+            this.character.y = y0 + (y1 - y0) * progress;
+            this.direction =
+                x0 === x1 && y0 === y1
+                    ? ZERO_VECTOR
+                    : normalize({ x: x1 - x0, y: y1 - y0 });
+        }
+
+        this.character.setDirection(this.direction);
+    }
+}
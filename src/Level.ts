@@ -22,392 +22,319 @@
  * SOFTWARE.
  */
 
-import { Area, overlap } from "./core/math/Area";
 import { Camera } from "./core/gameplay/Camera";
-import { Character, CHARACTER_DIMENSIONS, FALL_TIME } from "./Character";
+import { Character, CharacterAction, FALL_TIME } from "./Character";
 import { GameObject } from "./GameObject";
 import { canvas, cx } from "./graphics";
 import {
-    calculateCollisionBetweenCharacters,
-    calculateCollisionToObstacle,
-    getMovementVelocity,
-} from "./physics";
-import { Track } from "./Track";
+    CAMERA_CHECKPOINT_MOVEMENT_TIME,
+    PlayerSetup,
+    Race,
+    State,
+} from "./Race";
+import { Area } from "./core/math/Area";
 import {
-    BLOCK_WIDTH,
     isSlope,
     TrackElement,
     TrackElementType,
-    TT,
+    TrackTemplate,
 } from "./TrackElement";
-import { length, Vector, ZERO_VECTOR } from "./core/math/Vector";
-import { playSound, Sound } from "./audio";
-import { randomMinMax } from "./core/math/random";
-import { BLOCK_HEIGHT } from "./TrackElement";
+import { Random } from "./core/math/random";
+import { Ghost, GhostPath } from "./Ghost";
+import { RaceEvent, RaceEventType } from "./raceEvents";
+import { EventEmitter } from "./core/gameplay/EventEmitter";
+import { playRaceSounds } from "./raceAudio";
 
 const TRACK_VISIBLE_HEIGHT = 70;
 
-const TRACK_START_Y = 400;
-
-// Width of empty area on the left and right side of the track.
-const BANK_WIDTH = 5;
-
-// Length of empty area before the start and after the end of the
-// track.
-const BANK_HEIGHT = 40;
+/*
+ * The part of the screen that follows one player.
+ */
+interface PlayerView {
+    player: Character;
+    camera: Camera;
+    // Area of the canvas, kept up to date when the canvas is resized.
+    viewport: Area;
+    // Camera moves to the checkpoint a while after the player falls.
+    isCameraTransitionPending: boolean;
+}
 
-const maxSfxDistance = 3 * BLOCK_HEIGHT;
+// Splits the canvas between the players: side by side for two, and in
+// quarters for three or four.
+const getViewport = (index: number, count: number): Area => {
+    const columns = count > 1 ? 2 : 1;
+    const rows = count > 2 ? 2 : 1;
+    const width = canvas.width / columns;
+    const height = canvas.height / rows;
+
+    return {
+        x: (index % columns) * width,
+        y: Math.floor(index / columns) * height,
+        width,
+        height,
+    };
+};
 
-// Time after falling to being dropped to a checkpoint.
-const CAMERA_CHECKPOINT_MOVEMENT_TIME = 1000;
+/*
+ * A race played in the browser by the players, with cameras,
+ * rendering and sounds.
+ */
+export class Level extends Race {
+    private views: PlayerView[];
+    private platePattern: CanvasPattern | null | undefined;
 
-export enum State {
-    RUNNING,
-    GAME_OVER,
-    FINISHED,
-}
+    // For running the race fast without sounds, e.g. when seeking in
+    // a replay.
+    muted = false;
 
-// https://stackoverflow.com/a/12646864
-function shuffleArray<T>(array: T[]) {
-    for (let i = array.length - 1; i >= 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [array[i], array[j]] = [array[j], array[i]];
-    }
-}
-export class Level implements Area {
-    private camera: Camera = new Camera(this, canvas);
-    private platePattern: CanvasPattern | null | undefined;
-    private track: Track;
+    // Ranks and the number of qualified and eliminated characters.
+    // Not shown e.g. in the time trial, where there's no one to race
+    // against.
+    showsRaceStatus = true;
 
-    public characters: Character[] = [];
-    private charactersCount = 40;
-    public player = new Character(0, undefined, 0, 0);
+    // Player's personal best on the track, for racing against it.
+    private ghost: Ghost | undefined;
 
-    readonly x;
-    readonly y;
-    readonly width;
-    readonly height;
+    // Followed by the camera instead of the player when watching the
+    // race after the players are out.
+    private spectatedTarget: Area | undefined;
 
-    state: State = State.RUNNING;
+    // Everything that happens in the race, for the sounds, the
+    // statistics and the achievements.
+    readonly events = new EventEmitter<RaceEvent>();
 
     constructor(
-        trackTemplate: readonly TT[],
+        trackTemplate: TrackTemplate,
         playerWidthOffset: number,
         playerHeightOffset: number,
-        chars: Character[] | undefined,
+        aiCharacterIds: readonly number[] | undefined,
         platePattern: CanvasPattern | null | undefined,
+        rng: Random,
+        players: readonly PlayerSetup[],
+        // Players shown on this screen, all of them by default. In a
+        // networked race the others play on their own computers.
+        localPlayerIds?: readonly number[],
     ) {
-        this.platePattern = platePattern;
-
-        this.track = new Track(trackTemplate, TRACK_START_Y);
-
-        this.x = 0 - this.track.width / 2 - BANK_WIDTH;
-        this.y = TRACK_START_Y - this.track.height - BANK_HEIGHT;
-        this.width = this.track.width + 2 * BANK_WIDTH;
-        this.height = this.track.height + 2 * BANK_HEIGHT;
-
-        const startElement = this.track.get(0);
-
-        const CHARS_PER_ROW = 15;
-        const xGap = startElement.width / CHARS_PER_ROW;
-        const yGap = CHARACTER_DIMENSIONS.height * 1.9;
-        const startMargin = xGap * 0.3;
-
-        this.player = new Character(
-            0,
-            this.track,
+        super(
+            trackTemplate,
             playerWidthOffset,
             playerHeightOffset,
+            aiCharacterIds,
+            rng,
+            players,
         );
-        this.characters.push(this.player);
-
-        // Add ai characters
-        for (
-            let i = 1;
-            i < (chars ? chars.length : this.charactersCount);
-            i++
-        ) {
-            if (chars && chars[i].eliminated) continue; // Skip already eliminated characters
-
-            const aiCharacter = new Character(i, this.track);
-            this.characters.push(aiCharacter);
-        }
-
-        // Set start positions
-        const charactersOnStartLine: Character[] = [
-            this.player,
-            ...this.characters,
-        ];
 
-        shuffleArray(charactersOnStartLine);
+        this.platePattern = platePattern;
 
-        for (let i = 0; i < charactersOnStartLine.length; i++) {
-            const c = charactersOnStartLine[i];
-            const row = Math.floor(i / CHARS_PER_ROW);
-            const col = i % CHARS_PER_ROW;
+        playRaceSounds(this);
 
-            const startPosition = {
-                x: startElement.minX + startMargin + col * xGap,
-                y: startElement.y + row * yGap,
+        const localPlayers = this.players.filter(
+            (p) => !localPlayerIds || localPlayerIds.includes(p.id),
+        );
+        this.views = localPlayers.map((player, i) => {
+            const viewport = getViewport(i, localPlayers.length);
+            const camera = new Camera(this, viewport);
+
+            camera.follow(player);
+            camera.visibleAreaHeight = TRACK_VISIBLE_HEIGHT;
+            // Characted should be 1/4 height from bottom
+            camera.yAdjust = -(1 / 4);
+            camera.update(0);
+
+            return {
+                player,
+                camera,
+                viewport,
+                isCameraTransitionPending: false,
             };
-
-            c.x = startPosition.x;
-            c.y = startPosition.y;
-        }
-
-        this.camera.follow(this.player);
-        this.camera.visibleAreaHeight = TRACK_VISIBLE_HEIGHT;
-        // Characted should be 1/4 height from bottom
-        this.camera.yAdjust = -(1 / 4);
-        this.camera.update(0);
+        });
     }
 
-    update(t: number, dt: number): void {
-        this.camera.update(t);
-
-        this.track.update(t, dt, this.characters);
+    setGhost(path: GhostPath): void {
+        this.ghost = new Ghost(path, this.track);
+        this.ghost.update(this.time);
+    }
 
-        this.calculateMovement(t, dt);
+    update(dt: number): void {
+        this.updateViewports();
+        for (const view of this.views) {
+            view.camera.update(this.time);
+        }
 
-        this.checkCollisions();
+        super.update(dt);
 
-        for (let ci = 0; ci < this.characters.length; ci++) {
-            const c = this.characters[ci];
+        this.ghost?.update(this.time);
 
-            c.move();
+        for (const view of this.views) {
+            this.updateCameraTransition(view);
         }
-
-        this.updateCharacterRanks();
-        this.checkGameState();
     }
 
-    private playWithVolumeByDistance(sound: Sound, y: number): void {
-        const yDistance = Math.abs(y - this.player.y);
-        playSound(
-            sound,
-            Math.max(0, Math.min(1, 1 - yDistance / maxSfxDistance)),
+    private updateViewports(): void {
+        this.views.forEach((view, i) =>
+            Object.assign(view.viewport, getViewport(i, this.views.length)),
         );
     }
 
-    private calculateMovement(t: number, dt: number): void {
-        for (let i = 0; i < this.characters.length; i++) {
-            const c = this.characters[i];
-
-            const range = this.track.getBetween(c.y, c.y + c.height);
-
-            let movementDirection: Vector = ZERO_VECTOR;
+    private updateCameraTransition(view: PlayerView): void {
+        const { player, camera } = view;
 
-            if (c.fallStartTime != null) {
-                // Can't move when falling.
-                const fallTime = t - c.fallStartTime;
-                if (fallTime > FALL_TIME + CAMERA_CHECKPOINT_MOVEMENT_TIME) {
-                    this.dropToLatestCheckpoint(t, c);
-                }
-            } else if (
-                c.fallStartTime == null &&
-                !this.track.isOnPlatform(range, c)
-            ) {
-                c.fallStartTime = t;
-                if (c === this.player) {
-                    setTimeout(() => {
-                        const checkpoint = this.track.getCheckpoint(
-                            this.player.latestCheckpointIndex,
-                        );
-                        const dropY = checkpoint.y + checkpoint.height / 2;
-
-                        this.camera.setTransition({
-                            startY: this.player.y,
-                            endY: dropY,
-                            startTime: t,
-                            // A bit longer duration here looks better for some reason.
-                            duration: CAMERA_CHECKPOINT_MOVEMENT_TIME + 500,
-                        });
-                    }, FALL_TIME);
-                }
-            } else {
-                movementDirection = c.getMovement(t);
+        if (
+            view.isCameraTransitionPending &&
+            player.fallStartTime != null &&
+            this.time - player.fallStartTime >= FALL_TIME
+        ) {
+            view.isCameraTransitionPending = false;
 
-                c.setDirection(movementDirection);
-                c.velocity = getMovementVelocity(c, movementDirection, dt);
-            }
+            const checkpoint = this.track.getCheckpoint(
+                player.latestCheckpointIndex,
+            );
+            const dropY = checkpoint.y + checkpoint.height / 2;
+
+            camera.setTransition({
+                startY: player.y,
+                endY: dropY,
+                startTime: player.fallStartTime,
+                // A bit longer duration here looks better for some reason.
+                duration: CAMERA_CHECKPOINT_MOVEMENT_TIME + 500,
+            });
         }
     }
 
-    private checkCollisions(): void {
-        // Calculate collisions to other characters.
-        for (let ci = 0; ci < this.characters.length; ci++) {
-            const c = this.characters[ci];
+    /*
+     * Shows the given area, e.g. a character or a point moved by
+     * hand, on the whole screen instead of following the players.
+     */
+    spectate(target: Area): void {
+        this.spectatedTarget = target;
+        this.views = this.views.slice(0, 1);
+
+        const [view] = this.views;
+        view.camera.follow(target);
+        view.isCameraTransitionPending = false;
+    }
 
-            if (c.doesNotCollide) continue;
+    /*
+     * Who hears the sounds of the race: the players on this screen or
+     * the spectated target.
+     */
+    getSoundListeners(): readonly Area[] {
+        return this.spectatedTarget
+            ? [this.spectatedTarget]
+            : this.views.map((view) => view.player);
+    }
 
-            for (let oi = ci + 1; oi < this.characters.length; oi++) {
-                const other = this.characters[oi];
-                if (other.doesNotCollide) continue;
+    private findView(c: Character): PlayerView | undefined {
+        // The camera is not moved by the players when spectating.
+        return this.spectatedTarget
+            ? undefined
+            : this.views.find((view) => view.player === c);
+    }
 
-                if (calculateCollisionBetweenCharacters(c, other)) {
-                    // Check if character is the player or the velocity is bit larger in any direction to prevent too much sfx plays
-                    if (!c.ai || length(c.velocity) > 0.3)
-                        this.playWithVolumeByDistance(Sound.Hit, c.y);
-                }
-            }
+    protected onFall(t: number, c: Character): void {
+        const view = this.findView(c);
+        if (view) {
+            view.isCameraTransitionPending = true;
         }
 
-        // The obstacles shall have the final word on collision detection.
-        for (let ci = 0; ci < this.characters.length; ci++) {
-            const c = this.characters[ci];
-
-            const range = this.track.getBetween(c.y, c.y + c.height);
-            const { minI, maxI } = range;
+        this.events.emit({ type: RaceEventType.Fell, time: t, character: c });
+    }
 
-            for (let ei = minI; ei <= maxI; ei++) {
-                const element = this.track.get(ei);
-                for (let oi = 0; oi < element.objects.length; oi++) {
-                    const o = element.objects[oi];
+    protected onDrop(t: number, c: Character): void {
+        this.findView(c)?.camera.follow(c);
 
-                    // Basic distance check if sound should be played
-                    if (calculateCollisionToObstacle(c, o)) {
-                        this.playWithVolumeByDistance(Sound.Bounce, o.y);
-                    }
-                }
-            }
-        }
+        this.events.emit({
+            type: RaceEventType.Dropped,
+            time: t,
+            character: c,
+        });
     }
 
-    private renderText(text: string, x: number, y: number, width: number) {
-        const textMetrics = cx.measureText(text);
-        const textX = x + (width - textMetrics.width) / 2;
-        cx.fillText(text, textX, y);
+    protected onCheckpoint(t: number, c: Character): void {
+        this.events.emit({
+            type: RaceEventType.CheckpointReached,
+            time: t,
+            character: c,
+            checkpointIndex: c.latestCheckpointIndex,
+        });
     }
 
-    private updateCharacterRanks(): void {
-        // Separate finished and unfinished characters
-        const finishedCharacters = this.characters.filter(
-            (char) => char.finished,
-        );
-        const unfinishedCharacters = this.characters.filter(
-            (char) => !char.finished,
-        );
-
-        // Sort finished characters based on their rank
-        finishedCharacters.sort((a, b) => a.rank - b.rank);
-
-        // Sort unfinished characters based on their Y coordinate
-        unfinishedCharacters.sort(
-            (a, b) => a.y + a.height / 2 - (b.y + b.height / 2),
-        );
-
-        // Merge finished and sorted unfinished characters
-        const sortedCharacters = [
-            ...finishedCharacters,
-            ...unfinishedCharacters,
-        ];
+    protected onFinish(t: number, c: Character): void {
+        this.events.emit({
+            type: RaceEventType.Finished,
+            time: t,
+            character: c,
+        });
+    }
 
-        // Update ranks of characters
-        sortedCharacters.forEach((char, index) => {
-            char.rank = index + 1;
+    protected onEliminate(t: number, c: Character): void {
+        this.events.emit({
+            type: RaceEventType.Eliminated,
+            time: t,
+            character: c,
         });
     }
 
-    private checkGameState(): void {
-        for (let ci = 0; ci < this.characters.length; ci++) {
-            const c = this.characters[ci];
-
-            const checkpointIndex = this.track.findLatestCheckpoint(c.y);
-            const range = this.track.getBetween(c.y, c.y + c.height);
-
-            // Falling, do not do anything
-            if (c.fallStartTime != null || !this.track.isOnPlatform(range, c))
-                continue;
-
-            if (checkpointIndex > c.latestCheckpointIndex) {
-                c.latestCheckpointIndex = checkpointIndex;
-                //  13th character will be eliminated if it falls or is 13th in checkpoint
-                if (c.rank === 13) {
-                    c.eliminated = true;
-                    c.stop();
-                    if (!c.ai) this.state = State.GAME_OVER;
-                    continue;
-                }
+    protected onEnd(t: number): void {
+        for (const c of this.characters) {
+            if (!c.eliminated) {
+                this.events.emit({
+                    type: RaceEventType.Qualified,
+                    time: t,
+                    character: c,
+                });
             }
-
-            // TODO: take some steps after finish
-            if (c.y + c.height < this.track.finishY) {
-                if (c.rank === 13) {
-                    c.eliminated = true;
-                    c.stop();
-                    if (!c.ai) this.state = State.GAME_OVER;
-                } else {
-                    c.finished = true;
-                    c.stop();
-                }
-
-                // If all finished but last 13, or player finishes
-                if (!c.ai || c.rank == this.characters.length - 13) {
-                    let eliminatedCount = this.characters.filter(
-                        (character) => character.eliminated,
-                    ).length;
-
-                    // Set all unfinished characters as eliminated
-                    for (let ci = 0; ci < this.characters.length; ci++) {
-                        if (
-                            this.characters[ci].rank >
-                            this.characters.length - 13
-                        ) {
-                            if (eliminatedCount < 13) {
-                                if (!this.characters[ci].eliminated) {
-                                    this.characters[ci].eliminated = true;
-                                    eliminatedCount++;
-                                }
-                            } else {
-                                break;
-                            }
-                        }
-                    }
-
-                    // If player character is eliminated or finishes
-                    if (this.characters[0].eliminated) {
-                        this.state = State.GAME_OVER;
-                    } else {
-                        this.state = State.FINISHED;
-                    }
-                }
+            if (c.finished && c.rank === 1) {
+                this.events.emit({
+                    type: RaceEventType.Won,
+                    time: t,
+                    character: c,
+                });
             }
         }
     }
 
-    private dropToLatestCheckpoint(t: number, c: Character): void {
-        const checkpoint = this.track.getCheckpoint(c.latestCheckpointIndex);
-
-        const dropPosition: Area = {
-            x: randomMinMax(
-                checkpoint.minX + BLOCK_WIDTH,
-                checkpoint.maxX - BLOCK_WIDTH,
-            ),
-            y: checkpoint.y + checkpoint.height / 2,
-            width: c.width,
-            height: c.height,
-        };
-
-        if (this.characters.some((o) => overlap(o, dropPosition))) {
-            // No luck, wait for the next frame.
-            return;
+    protected onStateChange(t: number): void {
+        if (this.state !== State.RUNNING) {
+            this.events.emit({
+                type: RaceEventType.RaceFinished,
+                time: t,
+                state: this.state,
+            });
         }
+    }
 
-        //  13th character will be eliminated if it falls
-        if (c.rank === 13) {
-            c.eliminated = true;
-            c.stop();
-            if (!c.ai) this.state = State.GAME_OVER;
-            return;
-        }
+    protected onCharacterCollision(c: Character, other: Character): void {
+        this.events.emit({
+            type: RaceEventType.CharacterCollision,
+            time: this.time,
+            character: c,
+            other,
+        });
+    }
 
-        c.drop(t, dropPosition);
+    protected onObstacleCollision(c: Character, o: GameObject): void {
+        this.events.emit({
+            type: RaceEventType.ObstacleHit,
+            time: this.time,
+            character: c,
+            obstacle: o,
+        });
+    }
 
-        this.playWithVolumeByDistance(Sound.Teleport, c.y);
+    protected onAction(t: number, c: Character, action: CharacterAction): void {
+        this.events.emit({
+            type: RaceEventType.Action,
+            time: t,
+            character: c,
+            action,
+        });
+    }
 
-        if (c === this.player) {
-            this.camera.follow(c);
-        }
+    private renderText(text: string, x: number, y: number, width: number) {
+        const textMetrics = cx.measureText(text);
+        const textX = x + (width - textMetrics.width) / 2;
+        cx.fillText(text, textX, y);
     }
 
     // Function to draw a cross (❌) for better browser compatibility
@@ -427,42 +354,123 @@ export class Level implements Area {
         cx.stroke();
     }
 
-    draw(t: number, dt: number): void {
+    draw(dt: number): void {
+        // Draw in the time of the race so that the animations match
+        // with the simulation.
+        const t = this.time;
+
+        this.updateViewports();
+
+        for (const view of this.views) {
+            this.drawView(view, t, dt);
+        }
+
+        if (this.views.length > 1) {
+            this.drawViewBorders();
+        }
+    }
+
+    private drawView(view: PlayerView, t: number, dt: number): void {
+        const { camera, viewport } = view;
+
+        cx.save();
+
+        // Nothing of the view is drawn over the others.
+        cx.beginPath();
+        cx.rect(viewport.x, viewport.y, viewport.width, viewport.height);
+        cx.clip();
+
         cx.save();
-        // Apply camera - drawing in level coordinates after these lines:
-        cx.translate(canvas.width / 2, canvas.height / 2);
-        cx.scale(this.camera.zoom, this.camera.zoom);
-        cx.translate(-this.camera.x, -this.camera.y);
+        this.applyCamera(view); // Drawing in level coordinates after this
 
         const objectsToDraw: GameObject[] = [...this.characters];
+        if (this.ghost?.visible) {
+            objectsToDraw.push(this.ghost.character);
+        }
 
-        this.drawTrack(objectsToDraw);
+        this.drawTrack(objectsToDraw, camera.getViewArea());
 
         this.drawObjects(t, dt, objectsToDraw);
 
         cx.restore(); // End camera - Drawing no longer in level coordinates
 
-        this.drawGradient();
+        this.drawGradient(viewport);
 
-        if (this.state === State.RUNNING) {
+        if (
+            this.showsRaceStatus &&
+            (this.state === State.RUNNING || this.spectatedTarget)
+        ) {
             cx.save();
-            // Apply camera - drawing in level coordinates after these lines:
-            cx.translate(canvas.width / 2, canvas.height / 2);
-            cx.scale(this.camera.zoom, this.camera.zoom);
-            cx.translate(-this.camera.x, -this.camera.y);
+            this.applyCamera(view); // Drawing in level coordinates after this
 
             this.drawStatusOfCharacters(t);
 
-            this.drawTopStatusTexts();
+            if (!this.spectatedTarget) {
+                this.drawTopStatusTexts(view);
+            }
 
             cx.restore(); // End camera - Drawing no longer in level coordinates
         }
+
+        cx.restore();
+    }
+
+    private drawViewBorders(): void {
+        cx.save();
+        cx.strokeStyle = "rgba(255, 255, 255, 0.4)";
+        cx.lineWidth = 2;
+        for (const { viewport } of this.views) {
+            cx.strokeRect(
+                viewport.x,
+                viewport.y,
+                viewport.width,
+                viewport.height,
+            );
+        }
+        cx.restore();
     }
 
-    drawTrack(objectsToDraw: GameObject[]): void {
+    /*
+     * Draws only the track, with the camera following the given area
+     * instead of the player. Used by the track editor, which draws its
+     * own markings on top of the track in level coordinates.
+     */
+    drawTrackAround(
+        area: Area,
+        dt: number,
+        drawOverlay: (cx: CanvasRenderingContext2D) => void,
+    ): void {
+        const [view] = this.views;
+
+        this.updateViewports();
+        view.camera.follow(area);
+        view.camera.update(this.time);
+
+        cx.save();
+        this.applyCamera(view); // Drawing in level coordinates after this
+
+        const objectsToDraw: GameObject[] = [];
+        this.drawTrack(objectsToDraw, view.camera.getViewArea());
+        this.drawObjects(this.time, dt, objectsToDraw);
+        drawOverlay(cx);
+
+        cx.restore();
+
+        this.drawGradient(view.viewport);
+    }
+
+    private applyCamera({ camera, viewport }: PlayerView): void {
+        cx.translate(
+            viewport.x + viewport.width / 2,
+            viewport.y + viewport.height / 2,
+        );
+        cx.scale(camera.zoom, camera.zoom);
+        cx.translate(-camera.x, -camera.y);
+    }
+
+    drawTrack(objectsToDraw: GameObject[], viewArea: Area): void {
         cx.save();
 
-        const viewArea = this.camera.getViewArea();
         const { minI, maxI } = this.track.getBetween(
             viewArea.y,
             viewArea.y + viewArea.height,
@@ -490,7 +498,7 @@ export class Level implements Area {
 
             cx.globalAlpha = 1;
 
-            objectsToDraw.push(...element.objects);
+            objectsToDraw.push(...element.objects, ...element.movingObstacles);
         }
 
         cx.restore();
@@ -581,31 +589,31 @@ export class Level implements Area {
 
         for (let i = 0; i < objectsToDraw.length; i++) {
             const c = objectsToDraw[i];
-            c.draw(t, dt);
+            c.draw(cx, t, dt);
         }
     }
 
-    drawGradient(): void {
+    drawGradient({ x, y, width, height }: Area): void {
         const gradient = cx.createRadialGradient(
-            canvas.width / 2,
-            canvas.height / 2,
+            x + width / 2,
+            y + height / 2,
             0,
-            canvas.width / 2,
-            canvas.height / 2,
-            canvas.width / 1.5,
+            x + width / 2,
+            y + height / 2,
+            width / 1.5,
         );
         gradient.addColorStop(1, "rgba(0, 0, 0, 0)");
         gradient.addColorStop(0.8, "rgba(0, 0, 0, 0)");
         gradient.addColorStop(0, "rgba(255, 255, 255, 0.3)");
         cx.fillStyle = gradient;
-        cx.fillRect(0, 0, canvas.width, canvas.height);
+        cx.fillRect(x, y, width, height);
 
-        const gradientL = cx.createLinearGradient(0, 0, 0, canvas.height);
+        const gradientL = cx.createLinearGradient(0, y, 0, y + height);
         gradientL.addColorStop(0, "rgba(0, 0, 0, 1)");
         gradientL.addColorStop(0.2, "rgba(0, 0, 0, 0.5)");
         gradientL.addColorStop(1, "rgba(0, 0, 0, 0)");
         cx.fillStyle = gradientL;
-        cx.fillRect(0, 0, canvas.width, canvas.height);
+        cx.fillRect(x, y, width, height);
     }
 
     drawStatusOfCharacters(t: number) {
@@ -617,7 +625,7 @@ export class Level implements Area {
                         ? "red"
                         : char.eliminated
                           ? "crimson"
-                          : char.rank > this.characters.length - 13
+                          : char.rank > this.getQualifyingCount()
                             ? "orange"
                             : char.rank === 1
                               ? "lightgreen"
@@ -661,7 +669,7 @@ export class Level implements Area {
         });
     }
 
-    drawTopStatusTexts() {
+    drawTopStatusTexts({ player, camera }: PlayerView) {
         const eliminatedCharactersCount = this.characters
             .filter((char) => char.eliminated)
             .length.toString();
@@ -670,39 +678,52 @@ export class Level implements Area {
             .filter((char) => char.finished)
             .length.toString();
 
+        // Shrunk to fit a narrower view of the split screen.
+        const viewArea = camera.getViewArea();
+        const scale = Math.min(1, viewArea.width / this.width);
+
+        cx.translate(camera.x, camera.y - 30);
+        cx.scale(scale, scale);
+
+        if (this.players.length > 1) {
+            cx.font = "3px Impact";
+            cx.fillStyle = "yellow";
+            cx.fillText("P" + (player.id + 1), -42, -5);
+        }
+
         cx.font = "4px Impact";
         cx.fillStyle =
-            this.player.rank === 13
+            player.rank === 13
                 ? "red"
-                : this.player.eliminated
+                : player.eliminated
                   ? "crimson"
-                  : this.player.rank > this.characters.length - 13
+                  : player.rank > this.getQualifyingCount()
                     ? "orange"
-                    : this.player.rank === 1
+                    : player.rank === 1
                       ? "lightgreen"
                       : "yellow";
 
         cx.fillText(
-            "▲ " + this.player.rank + " / " + this.characters.length,
+            "▲ " + player.rank + " / " + this.characters.length,
             -42,
-            this.camera.y - 30,
+            0,
         );
         cx.fillStyle = "green";
         cx.fillText(
             "✪ " +
                 finishedCharactersCount +
                 " / " +
-                (this.characters.length - 13) +
+                this.getQualifyingCount() +
                 " QUALIFIED",
             -15,
-            this.camera.y - 30,
+            0,
         );
         cx.fillStyle = "red";
-        this.drawCross(28, this.camera.y - 31.5, 3);
+        this.drawCross(28, -1.5, 3);
         cx.fillText(
-            eliminatedCharactersCount + " / 13",
+            eliminatedCharactersCount + " / " + this.eliminationCount,
             32,
-            this.camera.y - 30,
+            0,
         );
     }
 }
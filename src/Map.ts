@@ -43,4 +43,9 @@ export interface Map {
      * Dynamically checks if the grid position can be walked on.
      */
     isFree(row: number, col: number): boolean;
+
+    /*
+     * Checks if a moving obstacle is at or next to the grid position.
+     */
+    isThreatened(row: number, col: number): boolean;
 }
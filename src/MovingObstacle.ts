@@ -0,0 +1,67 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { GameObject } from "./GameObject";
+import { Vector } from "./core/math/Vector";
+
+/*
+ * An obstacle that moves on its own. The position and the bounds
+ * (x, y, width, height) cover the whole area that the obstacle moves
+ * in, while the actual shape is given by the nearest point.
+ */
+export interface MovingObstacle extends GameObject {
+    // Half of the thickness of the moving part.
+    readonly radius: number;
+
+    // How much of the speed of the obstacle is given to a character
+    // that it hits.
+    readonly knockback: number;
+
+    /*
+     * Moves the obstacle to where it is at the given race time. The
+     * position depends only on the time, so that the races can be
+     * replayed.
+     */
+    update(t: number, dt: number): void;
+
+    /*
+     * Returns the point of the moving part nearest to the position.
+     */
+    getNearestPoint(position: Vector): Vector;
+
+    /*
+     * Returns how much the given point of the moving part moved in the
+     * latest update.
+     */
+    getVelocityAt(point: Vector): Vector;
+}
+
+/*
+ * Returns the position (0 - 1) in a back and forth movement that
+ * takes the given period.
+ */
+export const getBackAndForth = (t: number, period: number): number => {
+    const cycle = (((t / period) % 1) + 1) % 1;
+    return cycle < 0.5 ? cycle * 2 : 2 - cycle * 2;
+};
@@ -0,0 +1,457 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { playSound, Sound } from "./audio";
+import { Character, CharacterAction, MovementSource } from "./Character";
+import {
+    Controls,
+    getControls,
+    setTouchControlsVisibility,
+    updateControls,
+} from "./controls";
+import { Random } from "./core/math/random";
+import { add, length, subtract, Vector, ZERO_VECTOR } from "./core/math/Vector";
+import { getFirstKeyName, InputAction, isKeyBound } from "./keyBindings";
+import { Level } from "./Level";
+import {
+    applyCharacterSnapshot,
+    applyCharacterStatus,
+    CharacterSnapshot,
+    ClientMessage,
+    encodeMessage,
+    parseServerMessage,
+    PROTOCOL_VERSION,
+    RaceSetup,
+    RaceStateMessage,
+    RaceStatus,
+    ServerMessage,
+    SnapshotMessage,
+} from "./netProtocol";
+import { State, TIME_STEP } from "./Race";
+import { renderText, TextSize } from "./text";
+
+// The other characters are shown this much behind the latest
+// snapshot, so that there is a snapshot on both sides to interpolate
+// between.
+const INTERPOLATION_DELAY = 100;
+
+// Older snapshots are not needed for the interpolation.
+const SNAPSHOT_BUFFER_TIME = 1000;
+
+// When the predicted position of the own character is off by more
+// than this, e.g. after a drop to a checkpoint, it is moved straight
+// to where the server has it.
+const MAX_PREDICTION_ERROR = 5;
+
+// The race clock is set to the server's if they drift further apart
+// than this.
+const MAX_TIME_DIFFERENCE = 500;
+
+// The other players are moved by the snapshots only.
+const REMOTE_INPUT: MovementSource = {
+    getMovement: () => ZERO_VECTOR,
+};
+
+interface ReceivedSnapshot {
+    message: SnapshotMessage;
+    receiveTime: number;
+}
+
+interface Prediction {
+    seq: number;
+    position: Vector;
+}
+
+const interpolate = (
+    from: CharacterSnapshot,
+    to: CharacterSnapshot,
+    ratio: number,
+): CharacterSnapshot => ({
+    ...to,
+    x: from.x + (to.x - from.x) * ratio,
+    y: from.y + (to.y - from.y) * ratio,
+});
+
+/*
+ * Takes part in a race run by the race server. The own character is
+ * predicted from the local input so that it responds right away, and
+ * corrected when the server sees it elsewhere. The other characters
+ * are interpolated between the snapshots from the server. Without an
+ * own character, e.g. after joining during the race, the race is
+ * only watched.
+ */
+export class NetworkClient {
+    private url: string;
+    private platePattern: CanvasPattern | null | undefined;
+    private onExit: () => void;
+
+    private socket: WebSocket | undefined;
+    private message = "CONNECTING...";
+
+    private status = RaceStatus.Lobby;
+    private playerId: number | null = null;
+    private connectedCount = 0;
+    private qualifiedPlayerIds: readonly number[] = [];
+    private setup: RaceSetup | undefined;
+
+    private level: Level | undefined;
+    private ownCharacter: Character | undefined;
+    private charactersById = new Map<number, Character>();
+
+    private controls: Controls = {
+        movement: ZERO_VECTOR,
+        action: CharacterAction.None,
+    };
+    private inputSeq = 0;
+    // Own positions after the inputs the server has not used yet.
+    private predictions: Prediction[] = [];
+    private snapshots: ReceivedSnapshot[] = [];
+
+    constructor(
+        url: string,
+        platePattern: CanvasPattern | null | undefined,
+        onExit: () => void,
+    ) {
+        this.url = url;
+        this.platePattern = platePattern;
+        this.onExit = onExit;
+    }
+
+    start(): void {
+        // Capture phase, so that the client gets the keys before
+        // anyone else.
+        window.addEventListener("keydown", this.onKeyDown, true);
+
+        const socket = new WebSocket(this.url);
+        socket.addEventListener("open", () => {
+            this.message = "";
+            this.send({ type: "join", version: PROTOCOL_VERSION });
+        });
+        socket.addEventListener("message", (event: MessageEvent) =>
+            this.receive(String(event.data)),
+        );
+        socket.addEventListener("close", () => {
+            this.message = "DISCONNECTED FROM " + this.url;
+        });
+        this.socket = socket;
+    }
+
+    stop(): void {
+        window.removeEventListener("keydown", this.onKeyDown, true);
+        this.socket?.close();
+        this.socket = undefined;
+        setTouchControlsVisibility(false);
+    }
+
+    update(): void {
+        const level = this.level;
+        const own = this.ownCharacter;
+        if (!level || this.status !== RaceStatus.Running) {
+            return;
+        }
+
+        if (own) {
+            updateControls();
+            this.controls = getControls();
+            this.inputSeq++;
+            this.send({
+                type: "input",
+                seq: this.inputSeq,
+                movement: this.controls.movement,
+                action: this.controls.action,
+            });
+        }
+
+        level.update(TIME_STEP);
+
+        if (own) {
+            this.predictions.push({
+                seq: this.inputSeq,
+                position: { x: own.x, y: own.y },
+            });
+        }
+
+        this.updateOtherCharacters();
+    }
+
+    draw(dt: number): void {
+        this.level?.draw(dt);
+
+        const { title, help } = this.getTexts();
+        renderText(this.message || title, TextSize.Small, "Impact", 1, -13);
+        renderText(help, TextSize.Tiny, "Sans-serif", 0.8, 14);
+    }
+
+    private getTexts(): { title: string; help: string } {
+        const confirm = getFirstKeyName(InputAction.Confirm);
+        const leave = `${getFirstKeyName(InputAction.Pause)} leave`;
+        const round = this.setup
+            ? `ROUND ${this.setup.roundNumber} / ${this.setup.roundCount}`
+            : "";
+
+        switch (this.status) {
+            case RaceStatus.Lobby:
+                return {
+                    title: `ONLINE - ${this.connectedCount} CONNECTED`,
+                    help: `${confirm} start the race - ${leave}`,
+                };
+            case RaceStatus.Running:
+                return this.playerId != null
+                    ? { title: "", help: "" }
+                    : {
+                          title: `WATCHING ${round}`,
+                          help: `Wait for the next tournament - ${leave}`,
+                      };
+            default: {
+                const isFinal =
+                    this.setup != null &&
+                    this.setup.roundNumber === this.setup.roundCount;
+                const title =
+                    this.playerId == null
+                        ? `${round} OVER`
+                        : !this.qualifiedPlayerIds.includes(this.playerId)
+                          ? "ELIMINATED"
+                          : isFinal
+                            ? "TOURNAMENT WON!"
+                            : "QUALIFIED!";
+                return {
+                    title,
+                    help: `${confirm} start the next race - ${leave}`,
+                };
+            }
+        }
+    }
+
+    private send(message: ClientMessage): void {
+        if (this.socket?.readyState === WebSocket.OPEN) {
+            this.socket.send(encodeMessage(message));
+        }
+    }
+
+    private receive(data: string): void {
+        let message: ServerMessage;
+        try {
+            message = parseServerMessage(data);
+        } catch (e) {
+            console.error("Invalid message from the server", e);
+            return;
+        }
+
+        switch (message.type) {
+            case "raceState":
+                this.receiveRaceState(message);
+                break;
+            case "snapshot":
+                this.receiveSnapshot(message);
+                break;
+            case "error":
+                console.error("Race server: " + message.message);
+                break;
+        }
+    }
+
+    private receiveRaceState(message: RaceStateMessage): void {
+        const isNewRace =
+            message.status === RaceStatus.Running &&
+            this.status !== RaceStatus.Running;
+
+        this.status = message.status;
+        this.playerId = message.playerId;
+        this.connectedCount = message.connectedCount;
+        this.qualifiedPlayerIds = message.qualifiedPlayerIds ?? [];
+        this.setup = message.race ?? this.setup;
+
+        if (isNewRace && message.race) {
+            this.startRace(message.race, message.playerId);
+        } else if (this.level && message.status !== RaceStatus.Running) {
+            this.level.setState(
+                message.status === RaceStatus.GameOver
+                    ? State.GAME_OVER
+                    : State.FINISHED,
+            );
+        }
+
+        setTouchControlsVisibility(
+            this.status === RaceStatus.Running && this.playerId != null,
+        );
+    }
+
+    private startRace(setup: RaceSetup, playerId: number | null): void {
+        const localInput: MovementSource = {
+            getMovement: () => this.controls.movement,
+            getAction: () => this.controls.action,
+        };
+
+        const level = new Level(
+            setup.track,
+            setup.playerWidthOffset,
+            setup.playerHeightOffset,
+            setup.aiCharacterIds,
+            this.platePattern,
+            new Random(setup.seed),
+            setup.playerIds.map((id) => ({
+                id,
+                input: id === playerId ? localInput : REMOTE_INPUT,
+            })),
+            // A spectator follows the first player.
+            [playerId ?? setup.playerIds[0]],
+        );
+
+        // Only the server decides when the race is over.
+        level.decidesOutcome = false;
+        level.eliminationCount = setup.eliminationCount;
+        this.level = level;
+        this.charactersById = new Map(level.characters.map((c) => [c.id, c]));
+        this.ownCharacter =
+            playerId != null ? this.charactersById.get(playerId) : undefined;
+        this.inputSeq = 0;
+        this.predictions = [];
+        this.snapshots = [];
+
+        playSound(Sound.Go);
+    }
+
+    private receiveSnapshot(message: SnapshotMessage): void {
+        this.snapshots.push({ message, receiveTime: performance.now() });
+        while (
+            this.snapshots.length > 2 &&
+            this.snapshots[0].message.time < message.time - SNAPSHOT_BUFFER_TIME
+        ) {
+            this.snapshots.shift();
+        }
+
+        if (!this.level) {
+            return;
+        }
+
+        if (Math.abs(this.level.time - message.time) > MAX_TIME_DIFFERENCE) {
+            this.level.time = message.time;
+        }
+
+        this.correctPrediction(message);
+    }
+
+    /*
+     * Compares where the server has the own character with where it
+     * was predicted to be after the same input. The difference is
+     * added to the current prediction, which includes also the
+     * inputs the server has not got to yet.
+     */
+    private correctPrediction(message: SnapshotMessage): void {
+        const own = this.ownCharacter;
+        const snapshot = message.characters.find((s) => s.id === own?.id);
+        if (!own || !snapshot) {
+            return;
+        }
+
+        applyCharacterStatus(own, snapshot);
+
+        const prediction = this.predictions.find(
+            (p) => p.seq === message.inputSeq,
+        );
+        this.predictions = this.predictions.filter(
+            (p) => p.seq > message.inputSeq,
+        );
+
+        const error = prediction && subtract(snapshot, prediction.position);
+        if (
+            !error ||
+            length(error) > MAX_PREDICTION_ERROR ||
+            (snapshot.fallStartTime != null) !== (own.fallStartTime != null)
+        ) {
+            applyCharacterSnapshot(own, snapshot);
+            this.predictions = [];
+            return;
+        }
+
+        own.x += error.x;
+        own.y += error.y;
+        this.predictions = this.predictions.map((p) => ({
+            seq: p.seq,
+            position: add(p.position, error),
+        }));
+    }
+
+    private updateOtherCharacters(): void {
+        const latest = this.snapshots[this.snapshots.length - 1];
+        if (!latest) {
+            return;
+        }
+
+        // Estimate of the server time now, minus the delay.
+        const renderTime =
+            latest.message.time +
+            (performance.now() - latest.receiveTime) -
+            INTERPOLATION_DELAY;
+
+        const toIndex = this.snapshots.findIndex(
+            (s) => s.message.time >= renderTime,
+        );
+        const to = toIndex >= 0 ? this.snapshots[toIndex].message : undefined;
+        const from = toIndex > 0 ? this.snapshots[toIndex - 1].message : to;
+
+        if (!from || !to) {
+            // No newer snapshot yet, show the latest one.
+            this.applySnapshot(latest.message.characters);
+            return;
+        }
+
+        const ratio =
+            to.time > from.time
+                ? (renderTime - from.time) / (to.time - from.time)
+                : 1;
+
+        this.applySnapshot(
+            to.characters.map((s, i) => {
+                const previous = from.characters[i];
+                return previous?.id === s.id
+                    ? interpolate(previous, s, ratio)
+                    : s;
+            }),
+        );
+    }
+
+    private applySnapshot(characters: readonly CharacterSnapshot[]): void {
+        for (const s of characters) {
+            const c = this.charactersById.get(s.id);
+            if (c && c !== this.ownCharacter) {
+                applyCharacterSnapshot(c, s);
+            }
+        }
+    }
+
+    private onKeyDown = (event: KeyboardEvent): void => {
+        if (isKeyBound(InputAction.Pause, event.code)) {
+            event.stopImmediatePropagation();
+            this.stop();
+            this.onExit();
+        } else if (
+            isKeyBound(InputAction.Confirm, event.code) &&
+            this.status !== RaceStatus.Running
+        ) {
+            event.stopImmediatePropagation();
+            this.send({ type: "start" });
+        }
+    };
+}
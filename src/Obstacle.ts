@@ -23,7 +23,6 @@
  */
 
 import { GameObject } from "./GameObject";
-import { cx } from "./graphics";
 import { Vector, ZERO_VECTOR } from "./core/math/Vector";
 
 export class Obstacle implements GameObject {
@@ -43,7 +42,7 @@ export class Obstacle implements GameObject {
     }
 
     // eslint-disable-next-line
-    draw(_t: number, _dt: number): void {
+    draw(cx: CanvasRenderingContext2D, _t: number, _dt: number): void {
         cx.save();
         cx.translate(this.x, this.y);
 
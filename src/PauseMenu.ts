@@ -0,0 +1,209 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { playSound, Sound } from "./audio";
+import { isActionDownOnAnyGamepad } from "./controls";
+import { VectorMutable } from "./core/math/Vector";
+import { canvas, cx } from "./graphics";
+import { getKeyNames, InputAction, isKeyBound } from "./keyBindings";
+import { getRemUnitSize, renderText, TextSize } from "./text";
+import { setCanvasPositionFromScreenPosition } from "./window";
+
+export interface PauseMenuItem {
+    label: string;
+    select: () => void;
+}
+
+// Vertical positions of the items in "rem" units of the text rendering.
+const FIRST_ITEM_Y = -3;
+const ITEM_HEIGHT = 2.6;
+
+// Gamepad actions of the menu, the first one wins when several go
+// down at once. The pause button is often also a confirm button.
+const GAMEPAD_ACTIONS: readonly InputAction[] = [
+    InputAction.Pause,
+    InputAction.Confirm,
+    InputAction.Up,
+    InputAction.Down,
+];
+
+/*
+ * Menu shown over a paused race. It is used with the arrow keys,
+ * the confirm and pause keys, a gamepad or by tapping the items.
+ */
+export class PauseMenu {
+    private items: readonly PauseMenuItem[];
+    private onResume: () => void;
+
+    private selectedIndex = 0;
+    private isStarted = false;
+
+    // For noticing when a gamepad button goes down.
+    private heldActions: readonly InputAction[] = [];
+
+    constructor(items: readonly PauseMenuItem[], onResume: () => void) {
+        this.items = items;
+        this.onResume = onResume;
+    }
+
+    start(): void {
+        // Capture phase, so that the menu gets the keys before anyone
+        // else.
+        window.addEventListener("keydown", this.onKeyDown, true);
+        canvas.addEventListener("touchstart", this.onTouchStart, {
+            passive: false,
+        });
+        this.isStarted = true;
+        // The button that paused the race must not resume it at once.
+        this.heldActions = GAMEPAD_ACTIONS.filter(isActionDownOnAnyGamepad);
+    }
+
+    stop(): void {
+        window.removeEventListener("keydown", this.onKeyDown, true);
+        canvas.removeEventListener("touchstart", this.onTouchStart);
+        this.isStarted = false;
+    }
+
+    update(): void {
+        if (!this.isStarted) {
+            return;
+        }
+
+        const held = GAMEPAD_ACTIONS.filter(isActionDownOnAnyGamepad);
+        const pressed = held.find(
+            (action) => !this.heldActions.includes(action),
+        );
+        this.heldActions = held;
+
+        switch (pressed) {
+            case InputAction.Pause:
+                this.resume();
+                break;
+            case InputAction.Confirm:
+                this.select(this.selectedIndex);
+                break;
+            case InputAction.Up:
+                this.move(-1);
+                break;
+            case InputAction.Down:
+                this.move(1);
+                break;
+        }
+    }
+
+    draw(): void {
+        cx.save();
+        cx.fillStyle = "rgba(0, 0, 20, 0.6)";
+        cx.fillRect(0, 0, canvas.width, canvas.height);
+        cx.restore();
+
+        renderText("PAUSED", TextSize.Large, "Impact", 1, -8);
+
+        this.items.forEach((item, i) => {
+            const isSelected = i === this.selectedIndex;
+            renderText(
+                isSelected ? `► ${item.label} ◄` : item.label,
+                TextSize.Small,
+                "Impact",
+                isSelected ? 1 : 0.7,
+                FIRST_ITEM_Y + i * ITEM_HEIGHT,
+                true,
+                0,
+                undefined,
+                isSelected ? "yellow" : "white",
+            );
+        });
+
+        renderText(
+            `▲ / ▼ choose - ${getKeyNames(InputAction.Confirm)} select - ${getKeyNames(InputAction.Pause)} resume`,
+            TextSize.Tiny,
+            "Sans-serif",
+            0.8,
+            12,
+        );
+    }
+
+    private move(step: number): void {
+        playSound(Sound.Keyboard);
+        this.selectedIndex =
+            (this.selectedIndex + step + this.items.length) % this.items.length;
+    }
+
+    private select(index: number): void {
+        playSound(Sound.Keyboard);
+        this.items[index].select();
+    }
+
+    private resume(): void {
+        playSound(Sound.Keyboard);
+        this.onResume();
+    }
+
+    private onKeyDown = (event: KeyboardEvent): void => {
+        // The menu takes all the keyboard input while shown.
+        event.stopImmediatePropagation();
+
+        // A held key would pause and resume over and over.
+        if (event.repeat) {
+            event.preventDefault();
+            return;
+        }
+
+        if (isKeyBound(InputAction.Pause, event.code)) {
+            this.resume();
+        } else if (event.code === "ArrowUp") {
+            this.move(-1);
+        } else if (event.code === "ArrowDown") {
+            this.move(1);
+        } else if (isKeyBound(InputAction.Confirm, event.code)) {
+            this.select(this.selectedIndex);
+        } else {
+            return;
+        }
+
+        // E.g. no scrolling with the arrow keys
+        event.preventDefault();
+    };
+
+    private onTouchStart = (event: TouchEvent): void => {
+        event.preventDefault();
+
+        const touch = event.changedTouches[0];
+        if (!touch) {
+            return;
+        }
+
+        const point: VectorMutable = { x: 0, y: 0 };
+        setCanvasPositionFromScreenPosition(point, touch);
+
+        // The text is drawn above its position, so the middle of an
+        // item is a bit higher.
+        const y = (point.y - canvas.height / 2) / getRemUnitSize() + 0.7;
+        const index = Math.round((y - FIRST_ITEM_Y) / ITEM_HEIGHT);
+        if (index >= 0 && index < this.items.length) {
+            this.selectedIndex = index;
+            this.select(index);
+        }
+    };
+}
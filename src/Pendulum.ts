@@ -0,0 +1,147 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Area } from "./core/math/Area";
+import { Vector, ZERO_VECTOR } from "./core/math/Vector";
+import { MovingObstacle } from "./MovingObstacle";
+
+// Time of a full swing from one side to the other and back.
+const PERIOD = 3000;
+
+// How high the pendulum hangs from, for drawing.
+const ROPE_LENGTH = 24;
+
+/*
+ * A hammer that swings from side to side across a track element,
+ * knocking the characters far.
+ */
+export class Pendulum implements MovingObstacle {
+    readonly radius = 3;
+    readonly knockback = 3;
+
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+
+    velocity: Vector = ZERO_VECTOR;
+
+    private center: Vector;
+    private amplitude: number;
+    private phase: number;
+
+    private head: Vector;
+
+    constructor(area: Area, phase: number) {
+        this.x = area.x;
+        this.y = area.y;
+        this.width = area.width;
+        this.height = area.height;
+        this.center = {
+            x: area.x + area.width / 2,
+            y: area.y + area.height / 2,
+        };
+        this.amplitude = area.width / 2 - this.radius;
+        this.phase = phase;
+        this.head = this.getHead(0);
+    }
+
+    private getHead(t: number): Vector {
+        return {
+            x:
+                this.center.x +
+                this.amplitude *
+                    Math.sin(2 * Math.PI * (t / PERIOD + this.phase)),
+            y: this.center.y,
+        };
+    }
+
+    update(t: number): void {
+        const head = this.getHead(t);
+        this.velocity = { x: head.x - this.head.x, y: 0 };
+        this.head = head;
+    }
+
+    getNearestPoint(): Vector {
+        return this.head;
+    }
+
+    // eslint-disable-next-line
+    getVelocityAt(_point: Vector): Vector {
+        return this.velocity;
+    }
+
+    // eslint-disable-next-line
+    draw(cx: CanvasRenderingContext2D, _t: number, _dt: number): void {
+        const headHeight = this.radius * 1.5;
+
+        cx.save();
+
+        // Shadow
+        cx.fillStyle = "rgba(0, 0, 0, 0.15)";
+        cx.beginPath();
+        cx.ellipse(
+            this.head.x,
+            this.head.y,
+            this.radius,
+            this.radius / 2,
+            0,
+            0,
+            2 * Math.PI,
+        );
+        cx.fill();
+
+        // Rope
+        cx.strokeStyle = "rgb(90, 70, 50)";
+        cx.lineWidth = 0.4;
+        cx.beginPath();
+        cx.moveTo(this.center.x, this.head.y - ROPE_LENGTH);
+        cx.lineTo(this.head.x, this.head.y - headHeight);
+        cx.stroke();
+
+        // Head
+        const gradient = cx.createRadialGradient(
+            this.head.x - this.radius / 3,
+            this.head.y - headHeight - this.radius / 3,
+            0,
+            this.head.x,
+            this.head.y - headHeight,
+            this.radius,
+        );
+        gradient.addColorStop(0, "rgb(200, 200, 210)");
+        gradient.addColorStop(1, "rgb(90, 90, 110)");
+        cx.fillStyle = gradient;
+        cx.beginPath();
+        cx.arc(
+            this.head.x,
+            this.head.y - headHeight,
+            this.radius,
+            0,
+            2 * Math.PI,
+        );
+        cx.fill();
+
+        cx.restore();
+    }
+}
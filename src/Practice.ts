@@ -0,0 +1,276 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { MovementSource } from "./Character";
+import {
+    getControls,
+    setTouchControlsVisibility,
+    updateControls,
+} from "./controls";
+import { createSeed, Random } from "./core/math/random";
+import { getFirstKeyName, InputAction, isKeyBound } from "./keyBindings";
+import { Level } from "./Level";
+import { recordBestTime } from "./profile";
+import { State, TIME_STEP } from "./Race";
+import { RaceEventType } from "./raceEvents";
+import { formatTime } from "./TimeTrial";
+import { renderText, TextSize } from "./text";
+import { getBuiltInTrackVariants } from "./tracks";
+
+// Average size of the characters.
+const PLAYER_WIDTH_OFFSET = 1.3;
+const PLAYER_HEIGHT_OFFSET = 1.15;
+
+const getCheckpointName = (checkpointIndex: number): string =>
+    checkpointIndex > 0 ? `CHECKPOINT ${checkpointIndex}` : "START";
+
+/*
+ * Runs a track alone from any of its checkpoints, as many times as
+ * needed. Nobody is eliminated and R drops the player back to the
+ * chosen checkpoint.
+ */
+export class Practice {
+    private platePattern: CanvasPattern | null | undefined;
+    private onExit: () => void;
+
+    private tracks = getBuiltInTrackVariants();
+    private trackIndex = 0;
+    private checkpointIndex = 0;
+    private isRunning = false;
+
+    // Shows the chosen checkpoint while choosing, then raced on.
+    private level: Level;
+    private attemptStartTime = 0;
+    private attemptCount = 0;
+
+    private input: MovementSource = {
+        getMovement: () => getControls().movement,
+        getAction: () => getControls().action,
+    };
+
+    constructor(
+        platePattern: CanvasPattern | null | undefined,
+        onExit: () => void,
+    ) {
+        this.platePattern = platePattern;
+        this.onExit = onExit;
+        this.level = this.createLevel();
+    }
+
+    start(): void {
+        // Capture phase, so that the practice gets the keys before
+        // anyone else.
+        window.addEventListener("keydown", this.onKeyDown, true);
+    }
+
+    stop(): void {
+        window.removeEventListener("keydown", this.onKeyDown, true);
+        setTouchControlsVisibility(false);
+    }
+
+    update(): void {
+        if (!this.isRunning || this.level.state !== State.RUNNING) {
+            return;
+        }
+
+        updateControls();
+        this.level.update(TIME_STEP);
+    }
+
+    draw(dt: number): void {
+        if (!this.isRunning) {
+            this.drawSelection(dt);
+            return;
+        }
+
+        const level = this.level;
+        level.draw(dt);
+
+        const { finishTime } = level.player;
+        const isFinished = level.state !== State.RUNNING;
+        const time =
+            (isFinished ? (finishTime ?? 0) : level.time) -
+            this.attemptStartTime;
+        renderText(formatTime(time), TextSize.Normal, "Impact", 1, -12);
+        renderText(
+            `${getCheckpointName(this.checkpointIndex)}  -  TRY ${this.attemptCount}`,
+            TextSize.Tiny,
+            "Sans-serif",
+            0.8,
+            -9.5,
+        );
+
+        if (isFinished) {
+            renderText("FINISHED", TextSize.Large, "Impact", 1, 0);
+        }
+
+        renderText(
+            `R retry from the checkpoint - ${getFirstKeyName(InputAction.Pause)} back`,
+            TextSize.Tiny,
+            "Sans-serif",
+            0.8,
+            14,
+        );
+    }
+
+    private drawSelection(dt: number): void {
+        this.level.drawTrackAround(this.level.player, dt, () => {});
+
+        renderText("PRACTICE", TextSize.Large, "Impact", 1, -10);
+        renderText(
+            `▲ ${this.tracks[this.trackIndex].name} ▼`,
+            TextSize.Small,
+            "Impact",
+            1,
+            -6,
+        );
+        const lastCheckpointIndex = this.level.getCheckpointCount() - 1;
+        const checkpointCount =
+            this.checkpointIndex > 0 ? ` / ${lastCheckpointIndex}` : "";
+        renderText(
+            `◄ ${getCheckpointName(this.checkpointIndex)}${checkpointCount} ►`,
+            TextSize.Small,
+            "Impact",
+            1,
+            -4,
+        );
+
+        renderText(
+            `▲ / ▼ track - ◄ / ► checkpoint - ${getFirstKeyName(InputAction.Confirm)} start - ${getFirstKeyName(InputAction.Pause)} exit`,
+            TextSize.Tiny,
+            "Sans-serif",
+            0.8,
+            14,
+        );
+    }
+
+    private createLevel(): Level {
+        const level = new Level(
+            this.tracks[this.trackIndex].track,
+            PLAYER_WIDTH_OFFSET,
+            PLAYER_HEIGHT_OFFSET,
+            [],
+            this.platePattern,
+            new Random(createSeed()),
+            [{ id: 0, input: this.input }],
+        );
+        // Alone on the track, nobody can be eliminated.
+        level.eliminationCount = 0;
+        level.showsRaceStatus = false;
+        level.dropToCheckpoint(level.player, this.checkpointIndex);
+        level.events.on(RaceEventType.RaceFinished, () => this.finish(level));
+
+        return level;
+    }
+
+    // Only a run from the start is a time for the whole track.
+    private finish(level: Level): void {
+        const { finishTime } = level.player;
+        if (this.checkpointIndex === 0 && finishTime != null) {
+            recordBestTime(
+                this.tracks[this.trackIndex].track,
+                finishTime - this.attemptStartTime,
+            );
+        }
+    }
+
+    private chooseTrack(trackIndex: number): void {
+        this.trackIndex = Math.min(
+            Math.max(trackIndex, 0),
+            this.tracks.length - 1,
+        );
+        this.checkpointIndex = 0;
+        this.level = this.createLevel();
+    }
+
+    private chooseCheckpoint(checkpointIndex: number): void {
+        this.checkpointIndex = Math.min(
+            Math.max(checkpointIndex, 0),
+            this.level.getCheckpointCount() - 1,
+        );
+        this.level.dropToCheckpoint(this.level.player, this.checkpointIndex);
+    }
+
+    private startAttempt(): void {
+        if (this.level.state !== State.RUNNING) {
+            this.level = this.createLevel();
+        } else {
+            this.level.dropToCheckpoint(
+                this.level.player,
+                this.checkpointIndex,
+            );
+        }
+
+        this.attemptStartTime = this.level.time;
+        this.attemptCount++;
+        this.isRunning = true;
+        setTouchControlsVisibility(true);
+    }
+
+    private showSelection(): void {
+        this.isRunning = false;
+        this.attemptCount = 0;
+        this.level = this.createLevel();
+        setTouchControlsVisibility(false);
+    }
+
+    private onKeyDown = (event: KeyboardEvent): void => {
+        if (this.isRunning) {
+            if (event.code === "KeyR") {
+                event.stopImmediatePropagation();
+                this.startAttempt();
+            } else if (isKeyBound(InputAction.Pause, event.code)) {
+                event.stopImmediatePropagation();
+                this.showSelection();
+            }
+            return;
+        }
+
+        // The selection takes all the keyboard input.
+        event.stopImmediatePropagation();
+
+        switch (event.code) {
+            case "ArrowUp":
+                this.chooseTrack(this.trackIndex - 1);
+                break;
+            case "ArrowDown":
+                this.chooseTrack(this.trackIndex + 1);
+                break;
+            case "ArrowLeft":
+                this.chooseCheckpoint(this.checkpointIndex - 1);
+                break;
+            case "ArrowRight":
+                this.chooseCheckpoint(this.checkpointIndex + 1);
+                break;
+            default:
+                if (isKeyBound(InputAction.Pause, event.code)) {
+                    this.stop();
+                    this.onExit();
+                } else if (isKeyBound(InputAction.Confirm, event.code)) {
+                    this.startAttempt();
+                }
+                break;
+        }
+    };
+}
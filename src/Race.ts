@@ -0,0 +1,682 @@
+/*
+ * Copyright (c) 2024 - 2025 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Area, overlap } from "./core/math/Area";
+import {
+    Character,
+    CharacterAction,
+    CHARACTER_DIMENSIONS,
+    FALL_TIME,
+    MovementSource,
+} from "./Character";
+import { GameObject } from "./GameObject";
+import {
+    applyGrab,
+    applyShove,
+    calculateCollisionBetweenCharacters,
+    calculateCollisionToMovingObstacle,
+    calculateCollisionToObstacle,
+    getMovementVelocity,
+    isWithinReach,
+} from "./physics";
+import { Track } from "./Track";
+import { BLOCK_WIDTH, TrackTemplate } from "./TrackElement";
+import { Vector, ZERO_VECTOR } from "./core/math/Vector";
+import { Random } from "./core/math/random";
+
+export const TRACK_START_Y = 400;
+
+// How far from the last one to qualify the AI starts to grab and
+// shove the others.
+const FIGHTING_RANK_RANGE = 2;
+
+// Width of empty area on the left and right side of the track.
+const BANK_WIDTH = 5;
+
+// Length of empty area before the start and after the end of the
+// track.
+const BANK_HEIGHT = 40;
+
+// Time after falling to being dropped to a checkpoint.
+export const CAMERA_CHECKPOINT_MOVEMENT_TIME = 1000;
+
+// A race is always updated in steps of fixed length so that it can be
+// replayed exactly.
+export const TIME_STEP = 1000 / 60;
+
+// Characters in the first race of a tournament.
+export const MAX_CHARACTER_COUNT = 40;
+
+// The last ones to finish are eliminated.
+export const DEFAULT_ELIMINATION_COUNT = 13;
+
+export enum State {
+    RUNNING,
+    GAME_OVER,
+    FINISHED,
+}
+
+/*
+ * A human player of the race. There can be several of them when
+ * playing on a split screen.
+ */
+export interface PlayerSetup {
+    id: number;
+    input: MovementSource;
+}
+
+// https://stackoverflow.com/a/12646864
+function shuffleArray<T>(array: T[], rng: Random) {
+    for (let i = array.length - 1; i >= 0; i--) {
+        const j = rng.randomInt(i + 1);
+        [array[i], array[j]] = [array[j], array[i]];
+    }
+}
+
+/*
+ * The simulation of one race, without any rendering or sounds. Can be
+ * run also outside of the browser.
+ */
+export class Race implements Area {
+    protected track: Track;
+    private rng: Random;
+
+    public characters: Character[] = [];
+    private charactersCount = MAX_CHARACTER_COUNT;
+    public player: Character;
+    // The player and the other human players, if any.
+    public players: Character[];
+
+    readonly x;
+    readonly y;
+    readonly width;
+    readonly height;
+
+    state: State = State.RUNNING;
+
+    // Characters eliminated in this race. The 13th place is
+    // eliminated at the checkpoints regardless of this.
+    eliminationCount = DEFAULT_ELIMINATION_COUNT;
+
+    // Set when it is known who qualifies. The race can still be run
+    // on after the human players are out, e.g. for watching it.
+    isDecided = false;
+
+    // Cleared when someone else decides who finishes, is eliminated and
+    // when the race is over, e.g. the server of a networked race.
+    decidesOutcome = true;
+
+    // Time elapsed since the start of the race. The race has its own
+    // clock so that it runs the same way every time when replayed.
+    time: number = 0;
+
+    constructor(
+        trackTemplate: TrackTemplate,
+        playerWidthOffset: number,
+        playerHeightOffset: number,
+        aiCharacterIds: readonly number[] | undefined,
+        rng: Random,
+        players: readonly PlayerSetup[] = [],
+    ) {
+        this.rng = rng;
+
+        this.track = new Track(trackTemplate, TRACK_START_Y, rng);
+
+        this.x = 0 - this.track.width / 2 - BANK_WIDTH;
+        this.y = TRACK_START_Y - this.track.height - BANK_HEIGHT;
+        this.width = this.track.width + 2 * BANK_WIDTH;
+        this.height = this.track.height + 2 * BANK_HEIGHT;
+
+        const startElement = this.track.get(0);
+
+        const CHARS_PER_ROW = 15;
+        const xGap = startElement.width / CHARS_PER_ROW;
+        const yGap = CHARACTER_DIMENSIONS.height * 1.9;
+        const startMargin = xGap * 0.3;
+
+        const [firstPlayer, ...otherPlayers] = players;
+        const playerIds = players.map((p) => p.id);
+        const aiIds =
+            aiCharacterIds ??
+            Array.from({ length: this.charactersCount }, (_, i) => i).filter(
+                (id) => !playerIds.includes(id),
+            );
+
+        // Without any players, the first character is controlled by
+        // the AI.
+        this.player = new Character(
+            firstPlayer?.id ?? aiIds[0],
+            this.track,
+            rng,
+            firstPlayer?.input,
+            playerWidthOffset,
+            playerHeightOffset,
+        );
+        this.players = [
+            this.player,
+            ...otherPlayers.map(
+                ({ id, input }) => new Character(id, this.track, rng, input),
+            ),
+        ];
+        this.characters.push(...this.players);
+
+        // Add ai characters, all of them in the first race
+        const ids = firstPlayer ? aiIds : aiIds.slice(1);
+        for (let i = 0; i < ids.length; i++) {
+            const aiCharacter = new Character(ids[i], this.track, rng);
+            this.characters.push(aiCharacter);
+        }
+
+        // Set start positions
+        const charactersOnStartLine: Character[] = [
+            this.player,
+            ...this.characters,
+        ];
+
+        shuffleArray(charactersOnStartLine, rng);
+
+        for (let i = 0; i < charactersOnStartLine.length; i++) {
+            const c = charactersOnStartLine[i];
+            const row = Math.floor(i / CHARS_PER_ROW);
+            const col = i % CHARS_PER_ROW;
+
+            const startPosition = {
+                x: startElement.minX + startMargin + col * xGap,
+                y: startElement.y + row * yGap,
+            };
+
+            c.x = startPosition.x;
+            c.y = startPosition.y;
+        }
+    }
+
+    update(dt: number): void {
+        const t = this.time;
+        const state = this.state;
+        this.time += dt;
+
+        this.track.update(t, dt, this.characters);
+
+        this.calculateMovement(t, dt);
+
+        this.checkCollisions();
+
+        for (let ci = 0; ci < this.characters.length; ci++) {
+            const c = this.characters[ci];
+
+            c.move();
+        }
+
+        this.updateCharacterRanks();
+        this.checkGameState();
+
+        if (this.state !== state) {
+            this.onStateChange(this.time);
+        }
+    }
+
+    // Number of characters that continue to the next race.
+    getQualifyingCount(): number {
+        return this.characters.length - this.eliminationCount;
+    }
+
+    // Ids of the AI characters that continue to the next race.
+    getQualifiedAiCharacterIds(): number[] {
+        return this.characters
+            .filter((c) => c.ai && !c.eliminated)
+            .map((c) => c.id);
+    }
+
+    // Ids of the human players that continue to the next race.
+    getQualifiedPlayerIds(): number[] {
+        return this.players
+            .filter((c) => !c.ai && !c.eliminated)
+            .map((c) => c.id);
+    }
+
+    // Including the start.
+    getCheckpointCount(): number {
+        return this.track.getCheckpointCount();
+    }
+
+    /*
+     * Drops the character to the middle of the checkpoint, as if it had
+     * fallen there. Used for practicing the later parts of a track.
+     */
+    dropToCheckpoint(c: Character, checkpointIndex: number): void {
+        const checkpoint = this.track.getCheckpoint(checkpointIndex);
+
+        c.latestCheckpointIndex = checkpointIndex;
+        c.drop(this.time, {
+            x: (checkpoint.minX + checkpoint.maxX - c.width) / 2,
+            y: checkpoint.y + checkpoint.height / 2,
+        });
+
+        this.onDrop(this.time, c);
+    }
+
+    // eslint-disable-next-line
+    protected onFall(_t: number, _c: Character): void {}
+
+    // eslint-disable-next-line
+    protected onDrop(_t: number, _c: Character): void {}
+
+    // eslint-disable-next-line
+    protected onCheckpoint(_t: number, _c: Character): void {}
+
+    // eslint-disable-next-line
+    protected onFinish(_t: number, _c: Character): void {}
+
+    // eslint-disable-next-line
+    protected onEliminate(_t: number, _c: Character): void {}
+
+    // When the qualified characters are known.
+    // eslint-disable-next-line
+    protected onEnd(_t: number): void {}
+
+    // eslint-disable-next-line
+    protected onStateChange(_t: number): void {}
+
+    // eslint-disable-next-line
+    protected onCharacterCollision(_c: Character, _other: Character): void {}
+
+    // eslint-disable-next-line
+    protected onObstacleCollision(_c: Character, _o: GameObject): void {}
+
+    // eslint-disable-next-line
+    protected onAction(_t: number, _c: Character, _a: CharacterAction): void {}
+
+    private calculateMovement(t: number, dt: number): void {
+        for (let i = 0; i < this.characters.length; i++) {
+            const c = this.characters[i];
+
+            const range = this.track.getBetween(c.y, c.y + c.height);
+
+            let movementDirection: Vector = ZERO_VECTOR;
+
+            if (c.fallStartTime != null) {
+                // Can't move when falling.
+                const fallTime = t - c.fallStartTime;
+                if (fallTime > FALL_TIME + CAMERA_CHECKPOINT_MOVEMENT_TIME) {
+                    this.dropToLatestCheckpoint(t, c);
+                }
+            } else if (c.isJumping(t)) {
+                // No control in the air, keep going.
+            } else if (
+                c.fallStartTime == null &&
+                !this.track.isOnPlatform(range, c)
+            ) {
+                c.fallStartTime = t;
+                c.fallCount++;
+                this.onFall(t, c);
+            } else if (c.isDiving(t)) {
+                // Lunging forward
+            } else if (c.isRecovering(t)) {
+                c.setDirection(ZERO_VECTOR);
+                c.velocity = getMovementVelocity(c, ZERO_VECTOR, dt);
+            } else {
+                movementDirection = c.getMovement(t);
+
+                const action = this.getAction(t, c);
+                if (action !== CharacterAction.Grab) {
+                    c.release(t);
+                }
+
+                if (c.startAction(t, action, movementDirection)) {
+                    this.onAction(t, c, action);
+                } else {
+                    this.interact(t, c, action);
+
+                    c.setDirection(movementDirection);
+                    c.velocity = getMovementVelocity(c, movementDirection, dt);
+                }
+            }
+        }
+
+        this.holdGrabs(t);
+    }
+
+    private getAction(t: number, c: Character): CharacterAction {
+        const action = c.getAction(t);
+        if (action !== CharacterAction.None || !c.ai) {
+            return action;
+        }
+
+        const rival = c.grabbed ?? this.findCharacterWithinReach(c);
+        if (!rival) {
+            return CharacterAction.None;
+        }
+
+        // Fight for the places around the last one to qualify.
+        const isFighting =
+            Math.abs(c.rank - this.getQualifyingCount()) <= FIGHTING_RANK_RANGE;
+
+        return c.ai.getInteraction(rival, isFighting);
+    }
+
+    private findCharacterWithinReach(c: Character): Character | undefined {
+        return this.characters.find(
+            (other) =>
+                other !== c && !other.doesNotCollide && isWithinReach(c, other),
+        );
+    }
+
+    private interact(t: number, c: Character, action: CharacterAction): void {
+        if (action === CharacterAction.Grab && c.canGrab(t)) {
+            const other = this.findCharacterWithinReach(c);
+            if (other) {
+                c.grab(t, other);
+                this.onAction(t, c, action);
+            }
+        } else if (action === CharacterAction.Shove && c.canShove(t)) {
+            const other = this.findCharacterWithinReach(c);
+            if (other) {
+                c.shove(t);
+                applyShove(c, other);
+                this.onAction(t, c, action);
+            }
+        }
+    }
+
+    private holdGrabs(t: number): void {
+        for (let i = 0; i < this.characters.length; i++) {
+            const c = this.characters[i];
+            const other = c.grabbed;
+            if (!other) {
+                continue;
+            }
+
+            if (
+                c.doesNotCollide ||
+                c.isRecovering(t) ||
+                other.doesNotCollide ||
+                other.isJumping(t) ||
+                c.isGrabOver(t) ||
+                !isWithinReach(c, other)
+            ) {
+                c.release(t);
+            } else {
+                applyGrab(c, other);
+            }
+        }
+    }
+
+    private checkCollisions(): void {
+        // Calculate collisions to other characters.
+        for (let ci = 0; ci < this.characters.length; ci++) {
+            const c = this.characters[ci];
+
+            if (c.doesNotCollide) continue;
+
+            for (let oi = ci + 1; oi < this.characters.length; oi++) {
+                const other = this.characters[oi];
+                if (other.doesNotCollide) continue;
+
+                if (calculateCollisionBetweenCharacters(c, other)) {
+                    this.onCharacterCollision(c, other);
+                }
+            }
+        }
+
+        // The obstacles shall have the final word on collision detection.
+        for (let ci = 0; ci < this.characters.length; ci++) {
+            const c = this.characters[ci];
+
+            const range = this.track.getBetween(c.y, c.y + c.height);
+            const { minI, maxI } = range;
+
+            for (let ei = minI; ei <= maxI; ei++) {
+                const element = this.track.get(ei);
+                for (let oi = 0; oi < element.objects.length; oi++) {
+                    const o = element.objects[oi];
+
+                    if (calculateCollisionToObstacle(c, o)) {
+                        this.onObstacleCollision(c, o);
+                    }
+                }
+            }
+
+            // Moving obstacles can reach over several elements, so
+            // check them all.
+            if (c.doesNotCollide) continue;
+
+            for (let oi = 0; oi < this.track.movingObstacles.length; oi++) {
+                const o = this.track.movingObstacles[oi];
+
+                if (calculateCollisionToMovingObstacle(c, o)) {
+                    this.onObstacleCollision(c, o);
+                }
+            }
+        }
+    }
+
+    private updateCharacterRanks(): void {
+        // Separate finished and unfinished characters
+        const finishedCharacters = this.characters.filter(
+            (char) => char.finished,
+        );
+        const unfinishedCharacters = this.characters.filter(
+            (char) => !char.finished,
+        );
+
+        // Sort finished characters based on their rank
+        finishedCharacters.sort((a, b) => a.rank - b.rank);
+
+        // Sort unfinished characters based on their Y coordinate
+        unfinishedCharacters.sort(
+            (a, b) => a.y + a.height / 2 - (b.y + b.height / 2),
+        );
+
+        // Merge finished and sorted unfinished characters
+        const sortedCharacters = [
+            ...finishedCharacters,
+            ...unfinishedCharacters,
+        ];
+
+        // Update ranks of characters
+        sortedCharacters.forEach((char, index) => {
+            char.rank = index + 1;
+        });
+    }
+
+    private checkGameState(): void {
+        for (let ci = 0; ci < this.characters.length; ci++) {
+            const c = this.characters[ci];
+
+            const checkpointIndex = this.track.findLatestCheckpoint(c.y);
+            const range = this.track.getBetween(c.y, c.y + c.height);
+
+            // Falling, do not do anything
+            if (c.fallStartTime != null || !this.track.isOnPlatform(range, c))
+                continue;
+
+            const isNewCheckpoint = checkpointIndex > c.latestCheckpointIndex;
+            if (isNewCheckpoint) {
+                c.latestCheckpointIndex = checkpointIndex;
+                this.onCheckpoint(this.time, c);
+            }
+
+            if (!this.decidesOutcome) {
+                continue;
+            }
+
+            //  13th character will be eliminated if it falls or is 13th in checkpoint
+            if (isNewCheckpoint && c.rank === 13) {
+                this.eliminate(c);
+                continue;
+            }
+
+            // TODO: take some steps after finish
+            if (c.y + c.height < this.track.finishY) {
+                if (c.rank === 13) {
+                    this.eliminate(c);
+                } else {
+                    if (!c.finished) {
+                        c.finishTime = this.time;
+                        c.finished = true;
+                        this.onFinish(this.time, c);
+                    }
+                    c.stop();
+                }
+
+                // If all finished but the eliminated ones, or the
+                // players finish
+                if (
+                    (!c.ai && this.areHumanPlayersDone()) ||
+                    c.rank == this.getQualifyingCount()
+                ) {
+                    this.end();
+                }
+            }
+        }
+
+        // E.g. the 13th eliminated at the checkpoints can leave fewer
+        // characters to finish than there are places to qualify.
+        if (this.decidesOutcome && !this.isDecided && this.isEveryoneDone()) {
+            this.end();
+        }
+    }
+
+    // Everyone still racing has finished, or the eliminations have
+    // taken all the places to lose.
+    private isEveryoneDone(): boolean {
+        const eliminatedCount = this.characters.filter(
+            (c) => c.eliminated,
+        ).length;
+
+        return (
+            (eliminatedCount > 0 && eliminatedCount >= this.eliminationCount) ||
+            this.characters.every((c) => c.finished || c.eliminated)
+        );
+    }
+
+    /*
+     * Sets the state decided elsewhere, see decidesOutcome.
+     */
+    setState(state: State): void {
+        if (state !== this.state) {
+            this.state = state;
+            this.onStateChange(this.time);
+        }
+    }
+
+    private areHumanPlayersDone(): boolean {
+        return this.players.every((p) => p.ai || p.finished || p.eliminated);
+    }
+
+    // Only the 13th is eliminated during the race, the others when it
+    // ends.
+    private eliminate(c: Character): void {
+        if (c.eliminated) {
+            // E.g. still the 13th past the finish line
+            return;
+        }
+
+        c.eliminated = true;
+        c.eliminatedAsThirteenth = true;
+        c.stop();
+        this.onEliminate(this.time, c);
+
+        if (c.ai || !this.areHumanPlayersDone()) {
+            // The other players keep on racing.
+            return;
+        }
+
+        if (this.players.some((p) => p.finished)) {
+            this.end();
+        } else {
+            this.state = State.GAME_OVER;
+        }
+    }
+
+    private end(): void {
+        const wasDecided = this.isDecided;
+        this.isDecided = true;
+
+        let eliminatedCount = this.characters.filter(
+            (character) => character.eliminated,
+        ).length;
+
+        // Set all unfinished characters as eliminated
+        for (let ci = 0; ci < this.characters.length; ci++) {
+            if (this.characters[ci].rank > this.getQualifyingCount()) {
+                if (eliminatedCount < this.eliminationCount) {
+                    if (!this.characters[ci].eliminated) {
+                        this.characters[ci].eliminated = true;
+                        eliminatedCount++;
+                        this.onEliminate(this.time, this.characters[ci]);
+                    }
+                } else {
+                    break;
+                }
+            }
+        }
+
+        // If all the players are eliminated or someone finishes
+        if (this.players.every((p) => p.eliminated)) {
+            this.state = State.GAME_OVER;
+        } else {
+            this.state = State.FINISHED;
+        }
+
+        if (!wasDecided) {
+            this.onEnd(this.time);
+        }
+    }
+
+    private dropToLatestCheckpoint(t: number, c: Character): void {
+        const checkpoint = this.track.getCheckpoint(c.latestCheckpointIndex);
+
+        const dropPosition: Area = {
+            x: this.rng.randomMinMax(
+                checkpoint.minX + BLOCK_WIDTH,
+                checkpoint.maxX - BLOCK_WIDTH,
+            ),
+            y: checkpoint.y + checkpoint.height / 2,
+            width: c.width,
+            height: c.height,
+        };
+
+        // The eliminated and the finished have stopped for good and
+        // would block the checkpoint forever.
+        if (
+            this.characters.some(
+                (o) => !o.eliminated && !o.finished && overlap(o, dropPosition),
+            )
+        ) {
+            // No luck, wait for the next frame.
+            return;
+        }
+
+        //  13th character will be eliminated if it falls
+        if (c.rank === 13 && this.decidesOutcome) {
+            this.eliminate(c);
+            return;
+        }
+
+        c.drop(t, dropPosition);
+
+        this.onDrop(t, c);
+    }
+}
@@ -0,0 +1,466 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { CharacterAction, MovementSource } from "./Character";
+import { createSeed, Random } from "./core/math/random";
+import { Vector, ZERO_VECTOR } from "./core/math/Vector";
+import { PlayerSetup, Race, State, TIME_STEP } from "./Race";
+import {
+    CLASSIC_TOURNAMENT,
+    getEliminationCount,
+    getParticipantIds,
+    getRound,
+    isFinalRound,
+    RoundTrack,
+    startRoundTrack,
+    Tournament,
+} from "./tournament";
+import {
+    CharacterSnapshot,
+    ClientMessage,
+    createCharacterSnapshot,
+    encodeMessage,
+    InputMessage,
+    MAX_NETWORK_PLAYERS,
+    parseClientMessage,
+    RaceSetup,
+    RaceStatus,
+    ServerMessage,
+    SNAPSHOT_INTERVAL_STEPS,
+} from "./netProtocol";
+
+// Inputs are used one per time step. If a client sends them faster
+// than that, the oldest ones are dropped so that the player does not
+// lag behind.
+const MAX_QUEUED_INPUTS = 10;
+
+// If the server can't keep up, the race slows down instead of jumping
+// ahead.
+const MAX_STEPS_PER_TICK = 5;
+
+/*
+ * Connection to one client, e.g. a WebSocket.
+ */
+export interface ClientConnection {
+    send(data: string): void;
+    close(): void;
+}
+
+/*
+ * Input of a player received over the network. Every time step takes
+ * the next input from the queue, or keeps the previous one if the
+ * client has not sent more.
+ */
+class NetworkInput implements MovementSource {
+    private queue: InputMessage[] = [];
+    private latestSeq = 0;
+    private movement: Vector = ZERO_VECTOR;
+    private action = CharacterAction.None;
+
+    // Sequence number of the input in use.
+    seq = 0;
+
+    push(input: InputMessage): void {
+        // Late arrivals are of no use any more.
+        if (input.seq <= this.latestSeq) {
+            return;
+        }
+
+        this.latestSeq = input.seq;
+        this.queue.push(input);
+        if (this.queue.length > MAX_QUEUED_INPUTS) {
+            this.queue.shift();
+        }
+    }
+
+    next(): void {
+        const input = this.queue.shift();
+        if (input) {
+            this.movement = input.movement;
+            this.action = input.action;
+            this.seq = input.seq;
+        }
+    }
+
+    // The character stands still after the player has left.
+    clear(): void {
+        this.queue = [];
+        this.movement = ZERO_VECTOR;
+        this.action = CharacterAction.None;
+    }
+
+    getMovement(): Vector {
+        return this.movement;
+    }
+
+    getAction(): CharacterAction {
+        return this.action;
+    }
+}
+
+interface Client {
+    connection: ClientConnection;
+    hasJoined: boolean;
+    // Not set if the client joined during the race.
+    playerId: number | null;
+    input: NetworkInput | undefined;
+}
+
+/*
+ * Runs networked races, the rounds of a tournament one after another.
+ * The server has the only real simulation of the race, and the
+ * clients just show it. Does not depend on any networking library,
+ * the connections are given from outside.
+ */
+export class RaceServer {
+    private rng: Random;
+    private tournament: Tournament;
+    private clients: Client[] = [];
+
+    private status = RaceStatus.Lobby;
+    private race: Race | undefined;
+    private setup: RaceSetup | undefined;
+    private qualifiedPlayerIds: number[] | undefined;
+
+    // The round of the next race, and the characters of the AI that
+    // continue to it.
+    private roundNumber = 1;
+    private qualifiedAiCharacterIds: number[] | undefined;
+    // Generated between the races, when the server has time for it.
+    private nextTrack: RoundTrack;
+
+    private step = 0;
+    private lastTime = 0;
+    private timer: ReturnType<typeof setInterval> | undefined;
+
+    constructor(seed = createSeed(), tournament = CLASSIC_TOURNAMENT) {
+        this.rng = new Random(seed);
+        this.tournament = tournament;
+        this.nextTrack = this.startNextTrack();
+    }
+
+    connect(connection: ClientConnection): void {
+        this.clients.push({
+            connection,
+            hasJoined: false,
+            playerId: null,
+            input: undefined,
+        });
+
+        // The server runs while anyone is connected.
+        if (!this.timer) {
+            this.timer = setInterval(() => this.tick(), TIME_STEP);
+        }
+    }
+
+    disconnect(connection: ClientConnection): void {
+        const client = this.findClient(connection);
+        if (!client) {
+            return;
+        }
+
+        client.input?.clear();
+        this.clients = this.clients.filter((c) => c !== client);
+        if (this.clients.length === 0) {
+            this.stopTimer();
+        }
+
+        if (
+            this.status === RaceStatus.Running &&
+            !this.clients.some((c) => c.playerId != null)
+        ) {
+            // Nobody left to race
+            this.stopRace();
+            this.startTournament();
+            this.status = RaceStatus.Lobby;
+        }
+
+        this.broadcastRaceState();
+    }
+
+    receive(connection: ClientConnection, data: string): void {
+        const client = this.findClient(connection);
+        if (!client) {
+            return;
+        }
+
+        let message: ClientMessage;
+        try {
+            message = parseClientMessage(data);
+        } catch (e) {
+            this.send(client, {
+                type: "error",
+                message: e instanceof Error ? e.message : "Invalid message",
+            });
+            return;
+        }
+
+        if (message.type !== "join" && !client.hasJoined) {
+            this.send(client, { type: "error", message: "Not joined" });
+            return;
+        }
+
+        switch (message.type) {
+            case "join":
+                client.hasJoined = true;
+                this.broadcastRaceState();
+                // Someone joining during the race sees it right away,
+                // not only from the next snapshot on.
+                if (this.race) {
+                    this.sendSnapshot(client, this.race);
+                }
+                break;
+            case "start":
+                if (this.status !== RaceStatus.Running) {
+                    this.startRace();
+                }
+                break;
+            case "input":
+                client.input?.push(message);
+                break;
+        }
+    }
+
+    // Closes all the connections.
+    close(): void {
+        this.stopRace();
+        this.stopTimer();
+        for (const client of this.clients) {
+            client.connection.close();
+        }
+        this.clients = [];
+    }
+
+    private findClient(connection: ClientConnection): Client | undefined {
+        return this.clients.find((c) => c.connection === connection);
+    }
+
+    private startTournament(): void {
+        this.roundNumber = 1;
+        this.qualifiedAiCharacterIds = undefined;
+        this.nextTrack = this.startNextTrack();
+    }
+
+    private startNextTrack(): RoundTrack {
+        return startRoundTrack(
+            getRound(this.tournament, this.roundNumber),
+            this.rng.randomInt(4294967296),
+        );
+    }
+
+    // The players who qualified continue to the next round, and the
+    // others wait for the next tournament.
+    private getRacers(): Client[] {
+        const joined = this.clients.filter((c) => c.hasJoined);
+        if (this.roundNumber === 1) {
+            return joined.slice(0, MAX_NETWORK_PLAYERS);
+        }
+
+        return joined.filter(
+            (c) =>
+                c.playerId != null &&
+                this.qualifiedPlayerIds?.includes(c.playerId),
+        );
+    }
+
+    private startRace(): void {
+        let racers = this.getRacers();
+        if (racers.length === 0) {
+            // The qualified players have left.
+            this.startTournament();
+            racers = this.getRacers();
+        }
+        const isFirstRound = this.roundNumber === 1;
+
+        for (const client of this.clients) {
+            if (!racers.includes(client)) {
+                client.playerId = null;
+            }
+            client.input = undefined;
+        }
+
+        // The players keep their characters through the tournament.
+        const players: PlayerSetup[] = racers.map((client, i) => {
+            const input = new NetworkInput();
+            const id = isFirstRound ? i : (client.playerId ?? i);
+            client.playerId = id;
+            client.input = input;
+            return { id, input };
+        });
+        const playerIds = players.map((p) => p.id);
+        const aiCharacterIds =
+            this.qualifiedAiCharacterIds ??
+            getParticipantIds(this.tournament).filter(
+                (id) => !playerIds.includes(id),
+            );
+
+        const track = this.nextTrack.finish();
+        const setup: RaceSetup = {
+            seed: this.rng.randomInt(4294967296),
+            track,
+            playerWidthOffset: 1 + this.rng.random(0.6),
+            playerHeightOffset: 1 + this.rng.random(0.3),
+            playerIds,
+            aiCharacterIds,
+            roundNumber: this.roundNumber,
+            roundCount: this.tournament.rounds.length,
+            eliminationCount: getEliminationCount(
+                this.tournament,
+                this.roundNumber,
+                playerIds.length + aiCharacterIds.length,
+            ),
+        };
+
+        this.setup = setup;
+        this.qualifiedPlayerIds = undefined;
+        this.race = new Race(
+            setup.track,
+            setup.playerWidthOffset,
+            setup.playerHeightOffset,
+            setup.aiCharacterIds,
+            new Random(setup.seed),
+            players,
+        );
+        this.race.eliminationCount = setup.eliminationCount;
+        this.status = RaceStatus.Running;
+        this.step = 0;
+        this.lastTime = performance.now();
+
+        this.broadcastRaceState();
+    }
+
+    private stopRace(): void {
+        this.race = undefined;
+    }
+
+    private stopTimer(): void {
+        clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    private tick(): void {
+        if (!this.race) {
+            this.nextTrack.run();
+            return;
+        }
+
+        const now = performance.now();
+        const deltaTime = now - this.lastTime;
+        if (deltaTime < TIME_STEP) {
+            return;
+        }
+
+        const steps = Math.min(
+            Math.floor(deltaTime / TIME_STEP),
+            MAX_STEPS_PER_TICK,
+        );
+        this.lastTime = now - (deltaTime % TIME_STEP);
+
+        for (let i = 0; i < steps && this.race; i++) {
+            this.updateRace(this.race);
+        }
+    }
+
+    private updateRace(race: Race): void {
+        for (const client of this.clients) {
+            client.input?.next();
+        }
+
+        race.update(TIME_STEP);
+        this.step++;
+
+        if (race.state !== State.RUNNING) {
+            this.sendSnapshots(race);
+            this.endRace(race);
+        } else if (this.step % SNAPSHOT_INTERVAL_STEPS === 0) {
+            this.sendSnapshots(race);
+        }
+    }
+
+    private endRace(race: Race): void {
+        this.stopRace();
+        this.status =
+            race.state === State.GAME_OVER
+                ? RaceStatus.GameOver
+                : RaceStatus.Finished;
+        this.qualifiedPlayerIds = race.getQualifiedPlayerIds();
+
+        if (
+            race.state === State.GAME_OVER ||
+            isFinalRound(this.tournament, this.roundNumber)
+        ) {
+            this.startTournament();
+        } else {
+            this.roundNumber++;
+            this.qualifiedAiCharacterIds = race.getQualifiedAiCharacterIds();
+            this.nextTrack = this.startNextTrack();
+        }
+
+        this.broadcastRaceState();
+    }
+
+    private sendSnapshots(race: Race): void {
+        const characters = race.characters.map(createCharacterSnapshot);
+
+        for (const client of this.clients) {
+            if (client.hasJoined) {
+                this.sendSnapshot(client, race, characters);
+            }
+        }
+    }
+
+    private sendSnapshot(
+        client: Client,
+        race: Race,
+        characters: CharacterSnapshot[] = race.characters.map(
+            createCharacterSnapshot,
+        ),
+    ): void {
+        this.send(client, {
+            type: "snapshot",
+            time: race.time,
+            inputSeq: client.input?.seq ?? 0,
+            characters,
+        });
+    }
+
+    private broadcastRaceState(): void {
+        const joined = this.clients.filter((c) => c.hasJoined);
+
+        for (const client of joined) {
+            this.send(client, {
+                type: "raceState",
+                status: this.status,
+                playerId: client.playerId,
+                connectedCount: joined.length,
+                race: this.status !== RaceStatus.Lobby ? this.setup : undefined,
+                qualifiedPlayerIds: this.qualifiedPlayerIds,
+            });
+        }
+    }
+
+    private send(client: Client, message: ServerMessage): void {
+        client.connection.send(encodeMessage(message));
+    }
+}
@@ -0,0 +1,237 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Random } from "./core/math/random";
+import { getFirstKeyName, InputAction, isKeyBound } from "./keyBindings";
+import { Level } from "./Level";
+import { State, TIME_STEP } from "./Race";
+import { encodeReplay, Replay, ReplayInput } from "./replay";
+import { renderText, TextSize } from "./text";
+
+const SPEEDS = [1, 2, 4];
+
+// When going back during this time after a checkpoint, go to the
+// checkpoint before it instead.
+const SEEK_BACK_THRESHOLD_STEPS = 60;
+
+/*
+ * Plays back a recorded race, with pause, 2x / 4x speed and moving
+ * between checkpoints.
+ */
+export class ReplayPlayer {
+    private replay: Replay;
+    private platePattern: CanvasPattern | null | undefined;
+    private onExit: () => void;
+
+    private level!: Level;
+    private input!: ReplayInput;
+
+    private speed = 1;
+    private paused = false;
+    private message = "";
+
+    constructor(
+        replay: Replay,
+        platePattern: CanvasPattern | null | undefined,
+        onExit: () => void,
+    ) {
+        this.replay = replay;
+        this.platePattern = platePattern;
+        this.onExit = onExit;
+        this.restart();
+    }
+
+    start(): void {
+        // Capture phase, so that the replay gets the keys before
+        // anyone else.
+        window.addEventListener("keydown", this.onKeyDown, true);
+    }
+
+    stop(): void {
+        window.removeEventListener("keydown", this.onKeyDown, true);
+    }
+
+    update(): void {
+        if (this.paused) {
+            return;
+        }
+
+        for (let i = 0; i < this.speed; i++) {
+            if (!this.step()) {
+                this.paused = true;
+                break;
+            }
+        }
+    }
+
+    draw(dt: number): void {
+        this.level.draw(dt);
+
+        const { seconds, tenths } = this.getTime();
+        const status = this.isAtEnd()
+            ? "■ END"
+            : this.paused
+              ? "❚❚ PAUSED"
+              : `▶ ${this.speed}x`;
+
+        renderText(
+            `REPLAY ${status}  ${seconds}.${tenths}`,
+            TextSize.Small,
+            "Impact",
+            1,
+            -13,
+        );
+        renderText(
+            this.message ||
+                `SPACE pause - 1 / 2 / 4 speed - ◄ / ► checkpoint - C copy link - ${getFirstKeyName(InputAction.Pause)} exit`,
+            TextSize.Tiny,
+            "Sans-serif",
+            0.8,
+            14,
+        );
+    }
+
+    private step(): boolean {
+        if (this.isAtEnd()) {
+            return false;
+        }
+
+        this.input.next();
+        this.level.update(TIME_STEP);
+        return true;
+    }
+
+    private isAtEnd(): boolean {
+        return this.input.isFinished() || this.level.state !== State.RUNNING;
+    }
+
+    private getTime(): { seconds: number; tenths: number } {
+        const time = this.input.step * TIME_STEP;
+        return {
+            seconds: Math.floor(time / 1000),
+            tenths: Math.floor((time % 1000) / 100),
+        };
+    }
+
+    private restart(): void {
+        const {
+            seed,
+            track,
+            playerWidthOffset,
+            playerHeightOffset,
+            aiCharacterIds,
+            eliminationCount,
+        } = this.replay;
+
+        this.input = new ReplayInput(this.replay);
+        this.level = new Level(
+            track,
+            playerWidthOffset,
+            playerHeightOffset,
+            aiCharacterIds,
+            this.platePattern,
+            new Random(seed),
+            [{ id: 0, input: this.input }],
+        );
+        this.level.eliminationCount = eliminationCount;
+    }
+
+    /*
+     * The race can't be run backwards, so seeking is done by running
+     * the race again from the start up to the given time step.
+     */
+    private seek(step: number): void {
+        if (step < this.input.step) {
+            this.restart();
+        }
+
+        this.level.muted = true;
+        while (this.input.step < step && this.step());
+        this.level.muted = false;
+    }
+
+    private seekToCheckpoint(direction: -1 | 1): void {
+        const steps = this.replay.checkpointSteps;
+        const current = this.input.step;
+
+        if (direction > 0) {
+            const next = steps.find((s) => s > current);
+            if (next != null) {
+                this.seek(next);
+            }
+        } else {
+            const previous = steps.filter(
+                (s) => s < current - SEEK_BACK_THRESHOLD_STEPS,
+            );
+            this.seek(previous.length > 0 ? previous[previous.length - 1] : 0);
+        }
+    }
+
+    private copyLink(): void {
+        const url = new URL(window.location.href);
+        url.search = "";
+        url.searchParams.set("replay", encodeReplay(this.replay));
+
+        navigator.clipboard
+            .writeText(url.toString())
+            .then(() => (this.message = "Link to the replay copied!"))
+            .catch(() => (this.message = "Could not copy the link"));
+    }
+
+    private onKeyDown = (event: KeyboardEvent): void => {
+        // The replay takes all the keyboard input while it is shown.
+        event.stopImmediatePropagation();
+        this.message = "";
+
+        switch (event.code) {
+            case "Space":
+                this.paused = !this.paused;
+                break;
+            case "Digit1":
+            case "Digit2":
+            case "Digit4":
+                this.speed = SPEEDS.find((s) => `Digit${s}` === event.code)!;
+                this.paused = false;
+                break;
+            case "ArrowLeft":
+                this.seekToCheckpoint(-1);
+                break;
+            case "ArrowRight":
+                this.seekToCheckpoint(1);
+                break;
+            case "KeyC":
+                this.copyLink();
+                break;
+            default:
+                if (
+                    isKeyBound(InputAction.Pause, event.code) ||
+                    isKeyBound(InputAction.Confirm, event.code)
+                ) {
+                    this.stop();
+                    this.onExit();
+                }
+                break;
+        }
+    };
+}
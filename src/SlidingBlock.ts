@@ -0,0 +1,134 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Area } from "./core/math/Area";
+import { Vector, ZERO_VECTOR } from "./core/math/Vector";
+import { getBackAndForth, MovingObstacle } from "./MovingObstacle";
+import { Obstacle } from "./Obstacle";
+
+// Time to go from one end to the other and back.
+const PERIOD = 6000;
+
+/*
+ * A block that patrols left and right along a track element.
+ */
+export class SlidingBlock implements MovingObstacle {
+    readonly radius = 0;
+    readonly knockback = 1.5;
+
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+
+    velocity: Vector = ZERO_VECTOR;
+
+    // Left edge of the block itself.
+    private blockX: number;
+
+    private phase: number;
+
+    constructor(area: Area, phase: number) {
+        this.x = area.x;
+        this.y = area.y + area.height / 2 - Obstacle.HEIGHT / 2;
+        this.width = area.width;
+        this.height = Obstacle.HEIGHT;
+        this.phase = phase;
+        this.blockX = this.getBlockX(0);
+    }
+
+    private getBlockX(t: number): number {
+        return (
+            this.x +
+            (this.width - Obstacle.WIDTH) *
+                getBackAndForth(t + this.phase * PERIOD, PERIOD)
+        );
+    }
+
+    update(t: number): void {
+        const blockX = this.getBlockX(t);
+        this.velocity = { x: blockX - this.blockX, y: 0 };
+        this.blockX = blockX;
+    }
+
+    getNearestPoint(position: Vector): Vector {
+        return {
+            x: Math.min(
+                Math.max(position.x, this.blockX),
+                this.blockX + Obstacle.WIDTH,
+            ),
+            y: Math.min(Math.max(position.y, this.y), this.y + this.height),
+        };
+    }
+
+    // eslint-disable-next-line
+    getVelocityAt(_point: Vector): Vector {
+        return this.velocity;
+    }
+
+    // eslint-disable-next-line
+    draw(cx: CanvasRenderingContext2D, _t: number, _dt: number): void {
+        cx.save();
+
+        // Rail
+        cx.fillStyle = "rgba(0, 0, 0, 0.2)";
+        cx.fillRect(this.x, this.y + this.height / 2 - 0.5, this.width, 1);
+
+        cx.translate(this.blockX, this.y);
+
+        // Shadow
+        cx.fillStyle = "rgba(0, 0, 0, 0.1)";
+        cx.fillRect(0, this.height * 0.5, Obstacle.WIDTH, this.height);
+
+        const gradient = cx.createLinearGradient(
+            0,
+            0,
+            Obstacle.WIDTH,
+            this.height,
+        );
+        gradient.addColorStop(0, "rgb(255, 200, 90)");
+        gradient.addColorStop(1, "rgb(230, 140, 30)");
+
+        // Front side
+        cx.fillStyle = "rgb(190, 110, 20)";
+        cx.fillRect(0, 0, Obstacle.WIDTH, this.height);
+
+        // Top side
+        cx.fillStyle = gradient;
+        cx.fillRect(0, -this.height, Obstacle.WIDTH, this.height);
+
+        // Warning stripes
+        cx.fillStyle = "rgba(40, 40, 40, 0.6)";
+        for (let i = 1; i < 5; i += 2) {
+            cx.fillRect(
+                (i * Obstacle.WIDTH) / 5,
+                0,
+                Obstacle.WIDTH / 5,
+                this.height,
+            );
+        }
+
+        cx.restore();
+    }
+}
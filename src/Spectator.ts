@@ -0,0 +1,373 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Character } from "./Character";
+import {
+    getControls,
+    isActionDownOnAnyGamepad,
+    updateControls,
+} from "./controls";
+import { Area } from "./core/math/Area";
+import { createSeed, Random } from "./core/math/random";
+import { isGamepadConnected } from "./gamepad";
+import {
+    getFirstButtonName,
+    getFirstKeyName,
+    InputAction,
+    isKeyBound,
+} from "./keyBindings";
+import { Level } from "./Level";
+import { TIME_STEP } from "./Race";
+import { renderText, TextSize } from "./text";
+import {
+    getEliminationCount,
+    getRound,
+    isFinalRound,
+    RoundTrack,
+    startRoundTrack,
+    Tournament,
+} from "./tournament";
+
+enum CameraMode {
+    Leader,
+    Thirteenth,
+    Free,
+}
+
+const CAMERA_MODE_NAMES: Record<CameraMode, string> = {
+    [CameraMode.Leader]: "LEADER",
+    [CameraMode.Thirteenth]: "13TH PLACE",
+    [CameraMode.Free]: "FREE CAMERA",
+};
+
+// Level units per time step.
+const FREE_CAMERA_SPEED = 0.8;
+
+// Characters listed as being at risk of elimination.
+const MAX_AT_RISK_SHOWN = 5;
+
+// Gamepad actions of the spectator, the first one wins when several
+// are released at once. The pause button is often also a confirm
+// button. The grab button changes the camera.
+const GAMEPAD_ACTIONS: readonly InputAction[] = [
+    InputAction.Pause,
+    InputAction.Confirm,
+    InputAction.Grab,
+];
+
+// Name of the key or of the gamepad button of an action.
+const getInputName = (action: InputAction): string =>
+    isGamepadConnected() ? getFirstButtonName(action) : getFirstKeyName(action);
+
+const isRacing = (c: Character): boolean => !c.finished && !c.eliminated;
+
+const byRank = (a: Character, b: Character): number => a.rank - b.rank;
+
+/*
+ * Keeps on showing the race after the players have been eliminated,
+ * and the rest of the tournament after it with the AI characters that
+ * qualified. The camera follows the leader or the 13th place, or is
+ * moved freely. Used with the keyboard or a gamepad.
+ */
+export class Spectator {
+    private level: Level;
+    private tournament: Tournament;
+    private raceNumber: number;
+    private platePattern: CanvasPattern | null | undefined;
+    private onExit: () => void;
+
+    // The tournament goes on with its own randomness.
+    private rng = new Random(createSeed());
+    // Generated while the race is watched.
+    private nextRoundTrack: RoundTrack | undefined;
+
+    private cameraMode = CameraMode.Leader;
+    private freeCameraTarget: Area = { x: 0, y: 0, width: 0, height: 0 };
+
+    // For noticing when a gamepad button is released, and which of
+    // them were pressed while spectating.
+    private heldActions: readonly InputAction[] = [];
+    private pressedActions: readonly InputAction[] = [];
+
+    constructor(
+        level: Level,
+        tournament: Tournament,
+        raceNumber: number,
+        platePattern: CanvasPattern | null | undefined,
+        onExit: () => void,
+    ) {
+        this.level = level;
+        this.tournament = tournament;
+        this.raceNumber = raceNumber;
+        this.platePattern = platePattern;
+        this.onExit = onExit;
+        this.startNextRoundTrack();
+        this.updateCamera();
+    }
+
+    start(): void {
+        // Capture phase, so that the spectator gets the keys before
+        // anyone else.
+        window.addEventListener("keydown", this.onKeyDown, true);
+        // The button that opened the spectator does nothing here.
+        this.heldActions = GAMEPAD_ACTIONS.filter(isActionDownOnAnyGamepad);
+        this.pressedActions = [];
+    }
+
+    stop(): void {
+        window.removeEventListener("keydown", this.onKeyDown, true);
+    }
+
+    update(): void {
+        this.updateGamepad();
+
+        if (!this.level.isDecided) {
+            this.level.update(TIME_STEP);
+        }
+        this.nextRoundTrack?.run();
+
+        if (this.cameraMode === CameraMode.Free) {
+            this.moveFreeCamera();
+        }
+        this.updateCamera();
+    }
+
+    draw(dt: number): void {
+        this.level.draw(dt);
+
+        renderText(
+            `WATCHING RACE ${this.raceNumber} - ${CAMERA_MODE_NAMES[this.cameraMode]}`,
+            TextSize.Small,
+            "Impact",
+            1,
+            -13,
+        );
+        renderText(this.getStatusText(), TextSize.Tiny, "Sans-serif", 0.8, -11);
+        renderText(this.getHelpText(), TextSize.Tiny, "Sans-serif", 0.8, 14);
+    }
+
+    private isFinalRound(): boolean {
+        return isFinalRound(this.tournament, this.raceNumber);
+    }
+
+    private getStatusText(): string {
+        const { characters } = this.level;
+
+        if (this.level.isDecided) {
+            const winner = characters.find((c) => c.rank === 1);
+            return this.isFinalRound() && winner
+                ? `THE WINNER IS #${winner.id}`
+                : `${characters.filter((c) => !c.eliminated).length} QUALIFIED`;
+        }
+
+        // Running behind the last qualifying place
+        const atRisk = characters
+            .filter(
+                (c) => isRacing(c) && c.rank > this.level.getQualifyingCount(),
+            )
+            .sort(byRank);
+        const thirteenth = characters.find((c) => c.rank === 13 && isRacing(c));
+
+        const shown = atRisk
+            .slice(0, MAX_AT_RISK_SHOWN)
+            .map((c) => `#${c.id}`)
+            .join(" ");
+        const more =
+            atRisk.length > MAX_AT_RISK_SHOWN
+                ? ` +${atRisk.length - MAX_AT_RISK_SHOWN}`
+                : "";
+
+        return [
+            thirteenth ? `13TH #${thirteenth.id}` : "",
+            atRisk.length > 0 ? `AT RISK ${shown}${more}` : "",
+        ]
+            .filter((text) => text)
+            .join(" - ");
+    }
+
+    private getHelpText(): string {
+        const confirm = getInputName(InputAction.Confirm);
+        const exit = `${getInputName(InputAction.Pause)} exit`;
+        const camera = isGamepadConnected()
+            ? getFirstButtonName(InputAction.Grab)
+            : "C";
+        const move = isGamepadConnected() ? "the stick" : "the arrows";
+
+        if (!this.level.isDecided) {
+            return this.cameraMode === CameraMode.Free
+                ? `${camera} camera - move with ${move} - ${exit}`
+                : `${camera} camera - ${exit}`;
+        }
+
+        return this.isFinalRound()
+            ? `${confirm} or ${exit}`
+            : `${confirm} next round - ${exit}`;
+    }
+
+    private getCameraTarget(): Area {
+        const racing = this.level.characters.filter(isRacing).sort(byRank);
+
+        switch (this.cameraMode) {
+            case CameraMode.Leader:
+                return racing[0] ?? this.level.player;
+            case CameraMode.Thirteenth:
+                return (
+                    racing.find((c) => c.rank === 13) ??
+                    racing[racing.length - 1] ??
+                    this.level.player
+                );
+            case CameraMode.Free:
+                return this.freeCameraTarget;
+        }
+    }
+
+    private updateCamera(): void {
+        this.level.spectate(this.getCameraTarget());
+    }
+
+    private moveFreeCamera(): void {
+        updateControls();
+        const { movement } = getControls();
+        const target = this.freeCameraTarget;
+        const { x, y, width, height } = this.level;
+
+        target.x = Math.min(
+            Math.max(target.x + movement.x * FREE_CAMERA_SPEED, x),
+            x + width,
+        );
+        target.y = Math.min(
+            Math.max(target.y + movement.y * FREE_CAMERA_SPEED, y),
+            y + height,
+        );
+    }
+
+    private changeCameraMode(): void {
+        const { x, y } = this.getCameraTarget();
+
+        this.cameraMode =
+            this.cameraMode === CameraMode.Free
+                ? CameraMode.Leader
+                : this.cameraMode + 1;
+
+        // The free camera starts from where the camera was.
+        this.freeCameraTarget = { x, y, width: 0, height: 0 };
+        this.updateCamera();
+    }
+
+    private startNextRoundTrack(): void {
+        this.nextRoundTrack = this.isFinalRound()
+            ? undefined
+            : startRoundTrack(
+                  getRound(this.tournament, this.raceNumber + 1),
+                  this.rng.randomInt(4294967296),
+              );
+    }
+
+    private startNextRound(): void {
+        if (!this.nextRoundTrack) {
+            return;
+        }
+
+        const aiCharacterIds = this.level.getQualifiedAiCharacterIds();
+        const track = this.nextRoundTrack.finish();
+        this.raceNumber++;
+        this.startNextRoundTrack();
+
+        this.level = new Level(
+            track,
+            1 + this.rng.random(0.6),
+            1 + this.rng.random(0.4),
+            aiCharacterIds,
+            this.platePattern,
+            new Random(this.rng.randomInt(4294967296)),
+            [],
+        );
+        this.level.eliminationCount = getEliminationCount(
+            this.tournament,
+            this.raceNumber,
+            this.level.characters.length,
+        );
+        this.updateCamera();
+    }
+
+    private exit(): void {
+        this.stop();
+        this.onExit();
+    }
+
+    private confirm(): void {
+        if (!this.level.isDecided) {
+            return;
+        }
+        if (this.isFinalRound()) {
+            this.exit();
+        } else {
+            this.startNextRound();
+        }
+    }
+
+    /*
+     * The buttons act when released. The screen under the spectator
+     * waits for the confirm buttons too, and sees that the spectator
+     * is open when they are pressed, also when they close it.
+     */
+    private updateGamepad(): void {
+        const held = GAMEPAD_ACTIONS.filter(isActionDownOnAnyGamepad);
+        const released = this.pressedActions.find(
+            (action) => !held.includes(action),
+        );
+        this.pressedActions = held.filter(
+            (action) =>
+                this.pressedActions.includes(action) ||
+                !this.heldActions.includes(action),
+        );
+        this.heldActions = held;
+
+        switch (released) {
+            case InputAction.Pause:
+                this.exit();
+                break;
+            case InputAction.Confirm:
+                this.confirm();
+                break;
+            case InputAction.Grab:
+                this.changeCameraMode();
+                break;
+        }
+    }
+
+    private onKeyDown = (event: KeyboardEvent): void => {
+        if (event.code === "KeyC") {
+            event.stopImmediatePropagation();
+            this.changeCameraMode();
+        } else if (isKeyBound(InputAction.Pause, event.code)) {
+            event.stopImmediatePropagation();
+            this.exit();
+        } else if (isKeyBound(InputAction.Confirm, event.code)) {
+            event.stopImmediatePropagation();
+            this.confirm();
+        }
+        // Otherwise e.g. the arrows move the free camera.
+    };
+}
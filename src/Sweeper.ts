@@ -0,0 +1,143 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Area } from "./core/math/Area";
+import {
+    add,
+    dotProduct,
+    multiply,
+    subtract,
+    Vector,
+    ZERO_VECTOR,
+} from "./core/math/Vector";
+import { MovingObstacle } from "./MovingObstacle";
+
+// Time of a full turn.
+const PERIOD = 5000;
+
+/*
+ * A bar that rotates around its center and sweeps everything in its
+ * way.
+ */
+export class Sweeper implements MovingObstacle {
+    readonly radius = 0.8;
+    readonly knockback = 2;
+
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+
+    velocity: Vector = ZERO_VECTOR;
+
+    private center: Vector;
+    private armLength: number;
+    private phase: number;
+
+    private angle: number;
+    private angleStep: number = 0;
+
+    constructor(area: Area, phase: number) {
+        this.center = {
+            x: area.x + area.width / 2,
+            y: area.y + area.height / 2,
+        };
+        this.armLength = area.width / 2 - this.radius;
+        this.x = this.center.x - this.armLength;
+        this.y = this.center.y - this.armLength;
+        this.width = 2 * this.armLength;
+        this.height = 2 * this.armLength;
+        this.phase = phase;
+        this.angle = this.getAngle(0);
+    }
+
+    private getAngle(t: number): number {
+        return 2 * Math.PI * (t / PERIOD + this.phase);
+    }
+
+    private getArm(): Vector {
+        return {
+            x: Math.cos(this.angle) * this.armLength,
+            y: Math.sin(this.angle) * this.armLength,
+        };
+    }
+
+    update(t: number): void {
+        const angle = this.getAngle(t);
+        this.angleStep = angle - this.angle;
+        this.angle = angle;
+    }
+
+    getNearestPoint(position: Vector): Vector {
+        const arm = this.getArm();
+        const projection =
+            dotProduct(subtract(position, this.center), arm) /
+            (this.armLength * this.armLength);
+        return add(
+            this.center,
+            multiply(arm, Math.min(Math.max(projection, -1), 1)),
+        );
+    }
+
+    getVelocityAt(point: Vector): Vector {
+        const r = subtract(point, this.center);
+        return multiply({ x: -r.y, y: r.x }, this.angleStep);
+    }
+
+    // eslint-disable-next-line
+    draw(cx: CanvasRenderingContext2D, _t: number, _dt: number): void {
+        const arm = this.getArm();
+        const barHeight = 2;
+
+        cx.save();
+        cx.translate(this.center.x, this.center.y);
+        cx.lineCap = "round";
+
+        // Shadow
+        cx.strokeStyle = "rgba(0, 0, 0, 0.15)";
+        cx.lineWidth = 2 * this.radius;
+        cx.beginPath();
+        cx.moveTo(-arm.x, -arm.y + 1);
+        cx.lineTo(arm.x, arm.y + 1);
+        cx.stroke();
+
+        // Post
+        cx.fillStyle = "rgb(120, 120, 140)";
+        cx.fillRect(-0.8, -barHeight, 1.6, barHeight);
+
+        // Bar
+        cx.strokeStyle = "rgb(255, 90, 160)";
+        cx.beginPath();
+        cx.moveTo(-arm.x, -arm.y - barHeight);
+        cx.lineTo(arm.x, arm.y - barHeight);
+        cx.stroke();
+
+        cx.fillStyle = "rgb(200, 200, 220)";
+        cx.beginPath();
+        cx.arc(0, -barHeight, this.radius * 1.5, 0, 2 * Math.PI);
+        cx.fill();
+
+        cx.restore();
+    }
+}
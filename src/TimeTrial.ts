@@ -0,0 +1,428 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { MovementSource } from "./Character";
+import {
+    getControls,
+    setTouchControlsVisibility,
+    updateControls,
+} from "./controls";
+import { Random } from "./core/math/random";
+import { loadItem, saveItem } from "./core/platform/storage";
+import {
+    GhostRecorder,
+    hashTrack,
+    loadGhostPath,
+    saveGhostPathIfBest,
+} from "./Ghost";
+import { getFirstKeyName, InputAction, isKeyBound } from "./keyBindings";
+import { Level } from "./Level";
+import { recordBestTime } from "./profile";
+import { TIME_STEP } from "./Race";
+import { CheckpointReachedEvent, RaceEventType } from "./raceEvents";
+import { renderText, TextSize } from "./text";
+import { TrackTemplate } from "./TrackElement";
+import { getBuiltInTrackVariants } from "./tracks";
+
+const TIME_TRIAL_RECORD_VERSION = 1;
+
+const STORAGE_KEY_PREFIX = "13thguy.timeTrial.";
+
+// Every run on a track is the same, with the same size of character
+// and the same moving obstacles, so that the times are comparable.
+const TIME_TRIAL_SEED = 13;
+const PLAYER_WIDTH_OFFSET = 1.3;
+const PLAYER_HEIGHT_OFFSET = 1.15;
+
+// How long the split of a checkpoint stays on the screen.
+const SPLIT_DISPLAY_TIME = 3000;
+
+// Tracks shown at once on the track list.
+const VISIBLE_TRACK_COUNT = 9;
+
+/*
+ * The best run of the player on a track.
+ */
+export interface TimeTrialRecord {
+    version: number;
+    finishTime: number;
+    // Time of reaching each checkpoint after the start one.
+    splits: readonly number[];
+}
+
+const getStorageKey = (track: TrackTemplate): string =>
+    STORAGE_KEY_PREFIX + hashTrack(track);
+
+export const loadTimeTrialRecord = (
+    track: TrackTemplate,
+): TimeTrialRecord | undefined => {
+    const record = loadItem<TimeTrialRecord>(getStorageKey(track));
+    return record?.version === TIME_TRIAL_RECORD_VERSION ? record : undefined;
+};
+
+/*
+ * Saves the record if it is faster than the stored one.
+ */
+export const saveTimeTrialRecordIfBest = (
+    track: TrackTemplate,
+    record: TimeTrialRecord,
+): boolean => {
+    const best = loadTimeTrialRecord(track);
+    if (best && best.finishTime <= record.finishTime) {
+        return false;
+    }
+
+    return saveItem(getStorageKey(track), record);
+};
+
+// E.g. 1:05.32
+export const formatTime = (ms: number): string => {
+    const minutes = Math.floor(ms / 60000);
+    const seconds = ((ms % 60000) / 1000).toFixed(2).padStart(5, "0");
+    return `${minutes}:${seconds}`;
+};
+
+const formatDelta = (ms: number): string =>
+    (ms < 0 ? "-" : "+") + (Math.abs(ms) / 1000).toFixed(2);
+
+const getDeltaColor = (delta: number | undefined): string =>
+    delta == null ? "white" : delta < 0 ? "lightgreen" : "orange";
+
+enum Phase {
+    SelectTrack,
+    Running,
+    Finished,
+}
+
+interface Split {
+    // Zero for the finish.
+    checkpointIndex: number;
+    time: number;
+    // Compared to the personal best, if there is one.
+    delta: number | undefined;
+}
+
+/*
+ * Runs a track alone against the clock. The time of every checkpoint
+ * is compared to the personal best on the track.
+ */
+export class TimeTrial {
+    private platePattern: CanvasPattern | null | undefined;
+    private onExit: () => void;
+
+    private tracks = getBuiltInTrackVariants();
+    // Personal bests of the tracks, by the index of the track.
+    private bestTimes: (number | undefined)[] = [];
+    private selectedIndex = 0;
+    private phase = Phase.SelectTrack;
+
+    private level: Level | undefined;
+    private ghostRecorder: GhostRecorder | undefined;
+    // Personal best when the run started.
+    private record: TimeTrialRecord | undefined;
+    private splits: number[] = [];
+    private latestSplit: Split | undefined;
+    private isNewRecord = false;
+
+    private input: MovementSource = {
+        getMovement: () => getControls().movement,
+        getAction: () => getControls().action,
+    };
+
+    constructor(
+        platePattern: CanvasPattern | null | undefined,
+        onExit: () => void,
+    ) {
+        this.platePattern = platePattern;
+        this.onExit = onExit;
+        this.loadBestTimes();
+    }
+
+    start(): void {
+        // Capture phase, so that the time trial gets the keys before
+        // anyone else.
+        window.addEventListener("keydown", this.onKeyDown, true);
+    }
+
+    stop(): void {
+        window.removeEventListener("keydown", this.onKeyDown, true);
+        setTouchControlsVisibility(false);
+    }
+
+    update(): void {
+        const level = this.level;
+        if (!level || this.phase !== Phase.Running) {
+            return;
+        }
+
+        updateControls();
+        level.update(TIME_STEP);
+        this.ghostRecorder?.record(level.time, level.player);
+    }
+
+    draw(dt: number): void {
+        if (this.phase === Phase.SelectTrack) {
+            this.drawTrackList();
+            return;
+        }
+
+        this.level?.draw(dt);
+
+        const time =
+            this.phase === Phase.Finished
+                ? (this.level?.player.finishTime ?? 0)
+                : (this.level?.time ?? 0);
+        renderText(formatTime(time), TextSize.Normal, "Impact", 1, -12);
+
+        const split = this.latestSplit;
+        if (
+            split &&
+            (this.phase === Phase.Finished ||
+                (this.level?.time ?? 0) - split.time < SPLIT_DISPLAY_TIME)
+        ) {
+            const name =
+                split.checkpointIndex > 0
+                    ? `CHECKPOINT ${split.checkpointIndex}`
+                    : "FINISH";
+            const delta =
+                split.delta != null ? `  ${formatDelta(split.delta)}` : "";
+            renderText(
+                `${name}  ${formatTime(split.time)}${delta}`,
+                TextSize.Small,
+                "Impact",
+                1,
+                -9.5,
+                true,
+                0,
+                undefined,
+                getDeltaColor(split.delta),
+            );
+        }
+
+        if (this.phase === Phase.Finished) {
+            renderText(
+                this.isNewRecord ? "NEW RECORD!" : "FINISHED",
+                TextSize.Large,
+                "Impact",
+                1,
+                0,
+            );
+        }
+
+        renderText(
+            this.phase === Phase.Finished
+                ? `${getFirstKeyName(InputAction.Confirm)} try again - ${getFirstKeyName(InputAction.Pause)} tracks`
+                : `BEST ${this.record ? formatTime(this.record.finishTime) : "-"}  -  R restart - ${getFirstKeyName(InputAction.Pause)} tracks`,
+            TextSize.Tiny,
+            "Sans-serif",
+            0.8,
+            14,
+        );
+    }
+
+    private drawTrackList(): void {
+        renderText("TIME TRIAL", TextSize.Large, "Impact", 1, -10);
+
+        const first = Math.min(
+            Math.max(
+                this.selectedIndex - Math.floor(VISIBLE_TRACK_COUNT / 2),
+                0,
+            ),
+            Math.max(this.tracks.length - VISIBLE_TRACK_COUNT, 0),
+        );
+        const visible = this.tracks.slice(first, first + VISIBLE_TRACK_COUNT);
+
+        visible.forEach(({ name }, i) => {
+            const index = first + i;
+            const bestTime = this.bestTimes[index];
+            const isSelected = index === this.selectedIndex;
+
+            renderText(
+                `${isSelected ? "► " : ""}${name}   ${bestTime != null ? formatTime(bestTime) : "-:--.--"}`,
+                TextSize.Small,
+                "Impact",
+                isSelected ? 1 : 0.6,
+                -6 + i * 2,
+            );
+        });
+
+        renderText(
+            `▲ / ▼ choose - ${getFirstKeyName(InputAction.Confirm)} start - ${getFirstKeyName(InputAction.Pause)} exit`,
+            TextSize.Tiny,
+            "Sans-serif",
+            0.8,
+            14,
+        );
+    }
+
+    private startRun(): void {
+        const { track } = this.tracks[this.selectedIndex];
+
+        this.level = new Level(
+            track,
+            PLAYER_WIDTH_OFFSET,
+            PLAYER_HEIGHT_OFFSET,
+            [],
+            this.platePattern,
+            new Random(TIME_TRIAL_SEED),
+            [{ id: 0, input: this.input }],
+        );
+        // Alone on the track, nobody can be eliminated.
+        this.level.eliminationCount = 0;
+        this.level.showsRaceStatus = false;
+
+        const level = this.level;
+        level.events.on(RaceEventType.CheckpointReached, (event) =>
+            this.updateSplits(event),
+        );
+        level.events.on(RaceEventType.RaceFinished, () => this.finish(level));
+
+        const ghostPath = loadGhostPath(track);
+        if (ghostPath) {
+            this.level.setGhost(ghostPath);
+        }
+        this.ghostRecorder = new GhostRecorder(
+            track,
+            PLAYER_WIDTH_OFFSET,
+            PLAYER_HEIGHT_OFFSET,
+        );
+
+        this.record = loadTimeTrialRecord(track);
+        this.splits = [];
+        this.latestSplit = undefined;
+        this.isNewRecord = false;
+        this.phase = Phase.Running;
+        setTouchControlsVisibility(true);
+    }
+
+    private updateSplits({
+        time,
+        checkpointIndex,
+    }: CheckpointReachedEvent): void {
+        while (this.splits.length < checkpointIndex) {
+            this.splits.push(time);
+
+            const index = this.splits.length;
+            const best = this.record?.splits[index - 1];
+            this.latestSplit = {
+                checkpointIndex: index,
+                time,
+                delta: best != null ? time - best : undefined,
+            };
+        }
+    }
+
+    private finish(level: Level): void {
+        const { finishTime } = level.player;
+        this.phase = Phase.Finished;
+        setTouchControlsVisibility(false);
+        // The race ends in the middle of the step.
+        this.ghostRecorder?.record(level.time, level.player);
+
+        if (finishTime == null) {
+            return;
+        }
+
+        this.latestSplit = {
+            checkpointIndex: 0,
+            time: finishTime,
+            delta: this.record
+                ? finishTime - this.record.finishTime
+                : undefined,
+        };
+
+        const { track } = this.tracks[this.selectedIndex];
+        this.isNewRecord = saveTimeTrialRecordIfBest(track, {
+            version: TIME_TRIAL_RECORD_VERSION,
+            finishTime,
+            splits: this.splits,
+        });
+        if (this.ghostRecorder) {
+            saveGhostPathIfBest(this.ghostRecorder.getPath(finishTime));
+        }
+        recordBestTime(track, finishTime);
+    }
+
+    private loadBestTimes(): void {
+        this.bestTimes = this.tracks.map(
+            ({ track }) => loadTimeTrialRecord(track)?.finishTime,
+        );
+    }
+
+    private showTrackList(): void {
+        this.loadBestTimes();
+        this.phase = Phase.SelectTrack;
+        this.level = undefined;
+        setTouchControlsVisibility(false);
+    }
+
+    private onKeyDown = (event: KeyboardEvent): void => {
+        switch (this.phase) {
+            case Phase.SelectTrack:
+                // The track list takes all the keyboard input.
+                event.stopImmediatePropagation();
+                this.onTrackListKeyDown(event.code);
+                break;
+            case Phase.Running:
+                if (event.code === "KeyR") {
+                    event.stopImmediatePropagation();
+                    this.startRun();
+                } else if (isKeyBound(InputAction.Pause, event.code)) {
+                    event.stopImmediatePropagation();
+                    this.showTrackList();
+                }
+                break;
+            case Phase.Finished:
+                event.stopImmediatePropagation();
+                if (isKeyBound(InputAction.Pause, event.code)) {
+                    this.showTrackList();
+                } else if (isKeyBound(InputAction.Confirm, event.code)) {
+                    this.startRun();
+                }
+                break;
+        }
+    };
+
+    private onTrackListKeyDown(code: string): void {
+        switch (code) {
+            case "ArrowUp":
+                this.selectedIndex = Math.max(this.selectedIndex - 1, 0);
+                break;
+            case "ArrowDown":
+                this.selectedIndex = Math.min(
+                    this.selectedIndex + 1,
+                    this.tracks.length - 1,
+                );
+                break;
+            default:
+                if (isKeyBound(InputAction.Pause, code)) {
+                    this.stop();
+                    this.onExit();
+                } else if (isKeyBound(InputAction.Confirm, code)) {
+                    this.startRun();
+                }
+                break;
+        }
+    }
+}
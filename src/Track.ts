@@ -22,7 +22,7 @@
  * SOFTWARE.
  */
 
-import { add, Vector } from "./core/math/Vector";
+import { add, distanceX, distanceY, Vector } from "./core/math/Vector";
 import { Area, overlap } from "./core/math/Area";
 import { GameObject } from "./GameObject";
 import {
@@ -36,13 +36,19 @@ import {
     LEFTMOST_EDGE,
     TrackElement,
     TrackElementType,
-    TT,
+    TrackTemplate,
 } from "./TrackElement";
 import { Map } from "./Map";
+import { MovingObstacle } from "./MovingObstacle";
+import { Random } from "./core/math/random";
 
 const RAFT_SPEED = 0.005;
 const RAFT_DOCK_TIME = 2000;
 
+// How close a moving obstacle can come to a block until it's no
+// longer safe to enter.
+const THREAT_MARGIN = BLOCK_WIDTH / 2;
+
 export interface IndexRange {
     minI: number;
     maxI: number;
@@ -61,6 +67,8 @@ export class Track implements Map {
     // Optimization: no need to loop every element in every frame.
     private specialElements: TrackElement[];
 
+    readonly movingObstacles: readonly MovingObstacle[];
+
     readonly finishY: number;
 
     readonly elementCount: number;
@@ -68,13 +76,14 @@ export class Track implements Map {
     readonly width: number;
     readonly height: number;
 
-    constructor(templates: readonly TT[], startY: number) {
-        this.elements = createTrack(templates, startY);
+    constructor(template: TrackTemplate, startY: number, rng: Random) {
+        this.elements = createTrack(template, startY, rng);
         this.elementCount = this.elements.length;
 
         this.specialElements = this.elements.filter((e) =>
             e.surfaces.some((s) => isSlope(s) || isRaft(s)),
         );
+        this.movingObstacles = this.elements.flatMap((e) => e.movingObstacles);
 
         this.startY = startY;
         this.finishY =
@@ -96,6 +105,10 @@ export class Track implements Map {
     }
 
     update(t: number, dt: number, objects: readonly GameObject[]): void {
+        for (let i = 0; i < this.movingObstacles.length; i++) {
+            this.movingObstacles[i].update(t, dt);
+        }
+
         for (let ei = 0; ei < this.specialElements.length; ei++) {
             const element = this.specialElements[ei];
 
@@ -177,6 +190,24 @@ export class Track implements Map {
         return element.isFree(col);
     }
 
+    isThreatened(row: number, col: number): boolean {
+        const block = this.getBlock(row, col);
+        const center = {
+            x: block.x + block.width / 2,
+            y: block.y + block.height / 2,
+        };
+
+        return this.movingObstacles.some((o) => {
+            const nearest = o.getNearestPoint(center);
+            return (
+                distanceX(nearest, center) <
+                    block.width / 2 + o.radius + THREAT_MARGIN &&
+                distanceY(nearest, center) <
+                    block.height / 2 + o.radius + THREAT_MARGIN
+            );
+        });
+    }
+
     getBlock(row: number, col: number): Block {
         if (row < 0 || this.elements.length <= row) {
             return getEmptyBlock(row, col, this.startY - row * ELEMENT_HEIGHT);
@@ -200,6 +231,11 @@ export class Track implements Map {
         return this.checkpoints[checkpointIndex].element;
     }
 
+    // Including the start.
+    getCheckpointCount(): number {
+        return this.checkpoints.length;
+    }
+
     findLatestCheckpoint(y: number): number {
         for (let i = this.checkpoints.length - 1; i >= 0; i--) {
             const checkpoint = this.checkpoints[i];
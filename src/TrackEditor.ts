@@ -0,0 +1,483 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Area } from "./core/math/Area";
+import { Random } from "./core/math/random";
+import { ZERO_VECTOR } from "./core/math/Vector";
+import { loadItem, saveItem } from "./core/platform/storage";
+import { getFirstKeyName, InputAction, isKeyBound } from "./keyBindings";
+import { Level } from "./Level";
+import { TRACK_START_Y } from "./Race";
+import { renderText, TextSize } from "./text";
+import {
+    BLOCK_COUNT,
+    BLOCK_WIDTH,
+    ELEMENT_HEIGHT,
+    ELEMENT_TEMPLATES,
+    ElementTemplate,
+    LEFTMOST_EDGE,
+    SurfaceTemplate,
+    TrackTemplate,
+    TT,
+} from "./TrackElement";
+import {
+    buildTrackTemplate,
+    createTrackDefinition,
+    exportTrackDefinition,
+    getBuiltInElementName,
+    parseTrackDefinition,
+} from "./trackFormat";
+import { builtInTracks } from "./tracks";
+import {
+    formatTrackProblem,
+    TrackProblem,
+    validateTrackTemplate,
+} from "./trackValidation";
+
+const STORAGE_KEY = "13thguy.editorTrack";
+
+const ELEMENT_NAMES: readonly TT[] = Object.values(TT);
+
+const SLOPE_FORCES: readonly (number | undefined)[] = [undefined, 0.3, 0.5];
+
+const ELEMENT_TYPES: readonly ElementTemplate["type"][] = [
+    undefined,
+    "checkpoint",
+    "finish",
+];
+
+// Seed for the rafts and the AI in the track preview.
+const PREVIEW_SEED = 1;
+
+const getSurfaceIndexAt = (element: ElementTemplate, col: number): number =>
+    element.surfaces.findIndex((s) => s.col <= col && col < s.col + s.width);
+
+const isSameKind = (a: SurfaceTemplate, b: SurfaceTemplate): boolean =>
+    a.force === b.force &&
+    !!a.raft === !!b.raft &&
+    !!a.randomStart === !!b.randomStart;
+
+// Keeps the surfaces in order and joins the adjacent surfaces of the
+// same kind, so that they look like the built-in ones.
+const joinSurfaces = (
+    surfaces: readonly SurfaceTemplate[],
+): SurfaceTemplate[] =>
+    [...surfaces]
+        .sort((a, b) => a.col - b.col)
+        .reduce<SurfaceTemplate[]>((result, s) => {
+            const previous = result[result.length - 1];
+            if (
+                previous &&
+                previous.col + previous.width === s.col &&
+                isSameKind(previous, s)
+            ) {
+                result[result.length - 1] = {
+                    ...previous,
+                    width: previous.width + s.width,
+                };
+            } else {
+                result.push(s);
+            }
+            return result;
+        }, []);
+
+const withSurfaces = (
+    element: ElementTemplate,
+    surfaces: readonly SurfaceTemplate[],
+): ElementTemplate => ({ ...element, surfaces: joinSurfaces(surfaces) });
+
+const toggleBlock = (
+    element: ElementTemplate,
+    col: number,
+): ElementTemplate => {
+    const i = getSurfaceIndexAt(element, col);
+    if (i < 0) {
+        return withSurfaces(element, [...element.surfaces, { col, width: 1 }]);
+    }
+
+    // Split the surface in two
+    const s = element.surfaces[i];
+    const parts: SurfaceTemplate[] = [
+        { ...s, width: col - s.col },
+        { ...s, col: col + 1, width: s.col + s.width - col - 1 },
+    ].filter((part) => part.width > 0);
+
+    return withSurfaces(element, [
+        ...element.surfaces.slice(0, i),
+        ...parts,
+        ...element.surfaces.slice(i + 1),
+    ]);
+};
+
+const updateSurfaceAt = (
+    element: ElementTemplate,
+    col: number,
+    update: (surface: SurfaceTemplate) => SurfaceTemplate,
+): ElementTemplate => {
+    const i = getSurfaceIndexAt(element, col);
+    if (i < 0) {
+        return element;
+    }
+
+    return withSurfaces(
+        element,
+        element.surfaces.map((s, si) => (si === i ? update(s) : s)),
+    );
+};
+
+const cycleSlope = (element: ElementTemplate, col: number): ElementTemplate =>
+    updateSurfaceAt(element, col, ({ col, width, force }) => {
+        const next =
+            SLOPE_FORCES[
+                (SLOPE_FORCES.indexOf(force) + 1) % SLOPE_FORCES.length
+            ];
+        return next != null ? { col, width, force: next } : { col, width };
+    });
+
+const toggleRaft = (element: ElementTemplate, col: number): ElementTemplate =>
+    updateSurfaceAt(element, col, ({ col, width, raft }) =>
+        raft ? { col, width } : { col, width, raft: true },
+    );
+
+const toggleObstacle = (
+    element: ElementTemplate,
+    col: number,
+): ElementTemplate => {
+    const obstacles = element.obstacles ?? [];
+    const newObstacles = obstacles.includes(col)
+        ? obstacles.filter((o) => o !== col)
+        : [...obstacles, col].sort((a, b) => a - b);
+
+    const { surfaces, type, movingObstacles } = element;
+    return newObstacles.length > 0
+        ? { type, surfaces, obstacles: newObstacles, movingObstacles }
+        : { type, surfaces, movingObstacles };
+};
+
+const cycleType = (element: ElementTemplate): ElementTemplate => {
+    const next =
+        ELEMENT_TYPES[
+            (ELEMENT_TYPES.indexOf(element.type) + 1) % ELEMENT_TYPES.length
+        ];
+    const { surfaces, obstacles, movingObstacles } = element;
+    return next
+        ? { type: next, surfaces, obstacles, movingObstacles }
+        : { surfaces, obstacles, movingObstacles };
+};
+
+const loadEditorTrack = (): ElementTemplate[] => {
+    const saved = loadItem<ElementTemplate[]>(STORAGE_KEY);
+    return Array.isArray(saved) && saved.length > 0
+        ? saved
+        : [...buildTrackTemplate(builtInTracks[0], new Random(PREVIEW_SEED))];
+};
+
+/*
+ * Editor for making tracks in the browser. Shows the track as a grid
+ * of blocks where the elements, surfaces, obstacles, slopes and rafts
+ * can be changed, and the track can be test driven right away. The
+ * track is kept in the local storage between the sessions.
+ */
+export class TrackEditor {
+    private elements: ElementTemplate[];
+    private platePattern: CanvasPattern | null | undefined;
+    private onTestDrive: (track: TrackTemplate) => void;
+    private onExit: () => void;
+
+    private level!: Level;
+    private problems: TrackProblem[] = [];
+
+    private row = 0;
+    private col = Math.floor(BLOCK_COUNT / 2);
+    private selectedElement = 0;
+    private builtInTrackIndex = 0;
+    private message = "";
+
+    constructor(
+        platePattern: CanvasPattern | null | undefined,
+        onTestDrive: (track: TrackTemplate) => void,
+        onExit: () => void,
+    ) {
+        this.platePattern = platePattern;
+        this.onTestDrive = onTestDrive;
+        this.onExit = onExit;
+        this.elements = loadEditorTrack();
+        this.rebuild();
+    }
+
+    start(): void {
+        // Capture phase, so that the editor gets the keys before
+        // anyone else.
+        window.addEventListener("keydown", this.onKeyDown, true);
+    }
+
+    stop(): void {
+        window.removeEventListener("keydown", this.onKeyDown, true);
+    }
+
+    draw(dt: number): void {
+        const cursor = this.getBlockArea(this.row, this.col);
+
+        this.level.drawTrackAround(cursor, dt, (cx) => {
+            cx.save();
+            cx.lineWidth = 0.1;
+            cx.strokeStyle = "rgba(255, 255, 255, 0.15)";
+            for (let row = 0; row < this.elements.length; row++) {
+                for (let col = 0; col < BLOCK_COUNT; col++) {
+                    const { x, y, width, height } = this.getBlockArea(row, col);
+                    cx.strokeRect(x, y, width, height);
+                }
+            }
+
+            cx.lineWidth = 0.3;
+            cx.strokeStyle = "red";
+            for (const { row } of this.problems) {
+                const { x, y, height } = this.getBlockArea(row, 0);
+                cx.strokeRect(x, y, BLOCK_WIDTH * BLOCK_COUNT, height);
+            }
+
+            cx.lineWidth = 0.5;
+            cx.strokeStyle = "yellow";
+            cx.strokeRect(cursor.x, cursor.y, cursor.width, cursor.height);
+            cx.restore();
+        });
+
+        const element = this.elements[this.row];
+        const name = getBuiltInElementName(element) ?? "custom";
+
+        renderText(
+            `TRACK EDITOR - row ${this.row + 1} / ${this.elements.length}: ${name}`,
+            TextSize.Small,
+            "Impact",
+            1,
+            -13,
+        );
+        renderText(
+            `Element to place: ${ELEMENT_NAMES[this.selectedElement]}`,
+            TextSize.Xs,
+            "Sans-serif",
+            1,
+            -11,
+        );
+        renderText(
+            this.problems.length > 0
+                ? formatTrackProblem(this.problems[0]) +
+                      (this.problems.length > 1
+                          ? ` (${this.problems.length - 1} more)`
+                          : "")
+                : "Track can be completed",
+            TextSize.Xs,
+            "Sans-serif",
+            1,
+            -9.5,
+            true,
+            0,
+            undefined,
+            this.problems.length > 0 ? "orange" : "lightgreen",
+        );
+        renderText(
+            this.message ||
+                `ARROWS move - TAB choose element - ${getFirstKeyName(InputAction.Confirm)} set row - INSERT add row - DELETE remove row`,
+            TextSize.Tiny,
+            "Sans-serif",
+            0.8,
+            12,
+        );
+        renderText(
+            "SPACE block - O obstacle - S slope - R raft - C checkpoint / finish",
+            TextSize.Tiny,
+            "Sans-serif",
+            0.8,
+            13.5,
+        );
+        renderText(
+            `T test drive - X copy JSON - V paste JSON - B built-in track - ${getFirstKeyName(InputAction.Pause)} exit`,
+            TextSize.Tiny,
+            "Sans-serif",
+            0.8,
+            15,
+        );
+    }
+
+    private getBlockArea(row: number, col: number): Area {
+        return {
+            x: LEFTMOST_EDGE + col * BLOCK_WIDTH,
+            y: TRACK_START_Y - ELEMENT_HEIGHT * (row + 1),
+            width: BLOCK_WIDTH,
+            height: ELEMENT_HEIGHT,
+        };
+    }
+
+    private rebuild(): void {
+        this.problems = validateTrackTemplate(this.elements);
+
+        // Only the player, standing at the start
+        this.level = new Level(
+            this.elements,
+            1,
+            1,
+            [],
+            this.platePattern,
+            new Random(PREVIEW_SEED),
+            [{ id: 0, input: { getMovement: () => ZERO_VECTOR } }],
+        );
+    }
+
+    private setElements(elements: ElementTemplate[]): void {
+        this.elements = elements;
+        this.row = Math.min(this.row, elements.length - 1);
+        saveItem(STORAGE_KEY, elements);
+        this.rebuild();
+    }
+
+    private updateElement(
+        update: (element: ElementTemplate) => ElementTemplate,
+    ): void {
+        this.setElements(
+            this.elements.map((e, i) => (i === this.row ? update(e) : e)),
+        );
+    }
+
+    private getSelectedTemplate(): ElementTemplate {
+        return ELEMENT_TEMPLATES[ELEMENT_NAMES[this.selectedElement]];
+    }
+
+    private copyJson(): void {
+        const json = exportTrackDefinition(
+            createTrackDefinition("Custom", this.elements),
+        );
+
+        navigator.clipboard
+            .writeText(json)
+            .then(() => (this.message = "Track copied as JSON"))
+            .catch(() => (this.message = "Could not copy the track"));
+    }
+
+    private pasteJson(): void {
+        navigator.clipboard
+            .readText()
+            .then((json) => {
+                const definition = parseTrackDefinition(json);
+                this.setElements([
+                    ...buildTrackTemplate(definition, new Random(PREVIEW_SEED)),
+                ]);
+                this.message = `Track ${definition.name} loaded`;
+            })
+            .catch((e: Error) => (this.message = e.message));
+    }
+
+    private onKeyDown = (event: KeyboardEvent): void => {
+        // The editor takes all the keyboard input while it is shown.
+        event.stopImmediatePropagation();
+        this.message = "";
+
+        const count = this.elements.length;
+
+        switch (event.code) {
+            case "ArrowUp":
+                this.row = Math.min(this.row + 1, count - 1);
+                break;
+            case "ArrowDown":
+                this.row = Math.max(this.row - 1, 0);
+                break;
+            case "ArrowLeft":
+                this.col = Math.max(this.col - 1, 0);
+                break;
+            case "ArrowRight":
+                this.col = Math.min(this.col + 1, BLOCK_COUNT - 1);
+                break;
+            case "Tab":
+                this.selectedElement =
+                    (this.selectedElement +
+                        (event.shiftKey ? ELEMENT_NAMES.length - 1 : 1)) %
+                    ELEMENT_NAMES.length;
+                break;
+            case "Insert":
+            case "KeyI":
+                this.setElements([
+                    ...this.elements.slice(0, this.row + 1),
+                    this.getSelectedTemplate(),
+                    ...this.elements.slice(this.row + 1),
+                ]);
+                this.row++;
+                break;
+            case "Delete":
+            case "Backspace":
+                if (count > 1) {
+                    this.setElements(
+                        this.elements.filter((_, i) => i !== this.row),
+                    );
+                }
+                break;
+            case "Space":
+                this.updateElement((e) => toggleBlock(e, this.col));
+                break;
+            case "KeyO":
+                this.updateElement((e) => toggleObstacle(e, this.col));
+                break;
+            case "KeyS":
+                this.updateElement((e) => cycleSlope(e, this.col));
+                break;
+            case "KeyR":
+                this.updateElement((e) => toggleRaft(e, this.col));
+                break;
+            case "KeyC":
+                this.updateElement(cycleType);
+                break;
+            case "KeyB": {
+                const definition = builtInTracks[this.builtInTrackIndex];
+                this.builtInTrackIndex =
+                    (this.builtInTrackIndex + 1) % builtInTracks.length;
+                this.setElements([
+                    ...buildTrackTemplate(definition, new Random(PREVIEW_SEED)),
+                ]);
+                this.message = `Built-in track ${definition.name} loaded`;
+                break;
+            }
+            case "KeyX":
+                this.copyJson();
+                break;
+            case "KeyV":
+                this.pasteJson();
+                break;
+            case "KeyT":
+                this.stop();
+                this.onTestDrive(this.elements);
+                break;
+            default:
+                if (isKeyBound(InputAction.Confirm, event.code)) {
+                    this.updateElement(() => this.getSelectedTemplate());
+                } else if (isKeyBound(InputAction.Pause, event.code)) {
+                    this.stop();
+                    this.onExit();
+                } else {
+                    return;
+                }
+                break;
+        }
+
+        // E.g. no scrolling or moving the focus with the keys
+        event.preventDefault();
+    };
+}
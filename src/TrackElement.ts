@@ -24,8 +24,12 @@
 
 import { Area, includesArea, overlap } from "./core/math/Area";
 import { GameObject } from "./GameObject";
+import { MovingObstacle } from "./MovingObstacle";
 import { Obstacle } from "./Obstacle";
-import { random } from "./core/math/random";
+import { Pendulum } from "./Pendulum";
+import { Random } from "./core/math/random";
+import { SlidingBlock } from "./SlidingBlock";
+import { Sweeper } from "./Sweeper";
 
 export const ELEMENT_HEIGHT = 16;
 
@@ -34,37 +38,39 @@ export const BLOCK_HEIGHT = ELEMENT_HEIGHT;
 export const BLOCK_COUNT = 9;
 
 const FULL_WIDTH = BLOCK_WIDTH * BLOCK_COUNT;
-const NORMAL_WIDTH = BLOCK_WIDTH * 7;
-const NARROW_WIDTH = BLOCK_WIDTH * 5;
-const VERY_NARROW_WIDTH = BLOCK_WIDTH * 3;
 
 export const LEFTMOST_EDGE = -FULL_WIDTH / 2;
 export const RIGHTMOST_EDGE = FULL_WIDTH / 2;
 
+// Names of the built-in track elements. The values are used also in
+// the track files.
 export enum TT { // "Track template"
-    FullWidth,
-    Basic,
-    BasicSlope,
-    BasicSteepSlope,
-    Narrow,
-    VeryNarrow,
-    DualPassage,
-    DualPassageExt,
-    TriplePassage,
-    RightPassage,
-    SlopeEmptySlope,
-    SlopeEmptyPassage,
-    PassageEmptySlope,
-    SlopeObstacleSlope,
-    FullWidthWithObstaclesOnRight,
-    FullWidthWithObstaclesOnRight2,
-    FullWidthWithMoreObstacles,
-    FullWidthWithObstacles,
-    Chasm,
-    Raft,
-    TwoRafts,
-    Checkpoint,
-    Finish,
+    FullWidth = "FullWidth",
+    Basic = "Basic",
+    BasicSlope = "BasicSlope",
+    BasicSteepSlope = "BasicSteepSlope",
+    Narrow = "Narrow",
+    VeryNarrow = "VeryNarrow",
+    DualPassage = "DualPassage",
+    DualPassageExt = "DualPassageExt",
+    TriplePassage = "TriplePassage",
+    RightPassage = "RightPassage",
+    SlopeEmptySlope = "SlopeEmptySlope",
+    SlopeEmptyPassage = "SlopeEmptyPassage",
+    PassageEmptySlope = "PassageEmptySlope",
+    SlopeObstacleSlope = "SlopeObstacleSlope",
+    FullWidthWithObstaclesOnRight = "FullWidthWithObstaclesOnRight",
+    FullWidthWithObstaclesOnRight2 = "FullWidthWithObstaclesOnRight2",
+    FullWidthWithMoreObstacles = "FullWidthWithMoreObstacles",
+    FullWidthWithObstacles = "FullWidthWithObstacles",
+    FullWidthWithSlidingBlocks = "FullWidthWithSlidingBlocks",
+    FullWidthWithSweeper = "FullWidthWithSweeper",
+    FullWidthWithPendulum = "FullWidthWithPendulum",
+    Chasm = "Chasm",
+    Raft = "Raft",
+    TwoRafts = "TwoRafts",
+    Checkpoint = "Checkpoint",
+    Finish = "Finish",
 }
 
 export enum TrackElementType {
@@ -120,6 +126,145 @@ export function isSlope(surface: Area): surface is Slope {
     return "force" in surface;
 }
 
+/*
+ * A surface of a track element, in block units.
+ */
+export interface SurfaceTemplate {
+    col: number;
+    width: number;
+    // Makes the surface a slope that pushes the characters back.
+    force?: number;
+    raft?: boolean;
+    // Raft starts at a random position instead of the start of the
+    // element.
+    randomStart?: boolean;
+}
+
+/*
+ * An obstacle that moves within the given columns of an element.
+ */
+export interface MovingObstacleTemplate {
+    kind: "sliding" | "sweeper" | "pendulum";
+    col: number;
+    width: number;
+    // Where (0 - 1) in its movement the obstacle is at the start.
+    phase?: number;
+}
+
+/*
+ * Description of a track element as plain data, so that the elements
+ * can be also read from track files.
+ */
+export interface ElementTemplate {
+    type?: "checkpoint" | "finish";
+    surfaces: readonly SurfaceTemplate[];
+    // Columns of the obstacles.
+    obstacles?: readonly number[];
+    movingObstacles?: readonly MovingObstacleTemplate[];
+}
+
+// The elements of a track in order from the start to the finish.
+export type TrackTemplate = readonly ElementTemplate[];
+
+const fullWidth: SurfaceTemplate = { col: 0, width: BLOCK_COUNT };
+
+export const ELEMENT_TEMPLATES: Readonly<Record<TT, ElementTemplate>> = {
+    [TT.FullWidth]: { surfaces: [fullWidth] },
+    [TT.Basic]: { surfaces: [{ col: 1, width: 7 }] },
+    [TT.BasicSlope]: { surfaces: [{ col: 1, width: 7, force: 0.3 }] },
+    [TT.BasicSteepSlope]: { surfaces: [{ col: 1, width: 7, force: 0.5 }] },
+    [TT.Narrow]: { surfaces: [{ col: 2, width: 5 }] },
+    [TT.VeryNarrow]: { surfaces: [{ col: 3, width: 3 }] },
+    [TT.DualPassage]: {
+        surfaces: [
+            { col: 1, width: 2 },
+            { col: 6, width: 2 },
+        ],
+    },
+    [TT.DualPassageExt]: {
+        surfaces: [
+            { col: 1, width: 2 },
+            { col: 4, width: 5 },
+        ],
+    },
+    [TT.TriplePassage]: {
+        surfaces: [
+            { col: 1, width: 2 },
+            { col: 4, width: 2 },
+            { col: 7, width: 2 },
+        ],
+    },
+    [TT.RightPassage]: { surfaces: [{ col: 6, width: 2 }] },
+    [TT.SlopeEmptySlope]: {
+        surfaces: [
+            { col: 1, width: 2, force: 0.3 },
+            { col: 6, width: 2, force: 0.3 },
+        ],
+    },
+    [TT.SlopeEmptyPassage]: {
+        surfaces: [
+            { col: 1, width: 2, force: 0.3 },
+            { col: 6, width: 2 },
+        ],
+    },
+    [TT.PassageEmptySlope]: {
+        surfaces: [
+            { col: 1, width: 2 },
+            { col: 6, width: 2, force: 0.3 },
+        ],
+    },
+    [TT.SlopeObstacleSlope]: {
+        surfaces: [
+            { col: 1, width: 2, force: 0.3 },
+            { col: 3, width: 3 },
+            { col: 6, width: 2, force: 0.3 },
+        ],
+        obstacles: [4],
+    },
+    [TT.FullWidthWithObstaclesOnRight]: {
+        surfaces: [fullWidth],
+        obstacles: [4, 6, 8],
+    },
+    [TT.FullWidthWithObstaclesOnRight2]: {
+        surfaces: [fullWidth],
+        obstacles: [3, 5, 7],
+    },
+    [TT.FullWidthWithMoreObstacles]: {
+        surfaces: [fullWidth],
+        obstacles: [0, 2, 4, 6, 8],
+    },
+    [TT.FullWidthWithObstacles]: {
+        surfaces: [fullWidth],
+        obstacles: [1, 3, 5, 7],
+    },
+    [TT.FullWidthWithSlidingBlocks]: {
+        surfaces: [fullWidth],
+        movingObstacles: [
+            { kind: "sliding", col: 0, width: 4 },
+            { kind: "sliding", col: 5, width: 4, phase: 0.5 },
+        ],
+    },
+    [TT.FullWidthWithSweeper]: {
+        surfaces: [fullWidth],
+        movingObstacles: [{ kind: "sweeper", col: 3, width: 3 }],
+    },
+    [TT.FullWidthWithPendulum]: {
+        surfaces: [fullWidth],
+        movingObstacles: [{ kind: "pendulum", col: 0, width: BLOCK_COUNT }],
+    },
+    // Nothing here!
+    [TT.Chasm]: { surfaces: [] },
+    [TT.Raft]: { surfaces: [{ col: 3, width: 3, raft: true }] },
+    [TT.TwoRafts]: {
+        surfaces: [
+            { col: 1, width: 2, raft: true, randomStart: true },
+            { col: 6, width: 2, raft: true, randomStart: true },
+        ],
+    },
+    [TT.Checkpoint]: { type: "checkpoint", surfaces: [fullWidth] },
+    [TT.Finish]: { type: "finish", surfaces: [fullWidth] },
+};
+
 // An element is one horizontal slice of the track. A track is
 // composed by laying down several elements one after the other.
 export class TrackElement {
@@ -128,6 +273,7 @@ export class TrackElement {
     readonly type: TrackElementType;
     readonly surfaces: readonly Area[];
     readonly objects: readonly GameObject[];
+    readonly movingObstacles: readonly MovingObstacle[];
     readonly width: number;
     readonly height: number;
     readonly minX: number;
@@ -154,12 +300,14 @@ export class TrackElement {
         type: TrackElementType,
         surfaces: readonly Area[],
         objects: readonly GameObject[],
+        movingObstacles: readonly MovingObstacle[] = [],
     ) {
         this.row = row;
         this.y = y;
         this.type = type;
         this.surfaces = surfaces;
         this.objects = objects;
+        this.movingObstacles = movingObstacles;
         this.minX = Math.min(...this.surfaces.map((s) => s.x));
         this.maxX = Math.max(...this.surfaces.map((s) => s.x + s.width));
         this.width = this.maxX - this.minX;
@@ -230,414 +378,85 @@ export class TrackElement {
 }
 
 export function createTrack(
-    templates: readonly TT[],
+    template: TrackTemplate,
     startY: number,
+    rng: Random,
 ): TrackElement[] {
-    const elements = templates.map((t, i) => createElement(t, i, startY));
+    const elements = template.map((t, i) => createElement(t, i, startY, rng));
     updateTypesOfBlocksWhereRaftsGo(elements);
     return elements;
 }
 
 function createElement(
-    template: TT,
+    template: ElementTemplate,
     row: number,
     startY: number,
+    rng: Random,
 ): TrackElement {
     const y = startY - ELEMENT_HEIGHT * (row + 1);
     const centerY = y + ELEMENT_HEIGHT / 2;
 
-    let eType = TrackElementType.Normal;
-    let surfaces: Area[] = [];
-    let objects: GameObject[] = [];
-
-    switch (template) {
-        case TT.FullWidth:
-            surfaces = [
-                {
-                    x: LEFTMOST_EDGE,
-                    y,
-                    width: FULL_WIDTH,
-                    height: ELEMENT_HEIGHT,
-                },
-            ];
-            break;
-        case TT.Basic:
-            surfaces = [
-                {
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 1,
-                    y,
-                    width: NORMAL_WIDTH,
-                    height: ELEMENT_HEIGHT,
-                },
-            ];
-            break;
-        case TT.BasicSlope: {
-            const slope: Slope = {
-                force: 0.3,
-                x: LEFTMOST_EDGE + BLOCK_WIDTH * 1,
-                y,
-                width: NORMAL_WIDTH,
-                height: ELEMENT_HEIGHT,
-            };
-            surfaces = [slope];
-            break;
-        }
-        case TT.BasicSteepSlope: {
-            const slope: Slope = {
-                force: 0.5,
-                x: LEFTMOST_EDGE + BLOCK_WIDTH * 1,
-                y,
-                width: NORMAL_WIDTH,
-                height: ELEMENT_HEIGHT,
-            };
-            surfaces = [slope];
-            break;
-        }
-        case TT.Narrow:
-            surfaces = [
-                {
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 2,
-                    y,
-                    width: NARROW_WIDTH,
-                    height: ELEMENT_HEIGHT,
-                },
-            ];
-            break;
-        case TT.VeryNarrow:
-            surfaces = [
-                {
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 3,
-                    y,
-                    width: VERY_NARROW_WIDTH,
-                    height: ELEMENT_HEIGHT,
-                },
-            ];
-            break;
-        case TT.DualPassage:
-            surfaces = [
-                {
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH,
-                    y,
-                    width: BLOCK_WIDTH * 2,
-                    height: ELEMENT_HEIGHT,
-                },
-                {
-                    x: RIGHTMOST_EDGE - BLOCK_WIDTH * 3,
-                    y,
-                    width: BLOCK_WIDTH * 2,
-                    height: ELEMENT_HEIGHT,
-                },
-            ];
-            break;
-        case TT.DualPassageExt:
-            surfaces = [
-                {
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH,
-                    y,
-                    width: BLOCK_WIDTH * 2,
-                    height: ELEMENT_HEIGHT,
-                },
-                {
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 4,
-                    y,
-                    width: BLOCK_WIDTH * 5,
-                    height: ELEMENT_HEIGHT,
-                },
-            ];
-            break;
-        case TT.TriplePassage:
-            surfaces = [
-                {
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 1,
-                    y,
-                    width: BLOCK_WIDTH * 2,
-                    height: ELEMENT_HEIGHT,
-                },
-                {
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 4,
-                    y,
-                    width: BLOCK_WIDTH * 2,
-                    height: ELEMENT_HEIGHT,
-                },
-                {
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 7,
-                    y,
-                    width: BLOCK_WIDTH * 2,
-                    height: ELEMENT_HEIGHT,
-                },
-            ];
-            break;
-        case TT.RightPassage: {
-            surfaces = [
-                {
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 6,
-                    y,
-                    width: BLOCK_WIDTH * 2,
-                    height: ELEMENT_HEIGHT,
-                },
-            ];
-            break;
-        }
-        case TT.SlopeEmptySlope: {
-            const slopeLeft: Slope = {
-                force: 0.3,
-                x: LEFTMOST_EDGE + BLOCK_WIDTH * 1,
-                y,
-                width: BLOCK_WIDTH * 2,
-                height: ELEMENT_HEIGHT,
-            };
-            const slopeRight: Slope = {
-                force: 0.3,
-                x: LEFTMOST_EDGE + BLOCK_WIDTH * 6,
-                y,
-                width: BLOCK_WIDTH * 2,
-                height: ELEMENT_HEIGHT,
-            };
-            surfaces = [slopeLeft, slopeRight];
-            break;
-        }
-        case TT.SlopeEmptyPassage: {
-            const slopeLeft: Slope = {
-                force: 0.3,
-                x: LEFTMOST_EDGE + BLOCK_WIDTH * 1,
-                y,
-                width: BLOCK_WIDTH * 2,
-                height: ELEMENT_HEIGHT,
-            };
-            const passageRight: Area = {
-                x: LEFTMOST_EDGE + BLOCK_WIDTH * 6,
-                y,
-                width: BLOCK_WIDTH * 2,
-                height: ELEMENT_HEIGHT,
-            };
-            surfaces = [slopeLeft, passageRight];
-            break;
-        }
-        case TT.PassageEmptySlope: {
-            const passage: Area = {
-                x: LEFTMOST_EDGE + BLOCK_WIDTH * 1,
-                y,
-                width: BLOCK_WIDTH * 2,
-                height: ELEMENT_HEIGHT,
-            };
-            const slope: Slope = {
-                force: 0.3,
-                x: LEFTMOST_EDGE + BLOCK_WIDTH * 6,
-                y,
-                width: BLOCK_WIDTH * 2,
-                height: ELEMENT_HEIGHT,
-            };
-            surfaces = [passage, slope];
-            break;
-        }
-        case TT.SlopeObstacleSlope: {
-            const slopeLeft: Slope = {
-                force: 0.3,
-                x: LEFTMOST_EDGE + BLOCK_WIDTH * 1,
-                y,
-                width: BLOCK_WIDTH * 2,
-                height: ELEMENT_HEIGHT,
-            };
-            const slopeRight: Slope = {
-                force: 0.3,
-                x: LEFTMOST_EDGE + BLOCK_WIDTH * 6,
-                y,
-                width: BLOCK_WIDTH * 2,
-                height: ELEMENT_HEIGHT,
-            };
-            surfaces = [
-                slopeLeft,
-                {
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 3,
-                    y,
-                    width: BLOCK_WIDTH * 3,
-                    height: ELEMENT_HEIGHT,
-                },
-                slopeRight,
-            ];
-            objects = [
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 4,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-            ];
-            break;
-        }
-        case TT.FullWidthWithObstaclesOnRight: {
-            surfaces = [
-                {
-                    x: -FULL_WIDTH / 2,
-                    y,
-                    width: FULL_WIDTH,
-                    height: ELEMENT_HEIGHT,
-                },
-            ];
-            objects = [
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 4,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 6,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 8,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-            ];
-            break;
-        }
-        case TT.FullWidthWithObstaclesOnRight2: {
-            surfaces = [
-                {
-                    x: -FULL_WIDTH / 2,
-                    y,
-                    width: FULL_WIDTH,
-                    height: ELEMENT_HEIGHT,
-                },
-            ];
-            objects = [
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 3,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 5,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 7,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-            ];
-            break;
-        }
-        case TT.FullWidthWithMoreObstacles:
-            surfaces = [
-                {
-                    x: -FULL_WIDTH / 2,
-                    y,
-                    width: FULL_WIDTH,
-                    height: ELEMENT_HEIGHT,
-                },
-            ];
-            objects = [
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 0,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 2,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 4,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 6,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 8,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-            ];
-            break;
-        case TT.FullWidthWithObstacles:
-            surfaces = [
-                {
-                    x: -FULL_WIDTH / 2,
-                    y,
-                    width: FULL_WIDTH,
-                    height: ELEMENT_HEIGHT,
-                },
-            ];
-            objects = [
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 3,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 5,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-                new Obstacle({
-                    x: LEFTMOST_EDGE + BLOCK_WIDTH * 7,
-                    y: centerY - Obstacle.HEIGHT / 2,
-                }),
-            ];
-            break;
-        case TT.Chasm:
-            // Nothing here!
-            break;
-        case TT.Raft: {
-            eType = TrackElementType.Raft;
+    const surfaces: Area[] = template.surfaces.map((s): Area => {
+        const area: Area = {
+            x: LEFTMOST_EDGE + BLOCK_WIDTH * s.col,
+            y,
+            width: BLOCK_WIDTH * s.width,
+            height: ELEMENT_HEIGHT,
+        };
+
+        if (s.raft) {
             const raft: Raft = {
+                ...area,
                 yDirection: -1,
                 dockStartTime: 0,
-                x: LEFTMOST_EDGE + BLOCK_WIDTH * 3,
-                y,
-                width: VERY_NARROW_WIDTH,
-                height: ELEMENT_HEIGHT,
+                y: s.randomStart ? y - rng.random() * ELEMENT_HEIGHT : y,
             };
-            surfaces = [raft];
-            break;
+            return raft;
         }
-        case TT.TwoRafts: {
-            eType = TrackElementType.Raft;
-            const raft1: Raft = {
-                yDirection: -1,
-                dockStartTime: 0,
-                x: LEFTMOST_EDGE + BLOCK_WIDTH * 1,
-                y: y - random() * ELEMENT_HEIGHT,
-                width: BLOCK_WIDTH * 2,
-                height: ELEMENT_HEIGHT,
-            };
-            const raft2: Raft = {
-                yDirection: -1,
-                dockStartTime: 0,
-                x: RIGHTMOST_EDGE - BLOCK_WIDTH * 3,
-                y: y - random() * ELEMENT_HEIGHT,
-                width: BLOCK_WIDTH * 2,
-                height: ELEMENT_HEIGHT,
-            };
-            surfaces = [raft1, raft2];
-            break;
+        if (s.force != null) {
+            const slope: Slope = { ...area, force: s.force };
+            return slope;
         }
-        case TT.Checkpoint:
-            eType = TrackElementType.CheckPoint;
-            surfaces = [
-                {
-                    x: -FULL_WIDTH / 2,
-                    y,
-                    width: FULL_WIDTH,
-                    height: ELEMENT_HEIGHT,
-                },
-            ];
-            break;
-        case TT.Finish:
-            eType = TrackElementType.Finish;
-            surfaces = [
-                {
-                    x: -FULL_WIDTH / 2,
-                    y,
-                    width: FULL_WIDTH,
-                    height: ELEMENT_HEIGHT,
-                },
-            ];
-            break;
-
-        default:
-            break;
-    }
-
-    return new TrackElement(row, y, eType, surfaces, objects);
+        return area;
+    });
+
+    const objects: GameObject[] = (template.obstacles ?? []).map(
+        (col) =>
+            new Obstacle({
+                x: LEFTMOST_EDGE + BLOCK_WIDTH * col,
+                y: centerY - Obstacle.HEIGHT / 2,
+            }),
+    );
+
+    const movingObstacles: MovingObstacle[] = (
+        template.movingObstacles ?? []
+    ).map((o) => {
+        const area: Area = {
+            x: LEFTMOST_EDGE + BLOCK_WIDTH * o.col,
+            y,
+            width: BLOCK_WIDTH * o.width,
+            height: ELEMENT_HEIGHT,
+        };
+        switch (o.kind) {
+            case "sweeper":
+                return new Sweeper(area, o.phase ?? 0);
+            case "pendulum":
+                return new Pendulum(area, o.phase ?? 0);
+            default:
+                return new SlidingBlock(area, o.phase ?? 0);
+        }
+    });
+
+    const eType =
+        template.type === "checkpoint"
+            ? TrackElementType.CheckPoint
+            : template.type === "finish"
+              ? TrackElementType.Finish
+              : template.surfaces.some((s) => s.raft)
+                ? TrackElementType.Raft
+                : TrackElementType.Normal;
+
+    return new TrackElement(row, y, eType, surfaces, objects, movingObstacles);
 }
 
 function updateTypesOfBlocksWhereRaftsGo(
@@ -0,0 +1,155 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { loadItem, saveItem } from "./core/platform/storage";
+import { CharacterRaceEvent, RaceEventType } from "./raceEvents";
+
+const ACHIEVEMENTS_VERSION = 1;
+
+const STORAGE_KEY = "13thguy.achievements";
+
+// Bounces off the obstacles in one race for the pinball achievement.
+const PINBALL_OBSTACLE_HITS = 20;
+
+/*
+ * What the player has done so far in the tournament, for the rules of
+ * the achievements.
+ */
+export interface TournamentProgress {
+    raceNumber: number;
+    isFinalRound: boolean;
+    // In the whole tournament
+    falls: number;
+    // In the current race
+    obstacleHits: number;
+    characterCollisions: number;
+}
+
+export interface Achievement {
+    id: string;
+    name: string;
+    description: string;
+    // Called with every event of the player after the progress has
+    // been updated.
+    isUnlocked: (
+        event: CharacterRaceEvent,
+        progress: TournamentProgress,
+    ) => boolean;
+}
+
+export const ACHIEVEMENTS: readonly Achievement[] = [
+    {
+        id: "firstWin",
+        name: "FIRST OF MANY",
+        description: "Win a race",
+        isUnlocked: ({ type }) => type === RaceEventType.Won,
+    },
+    {
+        id: "thirdRaceWin",
+        name: "THIRD TIME LUCKY",
+        description: "Finish first in race 3",
+        isUnlocked: ({ type }, { raceNumber }) =>
+            type === RaceEventType.Won && raceNumber === 3,
+    },
+    {
+        id: "champion",
+        name: "CHAMPION",
+        description: "Win a tournament",
+        isUnlocked: ({ type }, { isFinalRound }) =>
+            type === RaceEventType.Won && isFinalRound,
+    },
+    {
+        id: "sureFooted",
+        name: "SURE-FOOTED",
+        description: "Win a tournament without falling",
+        isUnlocked: ({ type }, { isFinalRound, falls }) =>
+            type === RaceEventType.Won && isFinalRound && falls === 0,
+    },
+    {
+        id: "untouched",
+        name: "UNTOUCHED",
+        description: "Qualify without touching anyone",
+        isUnlocked: ({ type }, { characterCollisions }) =>
+            type === RaceEventType.Qualified && characterCollisions === 0,
+    },
+    {
+        id: "pinball",
+        name: "PINBALL",
+        description: `Bounce off the obstacles ${PINBALL_OBSTACLE_HITS} times in a race`,
+        isUnlocked: ({ type }, { obstacleHits }) =>
+            type === RaceEventType.ObstacleHit &&
+            obstacleHits === PINBALL_OBSTACLE_HITS,
+    },
+    {
+        id: "thirteenth",
+        name: "THE 13TH GUY",
+        description: "Get eliminated as the 13th",
+        isUnlocked: ({ type, character }) =>
+            type === RaceEventType.Eliminated &&
+            character.eliminatedAsThirteenth,
+    },
+];
+
+export const createTournamentProgress = (): TournamentProgress => ({
+    raceNumber: 1,
+    isFinalRound: false,
+    falls: 0,
+    obstacleHits: 0,
+    characterCollisions: 0,
+});
+
+export const updateTournamentProgress = (
+    progress: TournamentProgress,
+    event: CharacterRaceEvent,
+): void => {
+    switch (event.type) {
+        case RaceEventType.Fell:
+            progress.falls++;
+            break;
+        case RaceEventType.ObstacleHit:
+            progress.obstacleHits++;
+            break;
+        case RaceEventType.CharacterCollision:
+            progress.characterCollisions++;
+            break;
+        default:
+            break;
+    }
+};
+
+interface StoredAchievements {
+    version: number;
+    // Time of unlocking, by the id of the achievement.
+    unlocked: Record<string, number>;
+}
+
+export const loadUnlockedAchievements = (): Record<string, number> => {
+    const stored = loadItem<StoredAchievements>(STORAGE_KEY);
+    return stored?.version === ACHIEVEMENTS_VERSION ? stored.unlocked : {};
+};
+
+export const saveUnlockedAchievements = (
+    unlocked: Record<string, number>,
+): boolean =>
+    saveItem(STORAGE_KEY, { version: ACHIEVEMENTS_VERSION, unlocked });
@@ -33,6 +33,8 @@ import {
     teleportSfx,
     countSfx,
     goSfx,
+    jumpSfx,
+    diveSfx,
     // @ts-expect-error JS code exported by a tool
 } from "./sfxData.js";
 
@@ -60,6 +62,8 @@ export enum Sound {
     Restart = "restart",
     Count = "count",
     Go = "go",
+    Jump = "jump",
+    Dive = "dive",
 }
 
 const startTune = createTune();
@@ -138,6 +142,14 @@ export const playSound = async (
             zzfx(0.5, ...goSfx);
             break;
         }
+        case Sound.Jump: {
+            zzfx(vol, ...jumpSfx);
+            break;
+        }
+        case Sound.Dive: {
+            zzfx(vol, ...diveSfx);
+            break;
+        }
     }
 };
 
@@ -14,6 +14,8 @@ export const finishSfx = [.01,,523.2511,.1,3,3,4,0,,,2250,,.04,,10,.01,,.82,1,,3
 export const hitSfx = [2,,185,,,,3,1.6,-7,,,,,,,.2,.19,.1,,.38,985];
 export const countSfx = [1.5,,688,.02,.01,.007,1,2.6,,,,,.01,,85,,.01,.85,.03,.11,-818];
 export const goSfx = [1.5,,1376,.02,.01,.007,1,2.6,,,,,.01,,85,,.01,.85,.8,.11,-818];
+export const jumpSfx = [1,,280,.02,.04,.12,,1.6,9,,,,,,,,,.7,.02];
+export const diveSfx = [1,,160,.01,.06,.16,4,1.2,-6,,,,,,,,,.6,.03];
 
 export const gameoverSfx = {
     songData: [
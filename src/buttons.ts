@@ -24,6 +24,7 @@
 
 import { isDesktop } from "./core/platform/deviceDetection";
 import { ButtonStyles, createButton } from "./core/UI/HtmlButton";
+import { getTouchLayout, setTouchLayout, TouchLayout } from "./controls";
 import {
     setPerformanceToggleButton,
     togglePerformanceMode,
@@ -32,6 +33,7 @@ import {
 export const START_BUTTON_ID = "startButton";
 export const RESTART_BUTTON_ID = "restartButton";
 export const FULLSCREEN_BUTTON_ID = "fullscreenButton";
+export const PAUSE_BUTTON_ID = "pauseButton";
 
 export function createFullscreenButton(
     hasTouchScreen: boolean,
@@ -51,6 +53,14 @@ export function createRestartButton(): HTMLButtonElement {
     return button;
 }
 
+export function createPauseButton(): HTMLButtonElement {
+    const button = createButton(PAUSE_BUTTON_ID, "⏸");
+    button.style.top = "10px";
+    button.style.right = "110px";
+    button.style.display = "none";
+    return button;
+}
+
 export function createStartButton(): HTMLButtonElement {
     const button = document.createElement("button");
 
@@ -103,3 +113,37 @@ export const createPerformanceToggleButton = () => {
 
     return performanceToggleButton;
 };
+
+export const createTouchLayoutToggleButton = (): HTMLButtonElement => {
+    const button = createButton("touchLayoutToggleButton", "");
+
+    button.style.top = "110px";
+    button.style.right = "10px";
+    button.style.height = `${parseInt(ButtonStyles.size) / 2}px`;
+    button.style.padding = "20px 0"; // Add padding for touch target
+    button.style.fontSize = `${parseInt(ButtonStyles.fontSize) / 2}px`;
+    button.style.background = "rgba(0, 0, 0, 0.2)";
+    button.style.border = "none";
+
+    const updateText = (): void => {
+        button.textContent =
+            getTouchLayout() === TouchLayout.Joystick
+                ? "MOVE: JOYSTICK"
+                : "MOVE: BUTTONS";
+    };
+
+    button.addEventListener("click", (e) => {
+        e.preventDefault();
+        setTouchLayout(
+            getTouchLayout() === TouchLayout.Joystick
+                ? TouchLayout.Buttons
+                : TouchLayout.Joystick,
+        );
+        updateText();
+        button.blur();
+    });
+
+    updateText();
+
+    return button;
+};
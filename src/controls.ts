@@ -24,7 +24,7 @@
 
 import { canvas } from "./graphics";
 import { renderText, TextSize } from "./text";
-import { getKeys, initializeKeyboard, waitForEnter } from "./keyboard";
+import { initializeKeyboard, isKeyDown, waitForKey } from "./keyboard";
 import {
     hasTouchScreen,
     initializeTouchscreen,
@@ -32,12 +32,33 @@ import {
     waitForTap,
     waitForTapAndPlaySound,
 } from "./touchscreen";
-import { normalize, VectorMutable, ZERO_VECTOR } from "./core/math/Vector";
+import { isZero, normalize, Vector, ZERO_VECTOR } from "./core/math/Vector";
+import { loadItem, saveItem } from "./core/platform/storage";
 import { createButton } from "./core/UI/HtmlButton";
-import { Sound } from "./audio";
+import { playSound, Sound } from "./audio";
+import { CharacterAction } from "./Character";
+import {
+    getButtonName,
+    GamepadState,
+    getGamepadCount,
+    getGamepadState,
+    isGamepadConnected,
+} from "./gamepad";
+import {
+    BINDING_SLOT_COUNT,
+    getKeyMap,
+    getKeyName,
+    InputAction,
+} from "./keyBindings";
+import {
+    getJoystickMovement,
+    initializeJoystick,
+    setJoystickEnabled,
+} from "./joystick";
 
 export interface Controls {
-    movement: VectorMutable;
+    movement: Vector;
+    action: CharacterAction;
 }
 
 const createControlButton = (id: string, text: string): HTMLButtonElement => {
@@ -54,6 +75,10 @@ interface TouchButtons {
     right: HTMLButtonElement;
     up: HTMLButtonElement;
     down: HTMLButtonElement;
+    jump: HTMLButtonElement;
+    dive: HTMLButtonElement;
+    grab: HTMLButtonElement;
+    shove: HTMLButtonElement;
 }
 
 let touchButtons: TouchButtons | undefined;
@@ -62,44 +87,207 @@ let touchLeft: boolean;
 let touchRight: boolean;
 let touchUp: boolean;
 let touchDown: boolean;
+let touchJump: boolean;
+let touchDive: boolean;
+let touchGrab: boolean;
+let touchShove: boolean;
+
+/*
+ * How the direction is given on a touch screen, either with the
+ * direction buttons or with a joystick on the left half of the
+ * screen. The action buttons are there in both.
+ */
+export enum TouchLayout {
+    Buttons = "buttons",
+    Joystick = "joystick",
+}
+
+const TOUCH_LAYOUT_STORAGE_KEY = "13thguy.touchLayout";
 
-const controls: Controls = {
-    movement: { x: 0, y: 0 },
+let touchLayout: TouchLayout =
+    loadItem(TOUCH_LAYOUT_STORAGE_KEY) === TouchLayout.Joystick
+        ? TouchLayout.Joystick
+        : TouchLayout.Buttons;
+
+let areTouchControlsVisible = false;
+
+let controls: Controls = {
+    movement: ZERO_VECTOR,
+    action: CharacterAction.None,
+};
+
+export const getTouchLayout = (): TouchLayout => touchLayout;
+
+export const setTouchLayout = (layout: TouchLayout): void => {
+    touchLayout = layout;
+    saveItem(TOUCH_LAYOUT_STORAGE_KEY, layout);
+    setTouchControlsVisibility(areTouchControlsVisible);
 };
 
 export const setTouchControlsVisibility = (isVisible: boolean): void => {
+    areTouchControlsVisible = isVisible;
+
     if (!touchButtons) {
         return;
     }
 
-    const { left, right, up, down } = touchButtons;
+    const { left, right, up, down, jump, dive, grab, shove } = touchButtons;
     const displayStyle = isVisible ? "block" : "none";
+    const directionDisplayStyle =
+        isVisible && touchLayout === TouchLayout.Buttons ? "block" : "none";
+
+    setJoystickEnabled(isVisible && touchLayout === TouchLayout.Joystick);
+
+    left.style.display = directionDisplayStyle;
+    right.style.display = directionDisplayStyle;
+    up.style.display = directionDisplayStyle;
+    down.style.display = directionDisplayStyle;
+    jump.style.display = displayStyle;
+    dive.style.display = displayStyle;
+    grab.style.display = displayStyle;
+    shove.style.display = displayStyle;
+};
 
-    left.style.display = displayStyle;
-    right.style.display = displayStyle;
-    up.style.display = displayStyle;
-    down.style.display = displayStyle;
+/*
+ * Where the input of one player comes from on a split screen: the
+ * keys of one binding slot, the whole keyboard when the slot is not
+ * given, or a gamepad.
+ */
+export type InputSource = { keySlot?: number } | { gamepadIndex: number };
+
+const isKeyActionDown = (action: InputAction, keySlot?: number): boolean => {
+    const { keys } = getKeyMap()[action];
+    return (keySlot == null ? keys : [keys[keySlot]]).some(isKeyDown);
+};
+
+const isButtonActionDown = (
+    action: InputAction,
+    pad: GamepadState | undefined,
+): boolean =>
+    pad != null &&
+    getKeyMap()[action].buttons.some(
+        (button) => button != null && pad.buttons[button],
+    );
+
+/*
+ * Tells if an action is held down on any of the gamepads, e.g. for
+ * pausing a split screen race from any of them.
+ */
+export const isActionDownOnAnyGamepad = (action: InputAction): boolean =>
+    Array.from({ length: getGamepadCount() }, (_, i) =>
+        isButtonActionDown(action, getGamepadState(i)),
+    ).some((isDown) => isDown);
+
+const isTouched = (action: InputAction): boolean => {
+    switch (action) {
+        case InputAction.Left:
+            return touchLeft;
+        case InputAction.Right:
+            return touchRight;
+        case InputAction.Up:
+            return touchUp;
+        case InputAction.Down:
+            return touchDown;
+        case InputAction.Jump:
+            return touchJump;
+        case InputAction.Dive:
+            return touchDive;
+        case InputAction.Grab:
+            return touchGrab;
+        case InputAction.Shove:
+            return touchShove;
+        default:
+            return false;
+    }
+};
+
+const toControls = (
+    isDown: (action: InputAction) => boolean,
+    analogMovement: Vector,
+): Controls => {
+    const dx = isDown(InputAction.Left)
+        ? -1
+        : isDown(InputAction.Right)
+          ? 1
+          : 0;
+    const dy = isDown(InputAction.Up) ? -1 : isDown(InputAction.Down) ? 1 : 0;
+
+    const action = isDown(InputAction.Jump)
+        ? CharacterAction.Jump
+        : isDown(InputAction.Dive)
+          ? CharacterAction.Dive
+          : isDown(InputAction.Grab)
+            ? CharacterAction.Grab
+            : isDown(InputAction.Shove)
+              ? CharacterAction.Shove
+              : CharacterAction.None;
+
+    // The analog movement is kept as it is for running slower when
+    // only partly tilted.
+    const movement =
+        dx === 0 && dy === 0 ? analogMovement : normalize({ x: dx, y: dy });
+
+    return { movement, action };
 };
 
 export const updateControls = (): void => {
-    const keys = getKeys();
-
-    const left = keys.ArrowLeft || keys.KeyA || touchLeft;
-    const right = keys.ArrowRight || keys.KeyD || touchRight;
-    const up = keys.ArrowUp || keys.KeyW || touchUp;
-    const down = keys.ArrowDown || keys.KeyS || touchDown;
-
-    const dx = left ? -1 : right ? 1 : 0;
-    const dy = up ? -1 : down ? 1 : 0;
-
-    if (dx === 0 && dy === 0) {
-        controls.movement = ZERO_VECTOR;
-    } else {
-        controls.movement = normalize({
-            x: dx,
-            y: dy,
-        });
+    const pad = getGamepadState();
+    const joystick = getJoystickMovement();
+
+    controls = toControls(
+        (action) =>
+            isKeyActionDown(action) ||
+            isButtonActionDown(action, pad) ||
+            isTouched(action),
+        !isZero(joystick) ? joystick : (pad?.stick ?? ZERO_VECTOR),
+    );
+};
+
+/*
+ * Reads the controls of one player on a split screen.
+ */
+export const readControls = (source: InputSource): Controls => {
+    if ("gamepadIndex" in source) {
+        const pad = getGamepadState(source.gamepadIndex);
+        return toControls(
+            (action) => isButtonActionDown(action, pad),
+            pad?.stick ?? ZERO_VECTOR,
+        );
     }
+
+    return toControls(
+        (action) => isKeyActionDown(action, source.keySlot),
+        ZERO_VECTOR,
+    );
+};
+
+/*
+ * Divides the gamepads and the keyboard between the players, or
+ * returns undefined if there are not enough of them. The keyboard is
+ * split in two when two players share it.
+ */
+export const getInputSources = (
+    playerCount: number,
+): InputSource[] | undefined => {
+    const gamepadPlayerCount = Math.min(playerCount, getGamepadCount());
+    const keyboardPlayerCount = playerCount - gamepadPlayerCount;
+
+    if (keyboardPlayerCount > BINDING_SLOT_COUNT) {
+        return undefined;
+    }
+
+    const keyboardSources: InputSource[] =
+        keyboardPlayerCount === 1
+            ? [{}]
+            : Array.from({ length: keyboardPlayerCount }, (_, keySlot) => ({
+                  keySlot,
+              }));
+    const gamepadSources: InputSource[] = Array.from(
+        { length: gamepadPlayerCount },
+        (_, gamepadIndex) => ({ gamepadIndex }),
+    );
+
+    return [...keyboardSources, ...gamepadSources];
 };
 
 export const initializeControls = (): void => {
@@ -118,19 +306,33 @@ const initializeTouchButtons = (): void => {
         right: createControlButton("right", "▷"),
         up: createControlButton("up", "△"),
         down: createControlButton("down", "▽"),
+        jump: createControlButton("jump", "⤒"),
+        dive: createControlButton("dive", "»"),
+        grab: createControlButton("grab", "✊"),
+        shove: createControlButton("shove", "✋"),
     };
 
-    const { left, right, up, down } = buttons;
+    const { left, right, up, down, jump, dive, grab, shove } = buttons;
+
+    initializeJoystick();
 
     document.body.appendChild(left);
     document.body.appendChild(right);
     document.body.appendChild(up);
     document.body.appendChild(down);
+    document.body.appendChild(jump);
+    document.body.appendChild(dive);
+    document.body.appendChild(grab);
+    document.body.appendChild(shove);
 
     listenTouch(left, (isTouching) => (touchLeft = isTouching));
     listenTouch(right, (isTouching) => (touchRight = isTouching));
     listenTouch(up, (isTouching) => (touchUp = isTouching));
     listenTouch(down, (isTouching) => (touchDown = isTouching));
+    listenTouch(jump, (isTouching) => (touchJump = isTouching));
+    listenTouch(dive, (isTouching) => (touchDive = isTouching));
+    listenTouch(grab, (isTouching) => (touchGrab = isTouching));
+    listenTouch(shove, (isTouching) => (touchShove = isTouching));
 
     window.addEventListener(
         "resize",
@@ -143,7 +345,7 @@ const initializeTouchButtons = (): void => {
 };
 
 const resizeTouchControls = (buttons: TouchButtons): void => {
-    const { left, right, up, down } = buttons;
+    const { left, right, up, down, jump, dive, grab, shove } = buttons;
 
     const buttonWidth =
         Math.max(
@@ -196,24 +398,124 @@ const resizeTouchControls = (buttons: TouchButtons): void => {
     down.style.bottom = `${verticalBottomMargin}px`;
     down.style.width = `${verticalButtonWidth}px`;
     down.style.height = `${verticalButtonHeight}px`;
+
+    // Actions on the left side of up and down
+    const actionRightMargin = rightMargin + verticalButtonWidth + xGap * 3;
+
+    jump.style.right = `${actionRightMargin}px`;
+    jump.style.bottom = up.style.bottom;
+    jump.style.width = `${verticalButtonWidth}px`;
+    jump.style.height = `${verticalButtonHeight}px`;
+
+    dive.style.right = `${actionRightMargin}px`;
+    dive.style.bottom = down.style.bottom;
+    dive.style.width = `${verticalButtonWidth}px`;
+    dive.style.height = `${verticalButtonHeight}px`;
+
+    // Interactions with the others further left
+    const interactionRightMargin =
+        actionRightMargin + verticalButtonWidth + xGap * 3;
+
+    grab.style.right = `${interactionRightMargin}px`;
+    grab.style.bottom = up.style.bottom;
+    grab.style.width = `${verticalButtonWidth}px`;
+    grab.style.height = `${verticalButtonHeight}px`;
+
+    shove.style.right = `${interactionRightMargin}px`;
+    shove.style.bottom = down.style.bottom;
+    shove.style.width = `${verticalButtonWidth}px`;
+    shove.style.height = `${verticalButtonHeight}px`;
 };
 
+/*
+ * Resolves when one of the buttons is pressed. The buttons must be
+ * released first so that the press that ended the previous wait
+ * doesn't end this one too.
+ */
+const waitForGamepadButton = (
+    buttons: readonly (number | null)[],
+    soundToPlay?: Sound,
+    signal?: AbortSignal,
+): Promise<void> => {
+    return new Promise((resolve) => {
+        let isReleased = false;
+
+        const poll = (): void => {
+            if (signal?.aborted) {
+                return;
+            }
+
+            const state = getGamepadState();
+            const isDown =
+                state != null &&
+                buttons.some(
+                    (button) => button != null && state.buttons[button],
+                );
+
+            if (isReleased && isDown) {
+                playSound(Sound.Keyboard);
+                if (soundToPlay) {
+                    playSound(soundToPlay);
+                }
+                resolve();
+                return;
+            }
+
+            isReleased ||= !isDown;
+            requestAnimationFrame(poll);
+        };
+
+        poll();
+    });
+};
+
+/*
+ * Resolves on the confirm input, or without it when the signal is
+ * aborted, e.g. when the game moves on to another state.
+ */
 export const waitForProgressInput = async (
     soundToPlay?: Sound,
+    signal?: AbortSignal,
 ): Promise<void> => {
-    await (hasTouchScreen
-        ? soundToPlay
-            ? waitForTapAndPlaySound(soundToPlay)
-            : waitForTap()
-        : waitForEnter(soundToPlay));
+    if (signal?.aborted) {
+        return;
+    }
+
+    // Whichever input comes first, stop waiting for the others.
+    const abort = new AbortController();
+    const { keys, buttons } = getKeyMap()[InputAction.Confirm];
+
+    await Promise.race([
+        hasTouchScreen
+            ? soundToPlay
+                ? waitForTapAndPlaySound(soundToPlay, undefined, abort.signal)
+                : waitForTap(undefined, undefined, abort.signal)
+            : waitForKey(keys, soundToPlay, abort.signal),
+        waitForGamepadButton(buttons, soundToPlay, abort.signal),
+        new Promise<void>((resolve) =>
+            signal?.addEventListener("abort", () => resolve(), {
+                signal: abort.signal,
+            }),
+        ),
+    ]);
+
+    abort.abort();
 };
 
 export const renderWaitForProgressInput = (
     action = "continue",
     y = 7.7,
 ): void => {
+    const { keys, buttons } = getKeyMap()[InputAction.Confirm];
+    const key = keys.find((code) => code != null);
+    const button = buttons.find((button) => button != null);
+
     const text =
-        (hasTouchScreen ? "Tap the screen to " : "Press ENTER to ") + action;
+        (isGamepadConnected() && button != null
+            ? `Press ${getButtonName(button)} to `
+            : hasTouchScreen
+              ? "Tap the screen to "
+              : `Press ${getKeyName(key ?? "Enter")} to `) + action;
 
     renderText(
         text + (textAnimationCounter++ % 60 === 0 ? "" : "█"),
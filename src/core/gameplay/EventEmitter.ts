@@ -0,0 +1,56 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/*
+ * Sends typed events to the listeners. The events are told apart by
+ * their type, so a listener can subscribe to one type only.
+ */
+export class EventEmitter<E extends { type: string }> {
+    private listeners: ((event: E) => void)[] = [];
+
+    /*
+     * Listens to all the events. Returns a function for unsubscribing.
+     */
+    subscribe(listener: (event: E) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter((l) => l !== listener);
+        };
+    }
+
+    on<T extends E["type"]>(
+        type: T,
+        listener: (event: Extract<E, { type: T }>) => void,
+    ): () => void {
+        return this.subscribe((event) => {
+            if (event.type === type) {
+                listener(event as Extract<E, { type: T }>);
+            }
+        });
+    }
+
+    emit(event: E): void {
+        this.listeners.forEach((listener) => listener(event));
+    }
+}
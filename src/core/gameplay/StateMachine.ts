@@ -0,0 +1,96 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/*
+ * What a state does. All the hooks are optional.
+ */
+export interface StateHandlers {
+    // The signal is aborted when the state is left, e.g. for stopping
+    // to wait for input.
+    enter?(signal: AbortSignal): void | Promise<void>;
+    exit?(): void;
+    update?(): void;
+    draw?(t: number, dt: number): void;
+}
+
+// The states that can be entered from each state.
+export type TransitionTable<S extends string> = Record<S, readonly S[]>;
+
+/*
+ * Finite state machine that only moves along the transitions of its
+ * table. Leaving a state cancels whatever its enter hook was waiting
+ * for.
+ */
+export class StateMachine<S extends string> {
+    private current: S;
+    private transitions: TransitionTable<S>;
+    private handlers: Partial<Record<S, StateHandlers>>;
+    private abort = new AbortController();
+
+    // Called on every transition before the new state is entered.
+    onTransition: ((from: S, to: S) => void) | undefined;
+
+    constructor(
+        initial: S,
+        transitions: TransitionTable<S>,
+        handlers: Partial<Record<S, StateHandlers>> = {},
+    ) {
+        this.current = initial;
+        this.transitions = transitions;
+        this.handlers = handlers;
+    }
+
+    get state(): S {
+        return this.current;
+    }
+
+    canTransition(to: S): boolean {
+        return this.transitions[this.current].includes(to);
+    }
+
+    transition(to: S): void {
+        const from = this.current;
+        if (!this.canTransition(to)) {
+            throw new Error(`No transition from ${from} to ${to}`);
+        }
+
+        this.abort.abort();
+        this.handlers[from]?.exit?.();
+
+        this.current = to;
+        this.abort = new AbortController();
+        this.onTransition?.(from, to);
+
+        const entered = this.handlers[to]?.enter?.(this.abort.signal);
+        entered?.catch((e) => console.error(`Could not enter ${to}`, e));
+    }
+
+    update(): void {
+        this.handlers[this.current]?.update?.();
+    }
+
+    draw(t: number, dt: number): void {
+        this.handlers[this.current]?.draw?.(t, dt);
+    }
+}
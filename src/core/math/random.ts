@@ -42,3 +42,54 @@ export const randomInt = (max: number): number => {
 export const randomMinMax = (min: number, max: number): number => {
     return Math.random() * (max - min) + min;
 };
+
+/*
+ * Seedable pseudo random number generator (mulberry32). The same seed
+ * always produces the same sequence of numbers, which makes races
+ * reproducible.
+ */
+export class Random {
+    readonly seed: number;
+    private state: number;
+
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    /*
+     * Returns a random number between [0, max).
+     */
+    random(max = 1): number {
+        return this.next() * max;
+    }
+
+    /*
+     * Random integer between [0, max).
+     */
+    randomInt(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+
+    /*
+     * Random number between [min, max).
+     */
+    randomMinMax(min: number, max: number): number {
+        return this.next() * (max - min) + min;
+    }
+
+    private next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let z = this.state;
+        z = Math.imul(z ^ (z >>> 15), z | 1);
+        z ^= z + Math.imul(z ^ (z >>> 7), z | 61);
+        return ((z ^ (z >>> 14)) >>> 0) / 4294967296;
+    }
+}
+
+/*
+ * Creates a new seed for a Random from the global random source.
+ */
+export const createSeed = (): number => {
+    return Math.floor(Math.random() * 4294967296);
+};
@@ -38,8 +38,27 @@ import {
 } from "./graphics";
 import { renderText, TextSize } from "./text";
 import { sleep } from "./keyboard";
-import { Level, State } from "./Level";
-import { getFirstTrack, getSecondTrack, getThirdTrack } from "./tracks";
+import { Level } from "./Level";
+import { NetworkClient } from "./NetworkClient";
+import { Spectator } from "./Spectator";
+import { Practice } from "./Practice";
+import { TimeTrial } from "./TimeTrial";
+import { DEFAULT_SERVER_PORT } from "./netProtocol";
+import { PlayerSetup, State, TIME_STEP } from "./Race";
+import { createGameFlow, GameState } from "./gameFlow";
+import { RaceEventType, RaceFinishedEvent } from "./raceEvents";
+import {
+    CLASSIC_TOURNAMENT,
+    getEliminationCount,
+    getParticipantIds,
+    getRound,
+    isFinalRound,
+    RoundTrack,
+    startRoundTrack,
+    Tournament,
+    TOURNAMENTS,
+    validateTournament,
+} from "./tournament";
 
 import { initializeAudio, playSound, stopAllTunes, Sound } from "./audio";
 import {
@@ -48,12 +67,17 @@ import {
     clearCharacterGradientCache,
     renderCharacter,
 } from "./CharacterAnimation";
-import { playerColor } from "./Character";
+import { MovementSource, playerColor } from "./Character";
 import { VERSION } from "./version";
 import {
     initializeControls,
     renderWaitForProgressInput,
     setTouchControlsVisibility,
+    getControls,
+    getInputSources,
+    InputSource,
+    isActionDownOnAnyGamepad,
+    readControls,
     updateControls,
     waitForProgressInput,
 } from "./controls";
@@ -61,47 +85,170 @@ import { hasTouchScreen } from "./touchscreen";
 import { toggleFullScreen } from "./core/graphics/fullscreen";
 import {
     createFullscreenButton,
+    createPauseButton,
     createRestartButton,
     createStartButton,
     createPerformanceToggleButton,
+    createTouchLayoutToggleButton,
     START_BUTTON_ID,
     RESTART_BUTTON_ID,
     FULLSCREEN_BUTTON_ID,
+    PAUSE_BUTTON_ID,
 } from "./buttons";
+import { createSeed, Random } from "./core/math/random";
+import { decodeReplay, Replay, ReplayRecorder } from "./replay";
+import { ReplayPlayer } from "./ReplayPlayer";
+import {
+    GhostRecorder,
+    hasRoundGhost,
+    loadGhostPath,
+    saveGhostPathIfBest,
+} from "./Ghost";
+import { TrackEditor } from "./TrackEditor";
+import { ControlSettings } from "./ControlSettings";
+import { CareerStats } from "./CareerStats";
+import { PauseMenu } from "./PauseMenu";
+import { recordRace } from "./profile";
+import { AchievementTracker } from "./AchievementTracker";
+import {
+    getKeyMap,
+    getKeyName,
+    getKeyNames,
+    InputAction,
+    isKeyBound,
+} from "./keyBindings";
+import { TrackTemplate } from "./TrackElement";
 
 const versionText = VERSION ? VERSION : "DEV";
 
-const TIME_STEP = 1000 / 60;
-const MAX_FRAME = TIME_STEP * 5;
+// At most this many time steps are run per frame when the game lags
+// behind.
+const MAX_STEPS_PER_FRAME = 5;
 
 let lastTime = performance.now();
 
 let raceNumber = 0;
 
+TOURNAMENTS.forEach(validateTournament);
+let tournament: Tournament = CLASSIC_TOURNAMENT;
+
+// Local players on a split screen.
+const MAX_PLAYER_COUNT = 4;
+let playerCount = 1;
+// Input of each player, by the player id, for the whole tournament.
+let playerInputSources: InputSource[] = [];
+// Players that have not been eliminated from the tournament.
+let activePlayerIds: number[] = [0];
+
+// A seed can be given in the URL (?seed=123) to reproduce a tournament.
+const getInitialSeed = (): number => {
+    const seedParam = new URLSearchParams(window.location.search).get("seed");
+    const seed = seedParam != null ? parseInt(seedParam, 10) : NaN;
+    return isNaN(seed) ? createSeed() : seed;
+};
+
+// Random number generator for the current tournament. All the
+// randomness of the races (tracks, start grid, AI) comes from this.
+// The seed is shown under the logo, so that a tournament can be reported.
+let rng = new Random(getInitialSeed());
+
+// Tracks of the rounds of the tournament. Generating a track takes a
+// while, so it is done a part at a time while nobody is racing, see
+// update.
+let roundTracks: RoundTrack[] = [];
+
+const startRoundTracks = (): void => {
+    roundTracks = tournament.rounds.map((round) =>
+        startRoundTrack(round, rng.randomInt(4294967296)),
+    );
+};
+startRoundTracks();
+
+const startNewTournamentRandom = (): void => {
+    rng = new Random(createSeed());
+    startRoundTracks();
+};
+
 // Randomize player character
-let randomWidhOffset = 1 + Math.random() * 0.6;
-let randomHeighOffset = 1 + Math.random() * 0.3;
+let randomWidhOffset = 1 + rng.random(0.6);
+let randomHeighOffset = 1 + rng.random(0.3);
 
 // Player zoom level for animation
 let z = 1;
 
 let level: Level | undefined; // Explicitly allow undefined
 
-let maxRadius = 0;
-
-enum GameState {
-    Load,
-    Init,
-    Start,
-    Wait,
-    RaceStarting,
-    Ready,
-    Running,
-    GameOver,
-    GameFinished,
+// Records the player input of the current race for a replay.
+let recorder: ReplayRecorder | undefined;
+let latestReplay: Replay | undefined;
+let replayPlayer: ReplayPlayer | undefined;
+
+// Records the path of the player for the ghost of the personal best.
+let ghostRecorder: GhostRecorder | undefined;
+
+let networkClient: NetworkClient | undefined;
+
+// Watching the rest of the tournament after being eliminated.
+let spectator: Spectator | undefined;
+
+let trackEditor: TrackEditor | undefined;
+let controlSettings: ControlSettings | undefined;
+let careerStats: CareerStats | undefined;
+let pauseMenu: PauseMenu | undefined;
+// For noticing when the pause button of a gamepad goes down.
+let wasPauseButtonDown = false;
+let timeTrial: TimeTrial | undefined;
+let practice: Practice | undefined;
+// Track from the editor that is being test driven.
+let testTrack: TrackTemplate | undefined;
+// Track of the current race, for the profile.
+let raceTrack: TrackTemplate | undefined;
+
+// What the current race was set up with, so that it can be restarted
+// from the pause menu.
+interface RoundSetup {
+    roundNumber: number;
+    track: TrackTemplate;
+    aiCharacterIds: number[];
+    eliminationCount: number;
+    seed: number;
 }
 
-let gameState: GameState = GameState.Load;
+let roundSetup: RoundSetup | undefined;
+// The next race is the current one again instead of a new one.
+let isRestartingRace = false;
+
+const achievementTracker = new AchievementTracker();
+
+// A replay can be shared as a link (?replay=...).
+const getReplayFromUrl = (): Replay | undefined => {
+    const text = new URLSearchParams(window.location.search).get("replay");
+    if (!text) {
+        return undefined;
+    }
+
+    try {
+        return decodeReplay(text);
+    } catch (e) {
+        console.error("Could not load the replay", e);
+        return undefined;
+    }
+};
+
+// A networked race is joined with a link to the race server
+// (?server=ws://localhost:8787). Without the address the server is
+// looked for on the same host.
+const getServerUrlFromUrl = (): string | undefined => {
+    const params = new URLSearchParams(window.location.search);
+    if (!params.has("server")) {
+        return undefined;
+    }
+
+    const hostname = window.location.hostname || "localhost";
+    return params.get("server") || `ws://${hostname}:${DEFAULT_SERVER_PORT}`;
+};
+
+let maxRadius = 0;
 
 // Hold the time of drawing for functions where the t variable is not
 // available.
@@ -117,17 +264,209 @@ const platePattern = createPlateTexture();
 
 let counted = 0;
 
-const setState = async (state: GameState) => {
-    gameState = state;
+const openReplay = (replay: Replay): void => {
+    closeReplay();
+    replayPlayer = new ReplayPlayer(replay, platePattern, closeReplay);
+    replayPlayer.start();
+};
+
+const closeReplay = (): void => {
+    replayPlayer?.stop();
+    replayPlayer = undefined;
+};
+
+const openSpectator = (): void => {
+    if (!level) {
+        return;
+    }
+
+    closeSpectator();
+    spectator = new Spectator(
+        level,
+        tournament,
+        raceNumber,
+        platePattern,
+        closeSpectator,
+    );
+    spectator.start();
+};
+
+const closeSpectator = (): void => {
+    spectator?.stop();
+    spectator = undefined;
+};
+
+const openNetworkClient = (url: string): void => {
+    closeNetworkClient();
+    networkClient = new NetworkClient(url, platePattern, closeNetworkClient);
+    networkClient.start();
+};
+
+const closeNetworkClient = (): void => {
+    networkClient?.stop();
+    networkClient = undefined;
+};
+
+const openTimeTrial = (): void => {
+    closeTimeTrial();
+    timeTrial = new TimeTrial(platePattern, closeTimeTrial);
+    timeTrial.start();
+};
+
+const closeTimeTrial = (): void => {
+    timeTrial?.stop();
+    timeTrial = undefined;
+};
+
+const openPractice = (): void => {
+    closePractice();
+    practice = new Practice(platePattern, closePractice);
+    practice.start();
+};
+
+const closePractice = (): void => {
+    practice?.stop();
+    practice = undefined;
+};
+
+const isOverlayOpen = (): boolean =>
+    !!(
+        replayPlayer ||
+        spectator ||
+        networkClient ||
+        trackEditor ||
+        controlSettings ||
+        careerStats ||
+        timeTrial ||
+        practice
+    );
+
+// Keys of the screens between the races. None of them is bound by
+// default, and a key bound to confirming or pausing keeps doing that.
+const isHotkey = (event: KeyboardEvent, code: string): boolean =>
+    event.code === code &&
+    !isKeyBound(InputAction.Confirm, code) &&
+    !isKeyBound(InputAction.Pause, code);
+
+const openEditor = (): void => {
+    closeEditor();
+    trackEditor = new TrackEditor(platePattern, startTestDrive, closeEditor);
+    trackEditor.start();
+};
+
+const closeEditor = (): void => {
+    trackEditor?.stop();
+    trackEditor = undefined;
+};
+
+const openControlSettings = (onClose?: () => void): void => {
+    closeControlSettings();
+    controlSettings = new ControlSettings(() => {
+        closeControlSettings();
+        onClose?.();
+    });
+    controlSettings.start();
+};
+
+const closeControlSettings = (): void => {
+    controlSettings?.stop();
+    controlSettings = undefined;
+};
+
+const openCareerStats = (): void => {
+    closeCareerStats();
+    careerStats = new CareerStats(closeCareerStats);
+    careerStats.start();
+};
+
+const closeCareerStats = (): void => {
+    careerStats?.stop();
+    careerStats = undefined;
+};
+
+const startTestDrive = (track: TrackTemplate): void => {
+    testTrack = track;
+    raceNumber = 1;
+    setState(GameState.Ready);
+};
+
+const returnToEditor = (): void => {
+    testTrack = undefined;
+    raceNumber = 1;
+    setState(GameState.Start);
+    openEditor();
+};
+
+const createPlayerInput = (source: InputSource): MovementSource => ({
+    getMovement: () => readControls(source).movement,
+    getAction: () => readControls(source).action,
+});
+
+const getNextTournament = (): Tournament =>
+    TOURNAMENTS[(TOURNAMENTS.indexOf(tournament) + 1) % TOURNAMENTS.length];
+
+// The next player count that there are enough gamepads and keyboard
+// halves for.
+const getNextPlayerCount = (): number => {
+    const count = (playerCount % MAX_PLAYER_COUNT) + 1;
+    return getInputSources(count) ? count : 1;
+};
+
+const MOVEMENT_ACTIONS: readonly InputAction[] = [
+    InputAction.Up,
+    InputAction.Down,
+    InputAction.Left,
+    InputAction.Right,
+];
+
+const describeInputSource = (source: InputSource): string => {
+    if ("gamepadIndex" in source) {
+        return `GAMEPAD ${source.gamepadIndex + 1}`;
+    }
+
+    const { keySlot } = source;
+    if (keySlot == null) {
+        return MOVEMENT_ACTIONS.map(getKeyNames).join(" - ");
+    }
+
+    return MOVEMENT_ACTIONS.map((action) => {
+        const code = getKeyMap()[action].keys[keySlot];
+        return code != null ? getKeyName(code) : "-";
+    }).join(" ");
+};
+
+// A test drive has only one race.
+const isQualifiedForNextRound = (): boolean =>
+    !testTrack && !!level && !isFinalRound(tournament, raceNumber);
+
+// Moves the game from one state to another, see the transition table
+// of the game flow.
+const setState = (state: GameState): void => gameFlow.transition(state);
+
+// Done on every state change before entering the new state.
+const onStateChange = (_from: GameState, state: GameState): void => {
+    // On touch screens the tap that moves the game forward also closes
+    // the replay.
+    closeReplay();
+    closeSpectator();
+    closeEditor();
+    closeControlSettings();
+    closeCareerStats();
+    closeTimeTrial();
+    closePractice();
 
     // Set race mode flag based on game state
     // IMPORTANT: Only consider Running and Ready as race modes, not GameFinished/GameOver
-    setRaceMode(state === GameState.Running || state === GameState.Ready);
+    // The paused race is still drawn the same way.
+    setRaceMode(
+        state === GameState.Running ||
+            state === GameState.Ready ||
+            state === GameState.Paused,
+    );
 
     const restartButton = document.getElementById(RESTART_BUTTON_ID);
     if (restartButton) {
-        restartButton.style.display =
-            state !== GameState.Init ? "block" : "none";
+        restartButton.style.display = canResetGame(state) ? "block" : "none";
     }
 
     const fullscreenButton = document.getElementById(FULLSCREEN_BUTTON_ID);
@@ -136,141 +475,435 @@ const setState = async (state: GameState) => {
             state !== GameState.Init || !hasTouchScreen ? "block" : "none";
     }
 
+    const pauseButton = document.getElementById(PAUSE_BUTTON_ID);
+    if (pauseButton) {
+        pauseButton.style.display =
+            state === GameState.Running && hasTouchScreen ? "block" : "none";
+    }
+
     setTouchControlsVisibility(state === GameState.Running);
 
     maxRadius = 1280 * 2;
+};
 
-    switch (state) {
-        case GameState.Start:
-            // Sound.Start or Sound.Restart is playing
-            await sleep(0);
-            await waitForProgressInput(); // Now wait for a genuinely new input
-            setState(GameState.Wait);
-            break;
-        case GameState.Wait:
-            // Sound.Start continues playing.
-            await waitForProgressInput(Sound.Race);
-            setState(GameState.RaceStarting);
-            break;
-        case GameState.RaceStarting:
-            // Sound.Start continues playing
-            setState(GameState.Ready);
-            break;
-        case GameState.Ready:
-            counted = 0; // Ensure counted is 0 when entering Ready
-            // Create new level instance
-            if (raceNumber > 1 && level && !level.player.eliminated) {
-                const track =
-                    raceNumber === 3 ? getThirdTrack() : getSecondTrack();
-                level = new Level(
-                    track,
-                    randomWidhOffset,
-                    randomHeighOffset,
-                    level.characters, // Pass existing characters for subsequent rounds
-                    platePattern,
-                );
-            } else {
-                // First race or after elimination, start fresh
-                level = new Level(
-                    getFirstTrack(),
-                    randomWidhOffset,
-                    randomHeighOffset,
-                    undefined, // Start with default characters
-                    platePattern,
-                );
-            }
-            radius = maxRadius; // Reset radius for the animation
-            readyCircleStartTime = drawTime;
-
-            checkPerformanceOnRaceStart();
-            break;
-
-        case GameState.GameOver:
-            radius = 1;
-            playSound(Sound.GameOver); // Play game over tune
-            randomWidhOffset = 1 + Math.random() * 0.6;
-            randomHeighOffset = 1 + Math.random() * 0.3;
-
-            await waitForProgressInput(Sound.Restart);
-            raceNumber = 1;
-            setState(GameState.Start);
-            break;
-        case GameState.GameFinished:
-            // Make doubly sure we're not in race mode anymore
-            setRaceMode(false);
-            resetRacePerformanceCheck();
-
-            radius = 1;
-            playSound(Sound.Finished);
-            if (level && level.characters.length > 14) {
-                // Qualified
-                await waitForProgressInput(Sound.Race);
-                raceNumber++; // Increment race number for the next round
-                setState(GameState.Ready);
-            } else {
-                // Final Winner
-                await waitForProgressInput(Sound.Start);
-                raceNumber = 1;
-                clearCharacterGradientCache();
-                setState(GameState.Start);
-            }
-            break;
-        case GameState.Running:
-            break;
-        case GameState.Init:
-            stopAllTunes();
-            break;
-        default:
-            break;
+const enterStart = async (signal: AbortSignal): Promise<void> => {
+    // Sound.Start or Sound.Restart is playing
+    await sleep(0);
+    await waitForProgressInput(undefined, signal); // Now wait for a genuinely new input
+    // The input belongs to the screens opened from the start screen
+    // while they are open.
+    while (
+        (networkClient ||
+            timeTrial ||
+            practice ||
+            trackEditor ||
+            controlSettings ||
+            careerStats) &&
+        !signal.aborted
+    ) {
+        await waitForProgressInput(undefined, signal);
+    }
+    if (signal.aborted) {
+        // E.g. the track editor started a test drive
+        return;
+    }
+    setState(GameState.Wait);
+};
+
+const enterWait = async (signal: AbortSignal): Promise<void> => {
+    // Sound.Start continues playing.
+    await waitForProgressInput(Sound.Race, signal);
+    if (!signal.aborted) {
+        setState(GameState.RaceStarting);
+    }
+};
+
+const createRoundSetup = (): RoundSetup => {
+    const isNextRound =
+        raceNumber > 1 && level && level.getQualifiedPlayerIds().length > 0;
+    const roundNumber = isNextRound ? raceNumber : 1;
+    // First race or after elimination, start fresh
+    // The rest of the track is generated now if it isn't ready yet.
+    const track = testTrack ?? roundTracks[roundNumber - 1].finish();
+    // Characters qualified from the previous round continue
+    // to the next one.
+    const qualifiedAiCharacterIds =
+        isNextRound && level ? level.getQualifiedAiCharacterIds() : undefined;
+    if (isNextRound && level) {
+        activePlayerIds = level.getQualifiedPlayerIds();
+    } else {
+        // The players are matched with the inputs again at the
+        // start of a tournament, e.g. if a gamepad was
+        // disconnected.
+        const sources =
+            playerCount > 1 && !testTrack
+                ? getInputSources(playerCount)
+                : undefined;
+        playerInputSources = sources ?? [];
+        activePlayerIds = sources ? sources.map((_, i) => i) : [0];
+    }
+    const aiCharacterIds =
+        qualifiedAiCharacterIds ??
+        getParticipantIds(tournament).filter(
+            (id) => !activePlayerIds.includes(id),
+        );
+    const eliminationCount = getEliminationCount(
+        tournament,
+        roundNumber,
+        activePlayerIds.length + aiCharacterIds.length,
+    );
+    // Every race has its own seed so that it can be replayed
+    // without the earlier races of the tournament.
+    const seed = rng.randomInt(4294967296);
+
+    return { roundNumber, track, aiCharacterIds, eliminationCount, seed };
+};
+
+const enterReady = (): void => {
+    counted = 0; // Ensure counted is 0 when entering Ready
+    // A restarted race keeps its players, characters and seed.
+    if (!isRestartingRace || !roundSetup) {
+        roundSetup = createRoundSetup();
+    }
+    isRestartingRace = false;
+    const {
+        roundNumber,
+        track,
+        aiCharacterIds,
+        eliminationCount,
+        seed: raceSeed,
+    } = roundSetup;
+    const isSplitScreen = playerInputSources.length > 1;
+
+    latestReplay = undefined;
+
+    // Replays and personal bests only follow a single player.
+    let players: PlayerSetup[];
+    if (isSplitScreen) {
+        recorder = undefined;
+        players = activePlayerIds.map((id) => ({
+            id,
+            input: createPlayerInput(playerInputSources[id]),
+        }));
+    } else {
+        recorder = new ReplayRecorder({
+            seed: raceSeed,
+            track,
+            playerWidthOffset: randomWidhOffset,
+            playerHeightOffset: randomHeighOffset,
+            aiCharacterIds,
+            eliminationCount,
+        });
+        players = [{ id: 0, input: recorder }];
+    }
+
+    raceTrack = track;
+    level = new Level(
+        track,
+        randomWidhOffset,
+        randomHeighOffset,
+        aiCharacterIds,
+        platePattern,
+        new Random(raceSeed),
+        players,
+    );
+    level.eliminationCount = eliminationCount;
+
+    const { player } = level;
+    level.events.on(RaceEventType.CheckpointReached, (event) => {
+        if (event.character === player) {
+            recorder?.recordCheckpoint(event.checkpointIndex);
+        }
+    });
+    level.events.on(RaceEventType.RaceFinished, onRaceFinished);
+
+    if (testTrack) {
+        achievementTracker.stop();
+    } else {
+        achievementTracker.startRace(
+            level,
+            roundNumber,
+            isFinalRound(tournament, roundNumber),
+        );
+    }
+
+    ghostRecorder = undefined;
+    if (
+        !isSplitScreen &&
+        !testTrack &&
+        hasRoundGhost(getRound(tournament, roundNumber))
+    ) {
+        ghostRecorder = new GhostRecorder(
+            track,
+            randomWidhOffset,
+            randomHeighOffset,
+        );
+        const ghostPath = loadGhostPath(track);
+        if (ghostPath) {
+            level.setGhost(ghostPath);
+        }
+    }
+
+    radius = maxRadius; // Reset radius for the animation
+    readyCircleStartTime = drawTime;
+
+    checkPerformanceOnRaceStart();
+};
+
+const enterGameOver = async (signal: AbortSignal): Promise<void> => {
+    radius = 1;
+    playSound(Sound.GameOver); // Play game over tune
+
+    startNewTournamentRandom();
+    randomWidhOffset = 1 + rng.random(0.6);
+    randomHeighOffset = 1 + rng.random(0.3);
+
+    // The gamepad buttons pressed on the spectator or the replay
+    // opened over this screen are theirs.
+    do {
+        await waitForProgressInput(undefined, signal);
+    } while (isOverlayOpen() && !signal.aborted);
+    if (signal.aborted) {
+        return;
+    }
+    playSound(Sound.Restart);
+    if (testTrack) {
+        returnToEditor();
+        return;
+    }
+    raceNumber = 1;
+    setState(GameState.Start);
+};
+
+const enterGameFinished = async (signal: AbortSignal): Promise<void> => {
+    // Make doubly sure we're not in race mode anymore
+    setRaceMode(false);
+    resetRacePerformanceCheck();
+
+    radius = 1;
+    playSound(Sound.Finished);
+    if (isQualifiedForNextRound()) {
+        // Qualified
+        await waitForProgressInput(Sound.Race, signal);
+        if (signal.aborted) {
+            return;
+        }
+        raceNumber++; // Increment race number for the next round
+        setState(GameState.Ready);
+    } else if (testTrack) {
+        await waitForProgressInput(undefined, signal);
+        if (!signal.aborted) {
+            returnToEditor();
+        }
+    } else {
+        // Final Winner
+        await waitForProgressInput(Sound.Start, signal);
+        if (signal.aborted) {
+            return;
+        }
+        raceNumber = 1;
+        startNewTournamentRandom();
+        clearCharacterGradientCache();
+        setState(GameState.Start);
     }
 };
 
+// Pausing freezes the race, because it is only updated when running.
+const pauseRace = (): void => {
+    if (gameFlow.state === GameState.Running && !isOverlayOpen()) {
+        setState(GameState.Paused);
+    }
+};
+
+const resumeRace = (): void => setState(GameState.Running);
+
+const restartRace = (): void => {
+    isRestartingRace = true;
+    playSound(Sound.Race);
+    setState(GameState.Ready);
+};
+
+const quitRace = (): void => {
+    stopAllTunes();
+    playSound(Sound.Restart);
+    if (testTrack) {
+        returnToEditor();
+        return;
+    }
+    raceNumber = 1;
+    startNewTournamentRandom();
+    setState(GameState.Start);
+};
+
+// The game is started over once it is past the first interaction.
+const canResetGame = (state: GameState): boolean =>
+    state !== GameState.Load && state !== GameState.Init;
+
+// Starts everything over from the start screen with a new tournament,
+// like reloading the page.
+const resetGame = (): void => {
+    closeNetworkClient();
+    stopAllTunes();
+    playSound(Sound.Restart);
+    testTrack = undefined;
+    roundSetup = undefined;
+    isRestartingRace = false;
+    raceNumber = 1;
+    startNewTournamentRandom();
+    clearCharacterGradientCache();
+    setState(GameState.Start);
+};
+
+// The pause menu is hidden while the settings are open.
+const openPauseSettings = (): void => {
+    pauseMenu?.stop();
+    openControlSettings(() => pauseMenu?.start());
+};
+
+const enterPaused = (): void => {
+    pauseMenu = new PauseMenu(
+        [
+            { label: "RESUME", select: resumeRace },
+            { label: "RESTART RACE", select: restartRace },
+            { label: "SETTINGS", select: openPauseSettings },
+            { label: "QUIT TO TITLE", select: quitRace },
+        ],
+        resumeRace,
+    );
+    pauseMenu.start();
+};
+
+const exitPaused = (): void => {
+    pauseMenu?.stop();
+    pauseMenu = undefined;
+};
+
 const gameLoop = (t: number): void => {
     requestAnimationFrame(gameLoop);
 
     const deltaTime = t - lastTime;
 
     if (deltaTime >= TIME_STEP) {
-        const cappedDeltaTime = Math.min(deltaTime, MAX_FRAME);
+        const steps = Math.min(
+            Math.floor(deltaTime / TIME_STEP),
+            MAX_STEPS_PER_FRAME,
+        );
         lastTime = t - (deltaTime % TIME_STEP);
 
-        update(t, cappedDeltaTime);
+        for (let i = 0; i < steps; i++) {
+            update();
+        }
 
         if (shouldRender(t)) {
-            draw(t, cappedDeltaTime);
+            draw(t, steps * TIME_STEP);
         }
     }
 };
 
-const update = (t: number, dt: number): void => {
-    switch (gameState) {
-        case GameState.Running: {
-            updateControls();
-            level?.update(t, dt);
-            if (level?.state === State.GAME_OVER) {
-                setState(GameState.GameOver);
-            } else if (level?.state === State.FINISHED) {
-                setState(GameState.GameFinished);
-            }
-            break;
-        }
-        case GameState.Ready: {
-            if (counted === 2 && radius < maxRadius / 4) {
-                playSound(Sound.Go);
-                counted++;
-            } else if (counted === 1 && radius < maxRadius / 2) {
-                playSound(Sound.Count);
-                counted++;
-            } else if (counted === 0 && radius < maxRadius) {
-                playSound(Sound.Count);
-                counted++;
+// The replay, the personal best and the profile are saved when the
+// race is over.
+const onRaceFinished = ({ state }: RaceFinishedEvent): void => {
+    // E.g. a spectated race going on after the game is over
+    if (!level || gameFlow.state !== GameState.Running) {
+        return;
+    }
+
+    // The race ends in the middle of the step.
+    ghostRecorder?.record(level.time, level.player);
+
+    if (recorder) {
+        latestReplay = recorder.getReplay();
+    }
+    if (raceTrack && !testTrack) {
+        recordRace(
+            level,
+            raceTrack,
+            tournament,
+            isFinalRound(tournament, raceNumber),
+        );
+    }
+    if (
+        state === State.FINISHED &&
+        ghostRecorder &&
+        level.player.finishTime != null
+    ) {
+        saveGhostPathIfBest(ghostRecorder.getPath(level.player.finishTime));
+    }
+
+    setState(
+        state === State.GAME_OVER ? GameState.GameOver : GameState.GameFinished,
+    );
+};
+
+const update = (): void => {
+    if (gameFlow.state !== GameState.Running) {
+        // Works on the first track that isn't ready yet.
+        for (const roundTrack of roundTracks) {
+            if (!roundTrack.run()) {
+                break;
             }
-            break;
-        }
-        default: {
-            break;
         }
     }
+
+    if (replayPlayer) {
+        replayPlayer.update();
+        return;
+    }
+
+    if (spectator) {
+        spectator.update();
+        return;
+    }
+
+    if (networkClient) {
+        networkClient.update();
+        return;
+    }
+
+    if (timeTrial) {
+        timeTrial.update();
+        return;
+    }
+
+    if (practice) {
+        practice.update();
+        return;
+    }
+
+    gameFlow.update();
+};
+
+const updateRunning = (): void => {
+    if (!level) {
+        return;
+    }
+
+    const isPauseButtonDown = isActionDownOnAnyGamepad(InputAction.Pause);
+    const isPausePressed = isPauseButtonDown && !wasPauseButtonDown;
+    wasPauseButtonDown = isPauseButtonDown;
+    if (isPausePressed) {
+        pauseRace();
+        return;
+    }
+
+    updateControls();
+    recorder?.record(getControls().movement, getControls().action);
+    level.update(TIME_STEP);
+    ghostRecorder?.record(level.time, level.player);
+};
+
+// Counting down to the start
+const updateReady = (): void => {
+    if (counted === 2 && radius < maxRadius / 4) {
+        playSound(Sound.Go);
+        counted++;
+    } else if (counted === 1 && radius < maxRadius / 2) {
+        playSound(Sound.Count);
+        counted++;
+    } else if (counted === 0 && radius < maxRadius) {
+        playSound(Sound.Count);
+        counted++;
+    }
 };
 
 let textAnimationCounter = 0;
@@ -294,264 +927,336 @@ export const renderLoadingText = (): void => {
     );
 };
 
-const draw = (t: number, dt: number): void => {
-    drawTime = t;
-    cx.save();
-    cx.fillStyle = "rgb(0, 0, 20)";
-    cx.fillRect(0, 0, canvas.width, canvas.height);
-    level?.draw(t, dt);
-    cx.restore();
-
-    cx.save();
+const drawLoad = (): void => {
+    renderLoadingText();
+    textAnimationCounter++;
+    applyGrayscale();
+    applyCRTEffect(false);
+};
 
-    switch (gameState) {
-        case GameState.Load: {
-            renderLoadingText();
-            textAnimationCounter++;
-            applyGrayscale();
-            applyCRTEffect(false);
+const drawInit = (): void => {
+    drawInitialScreen(true); // Draw background/character/logo
 
-            break;
+    if (hasTouchScreen) {
+        // TOUCH DEVICE: Show full screen start button
+        const btn = document.getElementById(START_BUTTON_ID);
+        if (btn && btn.style.display === "none") {
+            btn.style.display = "block";
         }
-        case GameState.Init: {
-            drawInitialScreen(true); // Draw background/character/logo
-
-            if (hasTouchScreen) {
-                // TOUCH DEVICE: Show full screen start button
-                const btn = document.getElementById(START_BUTTON_ID);
-                if (btn && btn.style.display === "none") {
-                    btn.style.display = "block";
-                }
-            } else {
-                // NON-TOUCH DEVICE
-                renderWaitForProgressInput("start");
-            }
+    } else {
+        // NON-TOUCH DEVICE
+        renderWaitForProgressInput("start");
+    }
+};
 
-            break;
-        }
-        case GameState.Start: {
-            drawStartScreen(t++, false, 0);
-            applyGradient();
-            applyCRTEffect(true);
+const drawStart = (t: number): void => {
+    drawStartScreen(t++, false, 0);
+    applyGradient();
+    applyCRTEffect(true);
+};
 
-            break;
-        }
-        case GameState.Wait: {
-            drawStartScreen(t++, true, (z = z + 0.01));
-            applyGradient();
-            applyCRTEffect(true);
+const drawWait = (t: number): void => {
+    drawStartScreen(t++, true, (z = z + 0.01));
+    applyGradient();
+    applyCRTEffect(true);
+};
 
-            break;
-        }
-        case GameState.RaceStarting: {
-            drawStartScreen(t++, true, (z = z + 0.01));
+const drawRaceStarting = (t: number, dt: number): void => {
+    drawStartScreen(t++, true, (z = z + 0.01));
 
-            const centerX = canvas.width / 2;
-            const centerY = canvas.height / 2;
+    const centerX = canvas.width / 2;
+    const centerY = canvas.height / 2;
 
-            cx.beginPath();
-            cx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-            cx.fillStyle = "#802010";
-            cx.fill();
+    cx.beginPath();
+    cx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+    cx.fillStyle = "#802010";
+    cx.fill();
 
-            if (radius < maxRadius) {
-                radius += dt;
-            }
-            applyGradient();
-            applyCRTEffect(true);
+    if (radius < maxRadius) {
+        radius += dt;
+    }
+    applyGradient();
+    applyCRTEffect(true);
+};
 
-            break;
-        }
-        case GameState.Ready: {
-            const centerX = canvas.width / 2;
-            const centerY = canvas.height / 2;
-
-            if (radius <= 0) {
-                setState(GameState.Running);
-            } else {
-                if (radius > 0) {
-                    cx.beginPath();
-                    cx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-                    cx.fillStyle =
-                        radius < maxRadius / 4
-                            ? "#105000"
-                            : radius < maxRadius / 2
-                              ? "#CCCC40"
-                              : "#802010";
-                    cx.fill();
-                }
-                if (radius < maxRadius / 4) {
-                    renderText(
-                        "▲ GO! ▲",
-                        TextSize.Xl,
-                        "Impact",
-                        (radius / maxRadius) * 4,
-                    );
-                } else if (radius < maxRadius / 2) {
-                    renderText("Set...", TextSize.Xl, "Impact", 1);
-                } else {
-                    renderText("Ready...", TextSize.Xl, "Impact", 1);
-                }
-
-                if (radius > 0) {
-                    const progress =
-                        (t - readyCircleStartTime) / READY_CIRCLE_DURATION;
-                    radius = (1 - progress) * maxRadius;
-                }
-            }
-            applyGradient();
-            applyCRTEffect(true);
+const drawReady = (t: number): void => {
+    const centerX = canvas.width / 2;
+    const centerY = canvas.height / 2;
 
-            break;
-        }
-        case GameState.GameOver: {
-            const centerX = canvas.width / 2;
-            const centerY = canvas.height / 2;
+    if (radius <= 0) {
+        setState(GameState.Running);
+    } else {
+        if (radius > 0) {
             cx.beginPath();
             cx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-            cx.fillStyle = "#802010";
+            cx.fillStyle =
+                radius < maxRadius / 4
+                    ? "#105000"
+                    : radius < maxRadius / 2
+                      ? "#CCCC40"
+                      : "#802010";
             cx.fill();
-            renderText("❌ ELIMINATED!", TextSize.Large, "Impact", 1, -4.5);
-            if (level?.player.rank === 13) {
-                renderText(
-                    "Don't be the 13TH GUY",
-                    TextSize.Small,
-                    "Sans-serif",
-                );
-            } else {
+        }
+        if (radius < maxRadius / 4) {
+            renderText(
+                "▲ GO! ▲",
+                TextSize.Xl,
+                "Impact",
+                (radius / maxRadius) * 4,
+            );
+        } else if (radius < maxRadius / 2) {
+            renderText("Set...", TextSize.Xl, "Impact", 1);
+        } else {
+            renderText("Ready...", TextSize.Xl, "Impact", 1);
+        }
+
+        if (radius > 0) {
+            const progress = (t - readyCircleStartTime) / READY_CIRCLE_DURATION;
+            radius = (1 - progress) * maxRadius;
+        }
+    }
+    applyGradient();
+    applyCRTEffect(true);
+};
+
+const drawGameOver = (t: number, dt: number): void => {
+    const centerX = canvas.width / 2;
+    const centerY = canvas.height / 2;
+    cx.beginPath();
+    cx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+    cx.fillStyle = "#802010";
+    cx.fill();
+    renderText("❌ ELIMINATED!", TextSize.Large, "Impact", 1, -4.5);
+    if (level?.player.rank === 13) {
+        renderText("Don't be the 13TH GUY", TextSize.Small, "Sans-serif");
+    } else {
+        renderText(
+            "Don't be one of the last 13TH GUYs",
+            TextSize.Small,
+            "Sans-serif",
+        );
+        renderText(
+            "The final rank is " + level?.player.rank + ".",
+            TextSize.Normal,
+            "Impact",
+            1,
+            3.1,
+        );
+    }
+    if (radius >= maxRadius) {
+        renderWaitForProgressInput("continue", 9);
+        renderReplayHint();
+        renderSpectatorHint();
+    }
+
+    if (radius < maxRadius) {
+        cx.save();
+        cx.globalAlpha = 0.7;
+        cx.translate(canvas.width / 8, radius * 2 - canvas.height);
+        renderCharacter(
+            cx,
+            "eliminated",
+            (canvas.height / 6) * randomWidhOffset,
+            (canvas.height / 2) * randomHeighOffset,
+            t,
+            CharacterFacingDirection.Backward,
+            CharacterAnimation.Fall,
+            pattern,
+        );
+        cx.globalAlpha = 0;
+        cx.restore();
+    }
+    if (radius < maxRadius) {
+        radius += dt;
+    }
+
+    applyGradient();
+    applyCRTEffect(true);
+};
+
+const drawGameFinished = (t: number, dt: number): void => {
+    const centerX = canvas.width / 2;
+    const centerY = canvas.height / 2;
+
+    cx.beginPath();
+    cx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+    cx.fillStyle = "#105000";
+    cx.fill();
+
+    if (radius >= maxRadius / 4) {
+        if (isQualifiedForNextRound()) {
+            renderText("✪ QUALIFIED!", TextSize.Large, "Impact", 1, -5);
+            renderText("☻", TextSize.Huge, "Impact");
+            renderText(
+                "Ready for next round " +
+                    (raceNumber + 1) +
+                    " / " +
+                    tournament.rounds.length,
+                TextSize.Normal,
+                "Sans-serif",
+                1,
+                3.8,
+            );
+            if (level && playerInputSources.length > 1) {
                 renderText(
-                    "Don't be one of the last 13TH GUYs",
+                    level
+                        .getQualifiedPlayerIds()
+                        .map((id) => `P${id + 1}`)
+                        .join(" ") + " continue",
                     TextSize.Small,
                     "Sans-serif",
-                );
-                renderText(
-                    "The final rank is " + level?.player.rank + ".",
-                    TextSize.Normal,
-                    "Impact",
                     1,
-                    3.1,
+                    6,
                 );
             }
-            if (radius >= maxRadius) {
-                renderWaitForProgressInput("continue", 9);
-            }
-
-            if (radius < maxRadius) {
-                cx.save();
-                cx.globalAlpha = 0.7;
-                cx.translate(canvas.width / 8, radius * 2 - canvas.height);
-                renderCharacter(
-                    cx,
-                    "eliminated",
-                    (canvas.height / 6) * randomWidhOffset,
-                    (canvas.height / 2) * randomHeighOffset,
-                    t,
-                    CharacterFacingDirection.Backward,
-                    CharacterAnimation.Fall,
-                    pattern,
-                );
-                cx.globalAlpha = 0;
-                cx.restore();
-            }
-            if (radius < maxRadius) {
-                radius += dt;
-            }
-
-            applyGradient();
-            applyCRTEffect(true);
+        } else {
+            renderText("GAME FINISHED!", TextSize.Large, "Impact", 1, -5);
+            renderText("☻", TextSize.Huge, "Impact");
+            renderText(
+                "Congratulations to the winner!",
+                TextSize.Normal,
+                "Impact",
+                1,
+                3.8,
+            );
+        }
 
-            break;
+        if (radius >= maxRadius) {
+            renderWaitForProgressInput();
+            renderReplayHint();
         }
-        case GameState.GameFinished: {
-            const centerX = canvas.width / 2;
-            const centerY = canvas.height / 2;
 
-            cx.beginPath();
-            cx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-            cx.fillStyle = "#105000";
-            cx.fill();
+        cx.save();
+        cx.translate(
+            radius < canvas.width / 6 ? radius : canvas.width / 6,
+            canvas.height / 3,
+        );
+        renderCharacter(
+            cx,
+            playerColor,
+            (canvas.height / 6) * randomWidhOffset,
+            (canvas.height / 2) * randomHeighOffset,
+            t,
+            radius < canvas.width / 6
+                ? CharacterFacingDirection.Right
+                : !isQualifiedForNextRound() || t % 3600 > 1800
+                  ? CharacterFacingDirection.Backward
+                  : CharacterFacingDirection.BackwardRight,
+            isQualifiedForNextRound()
+                ? CharacterAnimation.Walk
+                : CharacterAnimation.Celebrate,
+            pattern,
+        );
+        cx.restore();
+    }
 
-            if (radius >= maxRadius / 4) {
-                if (level && level.characters.length > 14) {
-                    renderText("✪ QUALIFIED!", TextSize.Large, "Impact", 1, -5);
-                    renderText("☻", TextSize.Huge, "Impact");
-                    renderText(
-                        "Ready for next round " + (raceNumber + 1) + " / 3",
-                        TextSize.Normal,
-                        "Sans-serif",
-                        1,
-                        3.8,
-                    );
-                } else {
-                    renderText(
-                        "GAME FINISHED!",
-                        TextSize.Large,
-                        "Impact",
-                        1,
-                        -5,
-                    );
-                    renderText("☻", TextSize.Huge, "Impact");
-                    renderText(
-                        "Congratulations to the winner!",
-                        TextSize.Normal,
-                        "Impact",
-                        1,
-                        3.8,
-                    );
-                }
-
-                if (radius >= maxRadius) {
-                    renderWaitForProgressInput();
-                }
-
-                cx.save();
-                cx.translate(
-                    radius < canvas.width / 6 ? radius : canvas.width / 6,
-                    canvas.height / 3,
-                );
-                renderCharacter(
-                    cx,
-                    playerColor,
-                    (canvas.height / 6) * randomWidhOffset,
-                    (canvas.height / 2) * randomHeighOffset,
-                    t,
-                    radius < canvas.width / 6
-                        ? CharacterFacingDirection.Right
-                        : (level && level.characters.length <= 14) ||
-                            t % 3600 > 1800
-                          ? CharacterFacingDirection.Backward
-                          : CharacterFacingDirection.BackwardRight,
-                    level && level.characters.length > 14
-                        ? CharacterAnimation.Walk
-                        : CharacterAnimation.Celebrate,
-                    pattern,
-                );
-                cx.restore();
-            }
+    if (radius < maxRadius) {
+        radius += dt;
+    }
+    applyGradient();
+    applyCRTEffect(true);
+};
 
-            if (radius < maxRadius) {
-                radius += dt;
-            }
-            applyGradient();
-            applyCRTEffect(true);
+const drawRunning = (): void => {
+    // Ensure start button is hidden if we leave Init state
+    const btn = document.getElementById(START_BUTTON_ID);
+    if (btn && btn.style.display !== "none") {
+        btn.style.display = "none";
+    }
+    applyCRTEffect(false);
+};
 
-            break;
-        }
-        default: {
-            // Ensure start button is hidden if we leave Init state
-            const btn = document.getElementById(START_BUTTON_ID);
-            if (btn && btn.style.display !== "none") {
-                btn.style.display = "none";
-            }
-            applyCRTEffect(false);
+const drawPaused = (): void => {
+    pauseMenu?.draw();
+    applyCRTEffect(false);
+};
 
-            break;
-        }
+const gameFlow = createGameFlow({
+    [GameState.Load]: { draw: drawLoad },
+    [GameState.Init]: { enter: stopAllTunes, draw: drawInit },
+    [GameState.Start]: { enter: enterStart, draw: drawStart },
+    [GameState.Wait]: { enter: enterWait, draw: drawWait },
+    [GameState.RaceStarting]: {
+        // Sound.Start continues playing
+        enter: () => setState(GameState.Ready),
+        draw: drawRaceStarting,
+    },
+    [GameState.Ready]: {
+        enter: enterReady,
+        update: updateReady,
+        draw: drawReady,
+    },
+    [GameState.Running]: { update: updateRunning, draw: drawRunning },
+    [GameState.Paused]: {
+        enter: enterPaused,
+        exit: exitPaused,
+        update: () => pauseMenu?.update(),
+        draw: drawPaused,
+    },
+    [GameState.GameOver]: { enter: enterGameOver, draw: drawGameOver },
+    [GameState.GameFinished]: {
+        enter: enterGameFinished,
+        draw: drawGameFinished,
+    },
+});
+gameFlow.onTransition = onStateChange;
+
+const draw = (t: number, dt: number): void => {
+    drawTime = t;
+    cx.save();
+    cx.fillStyle = "rgb(0, 0, 20)";
+    cx.fillRect(0, 0, canvas.width, canvas.height);
+    const overlay =
+        replayPlayer ??
+        spectator ??
+        networkClient ??
+        timeTrial ??
+        practice ??
+        trackEditor ??
+        controlSettings ??
+        careerStats;
+    if (overlay) {
+        overlay.draw(dt);
+        applyCRTEffect(false);
+        cx.restore();
+        return;
     }
+    level?.draw(dt);
+    cx.restore();
+
+    cx.save();
+
+    gameFlow.draw(t, dt);
+
+    achievementTracker.draw(dt);
 
     cx.restore();
 };
 
+const renderReplayHint = (): void => {
+    if (!hasTouchScreen && latestReplay) {
+        renderText(
+            "Press R to watch the replay",
+            TextSize.Xs,
+            "Sans-serif",
+            0.8,
+            11,
+        );
+    }
+};
+
+const renderSpectatorHint = (): void => {
+    if (!hasTouchScreen && !testTrack) {
+        renderText(
+            "Press V to keep watching the tournament",
+            TextSize.Xs,
+            "Sans-serif",
+            0.8,
+            12.5,
+        );
+    }
+};
+
 const Logo = () => {
     renderText(
         "FROST𖤓SUN",
@@ -580,7 +1285,14 @@ const Logo = () => {
         -0.1,
     );
 
-    renderText(versionText, TextSize.Tiny, "Impact", 0.5, 34, false);
+    renderText(
+        `${versionText} · SEED ${rng.seed}`,
+        TextSize.Tiny,
+        "Impact",
+        0.5,
+        34,
+        false,
+    );
 };
 
 const drawStartScreen = (t: number, wait: boolean, z: number): void => {
@@ -626,19 +1338,38 @@ const drawStartScreen = (t: number, wait: boolean, z: number): void => {
         );
         renderText("MOVE WITH", TextSize.Xs, "Sans-serif", 0.8, -7.5);
         renderText(
-            "▲ / W - ▼ / S - ◄ / A - ► / D",
+            playerCount > 1
+                ? (getInputSources(playerCount) ?? [])
+                      .map(
+                          (source, i) =>
+                              `P${i + 1}: ${describeInputSource(source)}`,
+                      )
+                      .join("   ")
+                : describeInputSource({}),
             TextSize.Xs,
             "Sans-serif",
             0.8,
             -5.6,
         );
 
-        if (gameState === GameState.Wait) {
+        if (gameFlow.state === GameState.Wait) {
             renderWaitForProgressInput("start the race!");
         }
     } else {
         Logo();
         renderWaitForProgressInput();
+
+        if (!hasTouchScreen) {
+            [
+                "Press B to build tracks in the editor",
+                "Press C to change the controls, H for your career",
+                "Press M for the time trial, K to practice",
+                `${playerCount} ${playerCount > 1 ? "PLAYERS" : "PLAYER"} - Press N to change`,
+                `${tournament.name} TOURNAMENT, ${tournament.rounds.length} ROUNDS - Press T to change`,
+            ].forEach((hint, i) =>
+                renderText(hint, TextSize.Xs, "Sans-serif", 0.6, 9.5 + i * 1.3),
+            );
+        }
     }
 
     cx.restore();
@@ -681,8 +1412,22 @@ async function postInitActions() {
     const toggleBtn = createPerformanceToggleButton();
     document.body.appendChild(toggleBtn);
 
+    if (hasTouchScreen) {
+        document.body.appendChild(createTouchLayoutToggleButton());
+    }
+
     raceNumber = 1;
     setState(GameState.Start);
+
+    const sharedReplay = getReplayFromUrl();
+    if (sharedReplay) {
+        openReplay(sharedReplay);
+    }
+
+    const serverUrl = getServerUrlFromUrl();
+    if (serverUrl) {
+        openNetworkClient(serverUrl);
+    }
 }
 
 export const init = async (): Promise<void> => {
@@ -699,10 +1444,12 @@ export const init = async (): Promise<void> => {
     // Create UI buttons
     const fullscreenButton = createFullscreenButton(hasTouchScreen);
     const restartButton = createRestartButton();
+    const pauseButton = createPauseButton();
     const startButton = createStartButton();
 
     // --- Add Buttons to DOM ---
     document.body.appendChild(restartButton);
+    document.body.appendChild(pauseButton);
     document.body.appendChild(fullscreenButton);
     document.body.appendChild(startButton);
 
@@ -715,7 +1462,86 @@ export const init = async (): Promise<void> => {
 
     restartButton.addEventListener("click", (event) => {
         event.stopPropagation();
-        window.location.reload();
+        if (canResetGame(gameFlow.state)) {
+            resetGame();
+        }
+        restartButton.blur();
+    });
+
+    pauseButton.addEventListener("click", (event) => {
+        event.stopPropagation();
+        pauseRace();
+        pauseButton.blur();
+    });
+
+    window.addEventListener("keydown", (event) => {
+        if (
+            isKeyBound(InputAction.Pause, event.code) &&
+            !event.repeat &&
+            gameFlow.state === GameState.Running
+        ) {
+            event.preventDefault();
+            pauseRace();
+        } else if (
+            isHotkey(event, "KeyB") &&
+            gameFlow.state === GameState.Start &&
+            !isOverlayOpen()
+        ) {
+            openEditor();
+        } else if (
+            isHotkey(event, "KeyC") &&
+            gameFlow.state === GameState.Start &&
+            !isOverlayOpen()
+        ) {
+            openControlSettings();
+        } else if (
+            isHotkey(event, "KeyH") &&
+            gameFlow.state === GameState.Start &&
+            !isOverlayOpen()
+        ) {
+            openCareerStats();
+        } else if (
+            isHotkey(event, "KeyN") &&
+            gameFlow.state === GameState.Start &&
+            !isOverlayOpen()
+        ) {
+            playerCount = getNextPlayerCount();
+        } else if (
+            isHotkey(event, "KeyT") &&
+            gameFlow.state === GameState.Start &&
+            !isOverlayOpen()
+        ) {
+            tournament = getNextTournament();
+            startRoundTracks();
+        } else if (
+            isHotkey(event, "KeyM") &&
+            gameFlow.state === GameState.Start &&
+            !isOverlayOpen()
+        ) {
+            openTimeTrial();
+        } else if (
+            isHotkey(event, "KeyK") &&
+            gameFlow.state === GameState.Start &&
+            !isOverlayOpen()
+        ) {
+            openPractice();
+        } else if (
+            isHotkey(event, "KeyR") &&
+            latestReplay &&
+            !replayPlayer &&
+            (gameFlow.state === GameState.GameOver ||
+                gameFlow.state === GameState.GameFinished)
+        ) {
+            openReplay(latestReplay);
+        } else if (
+            isHotkey(event, "KeyV") &&
+            gameFlow.state === GameState.GameOver &&
+            !testTrack &&
+            !replayPlayer &&
+            !spectator
+        ) {
+            openSpectator();
+        }
     });
 
     // --- Final Initial Load Steps ---
@@ -0,0 +1,77 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+    StateHandlers,
+    StateMachine,
+    TransitionTable,
+} from "./core/gameplay/StateMachine";
+
+export enum GameState {
+    Load = "load",
+    Init = "init",
+    Start = "start",
+    Wait = "wait",
+    RaceStarting = "raceStarting",
+    Ready = "ready",
+    Running = "running",
+    Paused = "paused",
+    GameOver = "gameOver",
+    GameFinished = "gameFinished",
+}
+
+/*
+ * How the game moves from one screen to another. Kept apart from the
+ * screens themselves so that the flow works without a browser.
+ *
+ * The restart button starts the game over from the start screen in
+ * every state after the first interaction, so every state from Init
+ * on goes to Start.
+ */
+export const GAME_STATE_TRANSITIONS: TransitionTable<GameState> = {
+    [GameState.Load]: [GameState.Init],
+    [GameState.Init]: [GameState.Start],
+    // Straight to a race from the track editor
+    [GameState.Start]: [GameState.Start, GameState.Wait, GameState.Ready],
+    [GameState.Wait]: [GameState.Start, GameState.RaceStarting],
+    [GameState.RaceStarting]: [GameState.Start, GameState.Ready],
+    [GameState.Ready]: [GameState.Start, GameState.Running],
+    [GameState.Running]: [
+        GameState.Start,
+        GameState.GameOver,
+        GameState.GameFinished,
+        GameState.Paused,
+    ],
+    // Resuming, restarting the race or quitting to the start screen
+    [GameState.Paused]: [GameState.Running, GameState.Ready, GameState.Start],
+    // Back to the start screen or the track editor
+    [GameState.GameOver]: [GameState.Start],
+    // The next round, or the end of the tournament or the test drive
+    [GameState.GameFinished]: [GameState.Ready, GameState.Start],
+};
+
+export const createGameFlow = (
+    handlers: Partial<Record<GameState, StateHandlers>>,
+): StateMachine<GameState> =>
+    new StateMachine(GameState.Load, GAME_STATE_TRANSITIONS, handlers);
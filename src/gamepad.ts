@@ -0,0 +1,148 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { length, multiply, Vector, ZERO_VECTOR } from "./core/math/Vector";
+
+// Button indices of the standard gamepad mapping, see
+// https://w3c.github.io/gamepad/#remapping
+export enum GamepadButton {
+    A = 0,
+    B = 1,
+    X = 2,
+    Y = 3,
+    LeftBumper = 4,
+    RightBumper = 5,
+    LeftTrigger = 6,
+    RightTrigger = 7,
+    Select = 8,
+    Start = 9,
+    LeftStick = 10,
+    RightStick = 11,
+    Up = 12,
+    Down = 13,
+    Left = 14,
+    Right = 15,
+}
+
+const BUTTON_NAMES: readonly string[] = [
+    "A",
+    "B",
+    "X",
+    "Y",
+    "LB",
+    "RB",
+    "LT",
+    "RT",
+    "SELECT",
+    "START",
+    "L3",
+    "R3",
+    "D-PAD ▲",
+    "D-PAD ▼",
+    "D-PAD ◄",
+    "D-PAD ►",
+];
+
+const AXIS_LEFT_X = 0;
+const AXIS_LEFT_Y = 1;
+
+// Share of the stick tilt that is ignored, because sticks seldom
+// return exactly to the center.
+export const DEFAULT_GAMEPAD_DEADZONE = 0.2;
+
+let deadzone = DEFAULT_GAMEPAD_DEADZONE;
+
+export interface GamepadState {
+    // Left stick, shorter than one when only partly tilted.
+    stick: Vector;
+    // Pressed state of each button, in the standard mapping.
+    buttons: readonly boolean[];
+}
+
+export const setGamepadDeadzone = (value: number): void => {
+    if (value < 0 || value >= 1) {
+        throw new Error(`Invalid gamepad deadzone: ${value}`);
+    }
+
+    deadzone = value;
+};
+
+export const getGamepadDeadzone = (): number => deadzone;
+
+const getGamepads = (): Gamepad[] => {
+    if (!("getGamepads" in navigator)) {
+        return [];
+    }
+
+    return navigator
+        .getGamepads()
+        .filter((pad): pad is Gamepad => pad != null && pad.connected);
+};
+
+/*
+ * Ignores a tilt within the deadzone and scales the rest so that the
+ * tilt goes from zero at the deadzone to one at the edge.
+ */
+export const applyDeadzone = (raw: Vector, deadzone: number): Vector => {
+    const tilt = length(raw);
+    if (tilt <= deadzone) {
+        return ZERO_VECTOR;
+    }
+
+    const scaledTilt = (Math.min(tilt, 1) - deadzone) / (1 - deadzone);
+    return multiply(raw, scaledTilt / tilt);
+};
+
+const getStick = (pad: Gamepad): Vector =>
+    applyDeadzone(
+        {
+            x: pad.axes[AXIS_LEFT_X] ?? 0,
+            y: pad.axes[AXIS_LEFT_Y] ?? 0,
+        },
+        deadzone,
+    );
+
+export const isGamepadConnected = (): boolean => getGamepads().length > 0;
+
+export const getGamepadCount = (): number => getGamepads().length;
+
+/*
+ * Reads the current state of a connected gamepad, the first one by
+ * default. Gamepads don't send events, so this must be called on
+ * every frame.
+ */
+export const getGamepadState = (index = 0): GamepadState | undefined => {
+    const pad = getGamepads()[index];
+    if (!pad) {
+        return undefined;
+    }
+
+    return {
+        stick: getStick(pad),
+        buttons: pad.buttons.map((button) => button.pressed),
+    };
+};
+
+export const getButtonName = (button: number): string =>
+    BUTTON_NAMES[button] ?? `BUTTON ${button}`;
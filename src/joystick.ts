@@ -0,0 +1,163 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Vector, ZERO_VECTOR } from "./core/math/Vector";
+import { ButtonStyles } from "./core/UI/HtmlButton";
+import { applyDeadzone } from "./gamepad";
+
+// Distance of a full tilt from the place where the touch started, in
+// CSS pixels.
+const JOYSTICK_RADIUS = 50;
+
+const JOYSTICK_DEADZONE = 0.15;
+
+let base: HTMLDivElement | undefined;
+let knob: HTMLDivElement | undefined;
+
+let isEnabled = false;
+
+// The touch that controls the joystick and where it started.
+let touchId: number | undefined;
+let origin: Vector = ZERO_VECTOR;
+
+let movement: Vector = ZERO_VECTOR;
+
+const createCircle = (id: string, size: number): HTMLDivElement => {
+    const circle = document.createElement("div");
+
+    circle.id = id;
+    circle.style.position = "absolute";
+    circle.style.zIndex = ButtonStyles.zIndex;
+    circle.style.width = `${size}px`;
+    circle.style.height = `${size}px`;
+    circle.style.marginLeft = `${-size / 2}px`;
+    circle.style.marginTop = `${-size / 2}px`;
+    circle.style.borderRadius = "50%";
+    circle.style.border = ButtonStyles.border;
+    circle.style.background = "rgba(50, 50, 50, 0.3)";
+    circle.style.pointerEvents = "none";
+    circle.style.display = "none";
+
+    return circle;
+};
+
+const placeCircle = (circle: HTMLDivElement, position: Vector): void => {
+    circle.style.left = `${position.x}px`;
+    circle.style.top = `${position.y}px`;
+};
+
+const release = (): void => {
+    touchId = undefined;
+    movement = ZERO_VECTOR;
+
+    if (base && knob) {
+        base.style.display = "none";
+        knob.style.display = "none";
+    }
+};
+
+const onTouchStart = (event: TouchEvent): void => {
+    if (!isEnabled || touchId != null) {
+        return;
+    }
+
+    // The joystick appears wherever the left half of the screen is
+    // touched.
+    const touch = Array.from(event.changedTouches).find(
+        (t) => t.clientX < window.innerWidth / 2,
+    );
+    if (!touch || !base || !knob) {
+        return;
+    }
+
+    event.preventDefault();
+
+    touchId = touch.identifier;
+    origin = { x: touch.clientX, y: touch.clientY };
+    movement = ZERO_VECTOR;
+
+    placeCircle(base, origin);
+    placeCircle(knob, origin);
+    base.style.display = "block";
+    knob.style.display = "block";
+};
+
+const onTouchMove = (event: TouchEvent): void => {
+    const touch = Array.from(event.changedTouches).find(
+        (t) => t.identifier === touchId,
+    );
+    if (!touch || !knob) {
+        return;
+    }
+
+    event.preventDefault();
+
+    const dx = touch.clientX - origin.x;
+    const dy = touch.clientY - origin.y;
+    const distance = Math.hypot(dx, dy);
+
+    // The knob stays on the edge when the finger goes further.
+    const scale = distance > JOYSTICK_RADIUS ? JOYSTICK_RADIUS / distance : 1;
+    placeCircle(knob, { x: origin.x + dx * scale, y: origin.y + dy * scale });
+
+    movement = applyDeadzone(
+        { x: dx / JOYSTICK_RADIUS, y: dy / JOYSTICK_RADIUS },
+        JOYSTICK_DEADZONE,
+    );
+};
+
+const onTouchEnd = (event: TouchEvent): void => {
+    if (
+        Array.from(event.changedTouches).some((t) => t.identifier === touchId)
+    ) {
+        release();
+    }
+};
+
+export const initializeJoystick = (): void => {
+    base = createCircle("joystickBase", 2 * JOYSTICK_RADIUS);
+    knob = createCircle("joystickKnob", JOYSTICK_RADIUS);
+    knob.style.background = ButtonStyles.color;
+
+    document.body.appendChild(base);
+    document.body.appendChild(knob);
+
+    window.addEventListener("touchstart", onTouchStart, { passive: false });
+    window.addEventListener("touchmove", onTouchMove, { passive: false });
+    window.addEventListener("touchend", onTouchEnd);
+    window.addEventListener("touchcancel", onTouchEnd);
+};
+
+export const setJoystickEnabled = (enabled: boolean): void => {
+    isEnabled = enabled;
+    if (!enabled) {
+        release();
+    }
+};
+
+/*
+ * Direction of the joystick, shorter than one when the finger is
+ * closer to where the touch started.
+ */
+export const getJoystickMovement = (): Vector => movement;
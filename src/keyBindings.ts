@@ -0,0 +1,324 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { loadItem, saveItem } from "./core/platform/storage";
+import { GamepadButton, getButtonName } from "./gamepad";
+
+const STORAGE_KEY = "13thguy.keyMap";
+
+/*
+ * Everything the player can do with a key or a gamepad button. New
+ * ones get their default bindings also when an older key map is
+ * loaded.
+ */
+export enum InputAction {
+    Up = "up",
+    Down = "down",
+    Left = "left",
+    Right = "right",
+    Jump = "jump",
+    Dive = "dive",
+    Grab = "grab",
+    Shove = "shove",
+    Confirm = "confirm",
+    Pause = "pause",
+}
+
+export const INPUT_ACTIONS: readonly InputAction[] = Object.values(InputAction);
+
+// Actions used in the menus. They can share the keys with the ones
+// used in the race, but not with each other.
+const MENU_ACTIONS: readonly InputAction[] = [InputAction.Confirm];
+
+// Actions that always keep a key, because the menus and the other
+// screens could not be used without them.
+const REQUIRED_ACTIONS: readonly InputAction[] = [
+    InputAction.Confirm,
+    InputAction.Pause,
+];
+
+// How many keys and gamepad buttons can be bound to one action.
+export const BINDING_SLOT_COUNT = 2;
+
+export interface ActionBinding {
+    // KeyboardEvent.code of each slot, or null when not bound.
+    keys: readonly (string | null)[];
+    // Standard gamepad mapping index of each slot.
+    buttons: readonly (number | null)[];
+}
+
+export type KeyMap = Readonly<Record<InputAction, ActionBinding>>;
+
+// The first keys are around the arrow keys and the second ones around
+// WASD, so that two players can share the keyboard on a split screen.
+const DEFAULT_KEY_MAP: KeyMap = {
+    [InputAction.Up]: {
+        keys: ["ArrowUp", "KeyW"],
+        buttons: [GamepadButton.Up, null],
+    },
+    [InputAction.Down]: {
+        keys: ["ArrowDown", "KeyS"],
+        buttons: [GamepadButton.Down, null],
+    },
+    [InputAction.Left]: {
+        keys: ["ArrowLeft", "KeyA"],
+        buttons: [GamepadButton.Left, null],
+    },
+    [InputAction.Right]: {
+        keys: ["ArrowRight", "KeyD"],
+        buttons: [GamepadButton.Right, null],
+    },
+    [InputAction.Jump]: {
+        keys: ["ControlRight", "Space"],
+        buttons: [GamepadButton.A, null],
+    },
+    [InputAction.Dive]: {
+        keys: ["ShiftRight", "ShiftLeft"],
+        buttons: [GamepadButton.B, null],
+    },
+    [InputAction.Grab]: {
+        keys: ["Slash", "KeyE"],
+        buttons: [GamepadButton.X, null],
+    },
+    [InputAction.Shove]: {
+        keys: ["Period", "KeyQ"],
+        buttons: [GamepadButton.Y, null],
+    },
+    [InputAction.Confirm]: {
+        keys: ["Enter", "NumpadEnter"],
+        buttons: [GamepadButton.A, GamepadButton.Start],
+    },
+    [InputAction.Pause]: {
+        keys: ["Escape", "KeyP"],
+        buttons: [GamepadButton.Start, null],
+    },
+};
+
+const isMenuAction = (action: InputAction): boolean =>
+    MENU_ACTIONS.includes(action);
+
+const toSlots = <T>(values: unknown, isValid: (v: unknown) => boolean): T[] =>
+    Array.from({ length: BINDING_SLOT_COUNT }, (_, i) => {
+        const value = Array.isArray(values) ? values[i] : null;
+        return (isValid(value) ? value : null) as T;
+    });
+
+const loadKeyMap = (): KeyMap => {
+    const saved =
+        loadItem<Partial<Record<InputAction, ActionBinding>>>(STORAGE_KEY);
+
+    const keyMap: Record<InputAction, ActionBinding> = { ...DEFAULT_KEY_MAP };
+    if (saved == null || typeof saved !== "object") {
+        return keyMap;
+    }
+
+    for (const action of INPUT_ACTIONS) {
+        const binding = saved[action];
+        if (!binding) {
+            continue;
+        }
+
+        const keys = toSlots<string | null>(
+            binding.keys,
+            (v) => typeof v === "string",
+        );
+        if (REQUIRED_ACTIONS.includes(action) && keys.every((k) => k == null)) {
+            continue;
+        }
+
+        keyMap[action] = {
+            keys,
+            buttons: toSlots(binding.buttons, Number.isInteger),
+        };
+    }
+
+    return keyMap;
+};
+
+let keyMap: KeyMap = loadKeyMap();
+
+export const getKeyMap = (): KeyMap => keyMap;
+
+const setKeyMap = (newKeyMap: KeyMap): void => {
+    keyMap = newKeyMap;
+    saveItem(STORAGE_KEY, keyMap);
+};
+
+export const resetKeyMap = (): void => {
+    setKeyMap(DEFAULT_KEY_MAP);
+};
+
+export const isKeyBound = (action: InputAction, code: string): boolean =>
+    keyMap[action].keys.includes(code);
+
+export const isButtonBound = (action: InputAction, button: number): boolean =>
+    keyMap[action].buttons.includes(button);
+
+/*
+ * Finds another action that would be triggered by the same key or
+ * button. Menu actions don't conflict with the race actions, because
+ * they are never used at the same time.
+ */
+export const findConflict = (
+    action: InputAction,
+    input: { key: string } | { button: number },
+): InputAction | undefined =>
+    INPUT_ACTIONS.find(
+        (other) =>
+            other !== action &&
+            isMenuAction(other) === isMenuAction(action) &&
+            ("key" in input
+                ? isKeyBound(other, input.key)
+                : isButtonBound(other, input.button)),
+    );
+
+const replaceSlot = <T>(
+    slots: readonly (T | null)[],
+    slot: number,
+    value: T | null,
+): (T | null)[] => slots.map((v, i) => (i === slot ? value : v));
+
+/*
+ * Binds a key to a slot of an action. Returns the conflicting action
+ * instead, if there is one.
+ */
+export const bindKey = (
+    action: InputAction,
+    slot: number,
+    code: string,
+): InputAction | undefined => {
+    const conflict = findConflict(action, { key: code });
+    if (conflict) {
+        return conflict;
+    }
+
+    const binding = keyMap[action];
+    setKeyMap({
+        ...keyMap,
+        [action]: { ...binding, keys: replaceSlot(binding.keys, slot, code) },
+    });
+    return undefined;
+};
+
+/*
+ * Binds a gamepad button to a slot of an action. Returns the
+ * conflicting action instead, if there is one.
+ */
+export const bindButton = (
+    action: InputAction,
+    slot: number,
+    button: number,
+): InputAction | undefined => {
+    const conflict = findConflict(action, { button });
+    if (conflict) {
+        return conflict;
+    }
+
+    const binding = keyMap[action];
+    setKeyMap({
+        ...keyMap,
+        [action]: {
+            ...binding,
+            buttons: replaceSlot(binding.buttons, slot, button),
+        },
+    });
+    return undefined;
+};
+
+/*
+ * Removes the key from a slot of an action. The last key to confirm
+ * or to pause is kept, because the game could not be continued
+ * without it.
+ */
+export const clearKey = (action: InputAction, slot: number): boolean => {
+    const binding = keyMap[action];
+    const keys = replaceSlot(binding.keys, slot, null);
+    if (
+        REQUIRED_ACTIONS.includes(action) &&
+        keys.every((code) => code == null)
+    ) {
+        return false;
+    }
+
+    setKeyMap({ ...keyMap, [action]: { ...binding, keys } });
+    return true;
+};
+
+export const clearButton = (action: InputAction, slot: number): void => {
+    const binding = keyMap[action];
+    setKeyMap({
+        ...keyMap,
+        [action]: {
+            ...binding,
+            buttons: replaceSlot(binding.buttons, slot, null),
+        },
+    });
+};
+
+const KEY_NAMES: Readonly<Record<string, string>> = {
+    ArrowUp: "▲",
+    ArrowDown: "▼",
+    ArrowLeft: "◄",
+    ArrowRight: "►",
+    ShiftLeft: "LEFT SHIFT",
+    ShiftRight: "RIGHT SHIFT",
+    ControlLeft: "LEFT CTRL",
+    ControlRight: "RIGHT CTRL",
+    AltLeft: "LEFT ALT",
+    AltRight: "RIGHT ALT",
+    NumpadEnter: "NUMPAD ENTER",
+    Escape: "ESC",
+};
+
+/*
+ * Name of a key for showing to the player, e.g. "W" for "KeyW".
+ */
+export const getKeyName = (code: string): string =>
+    KEY_NAMES[code] ?? code.replace(/^(Key|Digit)/, "").toUpperCase();
+
+/*
+ * Name of the first key bound to an action, for the short help texts.
+ */
+export const getFirstKeyName = (action: InputAction): string => {
+    const code = keyMap[action].keys.find((c) => c != null);
+    return code ? getKeyName(code) : "-";
+};
+
+/*
+ * Name of the first gamepad button bound to an action, for the short
+ * help texts.
+ */
+export const getFirstButtonName = (action: InputAction): string => {
+    const button = keyMap[action].buttons.find((b) => b != null);
+    return button != null ? getButtonName(button) : "-";
+};
+
+/*
+ * Names of the keys bound to an action, e.g. "▲ / W".
+ */
+export const getKeyNames = (action: InputAction): string =>
+    keyMap[action].keys
+        .filter((code): code is string => code != null)
+        .map(getKeyName)
+        .join(" / ") || "-";
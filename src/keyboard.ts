@@ -24,51 +24,23 @@
 
 import { playSound, Sound } from "./audio";
 
-// These must match the definitions in KeyboardEvent.code
-export type Key =
-    | "ArrowLeft"
-    | "ArrowRight"
-    | "ArrowUp"
-    | "ArrowDown"
-    | "KeyW"
-    | "KeyA"
-    | "KeyS"
-    | "KeyD";
-
-type KeysMutable = Record<Key, boolean>;
-
-export type Keys = Readonly<KeysMutable>;
-
-const createKeys = (): KeysMutable => ({
-    ["ArrowLeft"]: false,
-    ["ArrowRight"]: false,
-    ["ArrowUp"]: false,
-    ["ArrowDown"]: false,
-    ["KeyW"]: false,
-    ["KeyA"]: false,
-    ["KeyS"]: false,
-    ["KeyD"]: false,
-});
-
-let keys: KeysMutable = createKeys();
+// KeyboardEvent.code of every key that is down, so that any key can
+// be bound to an action.
+let pressedKeys = new Set<string>();
 
 const onKeyDown = (event: KeyboardEvent): void => {
-    if (event.code in keys) {
-        keys[event.code as Key] = true;
-    }
+    pressedKeys.add(event.code);
 };
 
 const onKeyUp = (event: KeyboardEvent): void => {
-    if (event.code in keys) {
-        keys[event.code as Key] = false;
-    }
+    pressedKeys.delete(event.code);
 };
 
 export const initializeKeyboard = (): void => {
     window.addEventListener("keydown", onKeyDown);
     window.addEventListener("keyup", onKeyUp);
     window.addEventListener("blur", () => {
-        keys = createKeys();
+        pressedKeys = new Set();
     });
 };
 
@@ -76,10 +48,14 @@ export const sleep = (ms: number) => {
     return new Promise((resolve) => setTimeout(resolve, ms));
 };
 
-export const waitForEnter = (soundToPlay?: Sound): Promise<void> => {
+export const waitForKey = (
+    codes: readonly (string | null)[],
+    soundToPlay?: Sound,
+    signal?: AbortSignal,
+): Promise<void> => {
     return new Promise((resolve) => {
         const listener = (event: KeyboardEvent): void => {
-            if (event.code === "Enter") {
+            if (codes.includes(event.code)) {
                 playSound(Sound.Keyboard);
                 if (soundToPlay) {
                     playSound(soundToPlay);
@@ -90,7 +66,11 @@ export const waitForEnter = (soundToPlay?: Sound): Promise<void> => {
         };
 
         window.addEventListener("keydown", listener);
+        signal?.addEventListener("abort", () =>
+            window.removeEventListener("keydown", listener),
+        );
     });
 };
 
-export const getKeys = (): Keys => keys;
+export const isKeyDown = (code: string | null): boolean =>
+    code != null && pressedKeys.has(code);
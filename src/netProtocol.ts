@@ -0,0 +1,269 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Character, CharacterAction } from "./Character";
+import { length, multiply, Vector } from "./core/math/Vector";
+import { TrackTemplate } from "./TrackElement";
+
+/*
+ * Messages between the race server and the browsers in a networked
+ * race, sent as JSON over a WebSocket.
+ *
+ * A client first joins and gets the race state back. Any client can
+ * then start a race. The races are the rounds of a tournament, and
+ * only the players who qualified race in the next round. During the race each client sends its input on
+ * every time step, and the server sends snapshots of the characters
+ * back. The race state is sent again whenever it changes.
+ */
+
+export const PROTOCOL_VERSION = 2;
+
+export const DEFAULT_SERVER_PORT = 8787;
+
+// The rest of the characters are controlled by the AI.
+export const MAX_NETWORK_PLAYERS = 8;
+
+// The server sends a snapshot of the race on every third time step.
+export const SNAPSHOT_INTERVAL_STEPS = 3;
+
+// Positions are rounded to keep the snapshots small.
+const POSITION_PRECISION = 1000;
+
+export enum RaceStatus {
+    Lobby = "lobby",
+    Running = "running",
+    Finished = "finished",
+    GameOver = "gameOver",
+}
+
+/*
+ * Everything needed for running the same race on the server and on
+ * the clients.
+ */
+export interface RaceSetup {
+    seed: number;
+    track: TrackTemplate;
+    playerWidthOffset: number;
+    playerHeightOffset: number;
+    // In the order they are given to the race.
+    playerIds: readonly number[];
+    aiCharacterIds: readonly number[];
+    // Rounds are numbered from 1.
+    roundNumber: number;
+    roundCount: number;
+    eliminationCount: number;
+}
+
+export interface JoinMessage {
+    type: "join";
+    version: number;
+}
+
+export interface StartMessage {
+    type: "start";
+}
+
+export interface InputMessage {
+    type: "input";
+    // Increases by one on every time step of the client.
+    seq: number;
+    movement: Vector;
+    action: CharacterAction;
+}
+
+export type ClientMessage = JoinMessage | StartMessage | InputMessage;
+
+export interface RaceStateMessage {
+    type: "raceState";
+    status: RaceStatus;
+    // The client's own player, or null if the client joined during
+    // the race.
+    playerId: number | null;
+    connectedCount: number;
+    // Not set in the lobby.
+    race?: RaceSetup;
+    // Set when the race is over.
+    qualifiedPlayerIds?: readonly number[];
+}
+
+export interface CharacterSnapshot {
+    id: number;
+    x: number;
+    y: number;
+    velocity: Vector;
+    direction: Vector;
+    rank: number;
+    finished: boolean;
+    eliminated: boolean;
+    fallStartTime?: number;
+    dropStartTime?: number;
+    jumpStartTime?: number;
+    diveStartTime?: number;
+}
+
+export interface SnapshotMessage {
+    type: "snapshot";
+    time: number;
+    // The latest input of the client that the server has used.
+    inputSeq: number;
+    characters: CharacterSnapshot[];
+}
+
+export interface ErrorMessage {
+    type: "error";
+    message: string;
+}
+
+export type ServerMessage = RaceStateMessage | SnapshotMessage | ErrorMessage;
+
+export const encodeMessage = (message: ClientMessage | ServerMessage): string =>
+    JSON.stringify(message);
+
+const isFiniteNumber = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value);
+
+const isCharacterAction = (value: unknown): value is CharacterAction =>
+    typeof value === "number" && CharacterAction[value] !== undefined;
+
+// Longer movement than from a fully tilted stick would make the
+// character run faster than the others.
+const limitMovement = (movement: Vector): Vector => {
+    const movementLength = length(movement);
+    return movementLength > 1
+        ? multiply(movement, 1 / movementLength)
+        : movement;
+};
+
+/*
+ * Throws an error if the data is not a valid message from a client.
+ * The server can't trust the clients, so everything is checked.
+ */
+export const parseClientMessage = (data: string): ClientMessage => {
+    const message: unknown = JSON.parse(data);
+    if (typeof message !== "object" || message === null) {
+        throw new Error("Invalid message");
+    }
+
+    const { type, version, seq, movement, action } = message as Record<
+        string,
+        unknown
+    >;
+
+    switch (type) {
+        case "join":
+            if (version !== PROTOCOL_VERSION) {
+                throw new Error(`Unsupported protocol version: ${version}`);
+            }
+            return { type, version };
+        case "start":
+            return { type };
+        case "input": {
+            const { x, y } = (movement ?? {}) as Record<string, unknown>;
+            if (
+                !Number.isInteger(seq) ||
+                !isFiniteNumber(x) ||
+                !isFiniteNumber(y) ||
+                !isCharacterAction(action)
+            ) {
+                throw new Error("Invalid input message");
+            }
+            return {
+                type,
+                seq: seq as number,
+                movement: limitMovement({ x, y }),
+                action,
+            };
+        }
+        default:
+            throw new Error(`Unknown message type: ${type}`);
+    }
+};
+
+/*
+ * Throws an error if the data is not a message from the server.
+ */
+export const parseServerMessage = (data: string): ServerMessage => {
+    const message = JSON.parse(data) as ServerMessage;
+
+    if (
+        message.type !== "raceState" &&
+        message.type !== "snapshot" &&
+        message.type !== "error"
+    ) {
+        throw new Error("Invalid message from the server");
+    }
+
+    return message;
+};
+
+const round = (value: number): number =>
+    Math.round(value * POSITION_PRECISION) / POSITION_PRECISION;
+
+const roundVector = ({ x, y }: Vector): Vector => ({
+    x: round(x),
+    y: round(y),
+});
+
+export const createCharacterSnapshot = (c: Character): CharacterSnapshot => ({
+    id: c.id,
+    x: round(c.x),
+    y: round(c.y),
+    velocity: roundVector(c.velocity),
+    direction: roundVector(c.getDirection()),
+    rank: c.rank,
+    finished: c.finished,
+    eliminated: c.eliminated,
+    fallStartTime: c.fallStartTime,
+    dropStartTime: c.dropStartTime,
+    jumpStartTime: c.jumpStartTime,
+    diveStartTime: c.diveStartTime,
+});
+
+/*
+ * Sets the standing of the character in the race but not where it
+ * is, e.g. for the client's own character, which it predicts itself.
+ */
+export const applyCharacterStatus = (
+    c: Character,
+    s: CharacterSnapshot,
+): void => {
+    c.rank = s.rank;
+    c.finished = s.finished;
+    c.eliminated = s.eliminated;
+};
+
+export const applyCharacterSnapshot = (
+    c: Character,
+    s: CharacterSnapshot,
+): void => {
+    applyCharacterStatus(c, s);
+    c.x = s.x;
+    c.y = s.y;
+    c.velocity = s.velocity;
+    c.setDirection(s.direction);
+    c.fallStartTime = s.fallStartTime;
+    c.dropStartTime = s.dropStartTime;
+    c.jumpStartTime = s.jumpStartTime;
+    c.diveStartTime = s.diveStartTime;
+};
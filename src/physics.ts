@@ -37,6 +37,7 @@ import {
     ZERO_VECTOR,
 } from "./core/math/Vector";
 import { GameObject } from "./GameObject";
+import { MovingObstacle } from "./MovingObstacle";
 
 /*
  * The maximum speed that an object can reach. The limit ensures that
@@ -52,6 +53,17 @@ const CHARACTER_STOP_ACCELERATION = 0.0006;
 
 const OBSTACLE_BOUNCE_FACTOR = 3;
 
+const SHOVE_SPEED = 0.3;
+
+// Share of the speed kept on every time step when holding on to
+// another character, or being held.
+const GRABBING_DRAG = 0.95;
+const GRABBED_DRAG = 0.9;
+
+// How close the characters must be to grab or shove each other,
+// relative to their widths.
+const REACH_FACTOR = 0.6;
+
 export function getMovementVelocity(
     c: GameObject,
     direction: Vector,
@@ -69,7 +81,11 @@ export function getMovementVelocity(
         return newVelocity;
     }
 
-    const currentSpeedInDirection = dotProduct(c.velocity, direction);
+    // A partly tilted analog stick gives a shorter direction for
+    // running slower.
+    const speedFactor = Math.min(length(direction), 1);
+    const currentSpeedInDirection =
+        dotProduct(c.velocity, direction) / speedFactor;
 
     const perpendicularDirection: Vector = {
         x: -direction.y,
@@ -81,7 +97,7 @@ export function getMovementVelocity(
     );
 
     let accDirectionAmount = CHARACTER_RUN_ACCELERATION * dt;
-    if (currentSpeedInDirection > CHARACTER_MAX_RUN_SPEED * dt) {
+    if (currentSpeedInDirection > CHARACTER_MAX_RUN_SPEED * speedFactor * dt) {
         accDirectionAmount = 0;
     }
 
@@ -146,6 +162,48 @@ export function calculateCollisionToObstacle(
     return false;
 }
 
+export function calculateCollisionToMovingObstacle(
+    a: GameObject,
+    obstacle: MovingObstacle,
+): boolean {
+    const centerA: Vector = {
+        x: a.x + a.width / 2,
+        y: a.y + a.height / 2,
+    };
+    const centerANext = add(centerA, a.velocity);
+    const nearest = obstacle.getNearestPoint(centerANext);
+
+    if (distance(centerANext, nearest) < a.width * 0.4 + obstacle.radius) {
+        const fromObstacle = subtract(centerA, nearest);
+        // Right on the obstacle, push back towards the start.
+        const directionFromObstacle = isZero(fromObstacle)
+            ? { x: 0, y: 1 }
+            : normalize(fromObstacle);
+        const speedToObstacle = dotProduct(a.velocity, directionFromObstacle);
+
+        // Bounce like from a static obstacle and get pushed along by
+        // the movement of the obstacle.
+        const bouncingVelocity = multiply(
+            directionFromObstacle,
+            Math.abs(Math.min(speedToObstacle, 0)) * OBSTACLE_BOUNCE_FACTOR,
+        );
+        const pushingVelocity = multiply(
+            obstacle.getVelocityAt(nearest),
+            obstacle.knockback,
+        );
+
+        let aNew = add(a.velocity, add(bouncingVelocity, pushingVelocity));
+        if (length(aNew) > MAX_SPEED) {
+            aNew = multiply(normalize(aNew), MAX_SPEED);
+        }
+
+        a.velocity = aNew;
+        return true;
+    }
+
+    return false;
+}
+
 export function calculateCollisionBetweenCharacters(
     a: GameObject,
     b: GameObject,
@@ -194,3 +252,42 @@ export function calculateCollisionBetweenCharacters(
 
     return false;
 }
+
+export function isWithinReach(a: GameObject, b: GameObject): boolean {
+    const centerA: Vector = {
+        x: a.x + a.width / 2,
+        y: a.y + a.height / 2,
+    };
+    const centerB: Vector = {
+        x: b.x + b.width / 2,
+        y: b.y + b.height / 2,
+    };
+
+    return distance(centerA, centerB) < (a.width + b.width) * REACH_FACTOR;
+}
+
+export function applyShove(a: GameObject, b: GameObject): void {
+    const centerA: Vector = {
+        x: a.x + a.width / 2,
+        y: a.y + a.height / 2,
+    };
+    const centerB: Vector = {
+        x: b.x + b.width / 2,
+        y: b.y + b.height / 2,
+    };
+
+    const direction = isZero(subtract(centerB, centerA))
+        ? { x: 0, y: -1 }
+        : normalize(subtract(centerB, centerA));
+
+    let bNew = add(b.velocity, multiply(direction, SHOVE_SPEED));
+    if (length(bNew) > MAX_SPEED) {
+        bNew = multiply(normalize(bNew), MAX_SPEED);
+    }
+    b.velocity = bNew;
+}
+
+export function applyGrab(a: GameObject, b: GameObject): void {
+    a.velocity = multiply(a.velocity, GRABBING_DRAG);
+    b.velocity = multiply(b.velocity, GRABBED_DRAG);
+}
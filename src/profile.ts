@@ -0,0 +1,253 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { loadItem, saveItem } from "./core/platform/storage";
+import { hashTrack } from "./Ghost";
+import { Race } from "./Race";
+import { TrackTemplate } from "./TrackElement";
+import { getBuiltInTrackVariants } from "./tracks";
+import { hasWonFinalRound, Tournament } from "./tournament";
+
+export const PROFILE_VERSION = 1;
+
+const STORAGE_KEY = "13thguy.profile";
+
+// Latest final ranks kept in the profile.
+const MAX_FINAL_RANK_COUNT = 20;
+
+// The profile follows the first player, like the replays and the
+// personal bests.
+export const PROFILE_PLAYER_ID = 0;
+
+/*
+ * Career of the player over all the tournaments played in the browser.
+ */
+export interface Profile {
+    version: number;
+    racesPlayed: number;
+    tournamentsPlayed: number;
+    tournamentsWon: number;
+    // Rank at the end of each tournament, the latest last.
+    finalRanks: number[];
+    thirteenthEliminations: number;
+    falls: number;
+    checkpointsReached: number;
+    // Best finish times by the name of the track, e.g. "FIRST 2".
+    bestTimes: Record<string, number>;
+}
+
+// A profile of any earlier version.
+type StoredProfile = { version: number } & Record<string, unknown>;
+
+/*
+ * Migrations from each version to the next one, by the version they
+ * migrate from. New fields get their default values anyway, so only
+ * changes to the existing data need a migration, e.g.
+ * 1: ({ falls, ...profile }) => ({ ...profile, fallCount: falls }).
+ */
+const MIGRATIONS: Record<number, (profile: StoredProfile) => StoredProfile> =
+    {};
+
+const createProfile = (): Profile => ({
+    version: PROFILE_VERSION,
+    racesPlayed: 0,
+    tournamentsPlayed: 0,
+    tournamentsWon: 0,
+    finalRanks: [],
+    thirteenthEliminations: 0,
+    falls: 0,
+    checkpointsReached: 0,
+    bestTimes: {},
+});
+
+const isStoredProfile = (value: unknown): value is StoredProfile =>
+    typeof value === "object" &&
+    value != null &&
+    typeof (value as StoredProfile).version === "number";
+
+const isCount = (value: unknown): value is number =>
+    Number.isInteger(value) && (value as number) >= 0;
+
+const isTime = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value) && value > 0;
+
+/*
+ * Fields of the wrong type, e.g. in a profile edited by hand, get
+ * their default values, and broken entries are left out of the lists.
+ */
+const sanitize = (stored: StoredProfile): Profile => {
+    const count = (key: keyof Profile): number => {
+        const value = stored[key];
+        return isCount(value) ? value : 0;
+    };
+    const { finalRanks, bestTimes } = stored;
+
+    return {
+        // A profile saved by a later version keeps its fields.
+        ...stored,
+        racesPlayed: count("racesPlayed"),
+        tournamentsPlayed: count("tournamentsPlayed"),
+        tournamentsWon: count("tournamentsWon"),
+        finalRanks: Array.isArray(finalRanks) ? finalRanks.filter(isCount) : [],
+        thirteenthEliminations: count("thirteenthEliminations"),
+        falls: count("falls"),
+        checkpointsReached: count("checkpointsReached"),
+        bestTimes:
+            typeof bestTimes === "object" &&
+            bestTimes != null &&
+            !Array.isArray(bestTimes)
+                ? Object.fromEntries(
+                      Object.entries(bestTimes).filter(([, time]) =>
+                          isTime(time),
+                      ),
+                  )
+                : {},
+    };
+};
+
+/*
+ * Brings a stored profile up to the version with the migrations, or
+ * returns undefined if it can't be read. The version and the
+ * migrations are the current ones by default.
+ */
+export const migrateProfile = (
+    stored: unknown,
+    version = PROFILE_VERSION,
+    migrations = MIGRATIONS,
+): Profile | undefined => {
+    if (!isStoredProfile(stored)) {
+        return undefined;
+    }
+
+    let profile = stored;
+    while (profile.version < version) {
+        const migration = migrations[profile.version];
+        if (!migration) {
+            return undefined;
+        }
+        profile = { ...migration(profile), version: profile.version + 1 };
+    }
+
+    // A profile saved by a later version keeps its version.
+    return sanitize(profile);
+};
+
+export const loadProfile = (): Profile => {
+    const stored = loadItem<unknown>(STORAGE_KEY);
+    const profile = migrateProfile(stored);
+    if (stored != null && !profile) {
+        console.warn("Could not read the profile, starting a new one");
+    }
+    return profile ?? createProfile();
+};
+
+export const saveProfile = (profile: Profile): boolean =>
+    saveItem(STORAGE_KEY, profile);
+
+// Names of the built-in tracks, by their hashes.
+let trackNames: Map<string, string> | undefined;
+
+// Only the built-in tracks have names, generated ones are never raced
+// again. The time trial and the practice are run on the built-in ones.
+const getTrackName = (track: TrackTemplate): string | undefined => {
+    trackNames ??= new Map(
+        getBuiltInTrackVariants().map(({ name, track }) => [
+            hashTrack(track),
+            name,
+        ]),
+    );
+    return trackNames.get(hashTrack(track));
+};
+
+const updateBestTime = (
+    profile: Profile,
+    track: TrackTemplate,
+    finishTime: number,
+): void => {
+    const trackName = getTrackName(track);
+    if (!trackName) {
+        return;
+    }
+
+    const best = profile.bestTimes[trackName];
+    if (best == null || finishTime < best) {
+        profile.bestTimes[trackName] = finishTime;
+    }
+};
+
+/*
+ * Adds a finish time from outside the tournaments to the profile,
+ * e.g. from the time trial.
+ */
+export const recordBestTime = (
+    track: TrackTemplate,
+    finishTime: number,
+): void => {
+    const profile = loadProfile();
+    updateBestTime(profile, track, finishTime);
+    saveProfile(profile);
+};
+
+/*
+ * Adds an ended race of a tournament to the profile. The tournament is
+ * over for the player after the final round or when eliminated.
+ */
+export const recordRace = (
+    race: Race,
+    track: TrackTemplate,
+    tournament: Tournament,
+    isFinalRound: boolean,
+): void => {
+    const player = race.players.find((p) => p.id === PROFILE_PLAYER_ID);
+    if (!player) {
+        return;
+    }
+
+    const profile = loadProfile();
+
+    profile.racesPlayed++;
+    profile.falls += player.fallCount;
+    profile.checkpointsReached += player.latestCheckpointIndex;
+    if (player.eliminatedAsThirteenth) {
+        profile.thirteenthEliminations++;
+    }
+
+    if (player.finished && player.finishTime != null) {
+        updateBestTime(profile, track, player.finishTime);
+    }
+
+    if (player.eliminated || isFinalRound) {
+        profile.tournamentsPlayed++;
+        if (isFinalRound && hasWonFinalRound(tournament, player)) {
+            profile.tournamentsWon++;
+        }
+        // The others keep on passing the eliminated 13th.
+        const finalRank = player.eliminatedAsThirteenth ? 13 : player.rank;
+        profile.finalRanks = [...profile.finalRanks, finalRank].slice(
+            -MAX_FINAL_RANK_COUNT,
+        );
+    }
+
+    saveProfile(profile);
+};
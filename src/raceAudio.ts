@@ -0,0 +1,91 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { playSound, Sound } from "./audio";
+import { CharacterAction } from "./Character";
+import { length } from "./core/math/Vector";
+import { Level } from "./Level";
+import { RaceEvent, RaceEventType } from "./raceEvents";
+import { BLOCK_HEIGHT } from "./TrackElement";
+
+const maxSfxDistance = 3 * BLOCK_HEIGHT;
+
+const getActionSound = (action: CharacterAction): Sound => {
+    switch (action) {
+        case CharacterAction.Jump:
+            return Sound.Jump;
+        case CharacterAction.Dive:
+            return Sound.Dive;
+        case CharacterAction.Grab:
+            return Sound.Bounce;
+        default:
+            return Sound.Hit;
+    }
+};
+
+const getSound = (event: RaceEvent): [Sound, number] | undefined => {
+    switch (event.type) {
+        case RaceEventType.Dropped:
+            return [Sound.Teleport, event.character.y];
+        case RaceEventType.CharacterCollision: {
+            const c = event.character;
+            // Check if character is the player or the velocity is bit larger in any direction to prevent too much sfx plays
+            return !c.ai || length(c.velocity) > 0.3
+                ? [Sound.Hit, c.y]
+                : undefined;
+        }
+        case RaceEventType.ObstacleHit:
+            return [Sound.Bounce, event.obstacle.y];
+        case RaceEventType.Action:
+            return !event.character.ai
+                ? [getActionSound(event.action), event.character.y]
+                : undefined;
+        default:
+            return undefined;
+    }
+};
+
+/*
+ * Plays the sounds of the race events, quieter the further away they
+ * are from the players on the screen.
+ */
+export const playRaceSounds = (level: Level): (() => void) =>
+    level.events.subscribe((event) => {
+        const sound = getSound(event);
+        if (!sound || level.muted) {
+            return;
+        }
+
+        // Heard by the nearest player on this screen
+        const [soundToPlay, y] = sound;
+        const yDistance = Math.min(
+            ...level
+                .getSoundListeners()
+                .map((listener) => Math.abs(y - listener.y)),
+        );
+        playSound(
+            soundToPlay,
+            Math.max(0, Math.min(1, 1 - yDistance / maxSfxDistance)),
+        );
+    });
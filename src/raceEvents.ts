@@ -0,0 +1,94 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Character, CharacterAction } from "./Character";
+import { GameObject } from "./GameObject";
+import { State } from "./Race";
+
+export enum RaceEventType {
+    Fell = "fell",
+    Dropped = "dropped",
+    ObstacleHit = "obstacleHit",
+    CharacterCollision = "characterCollision",
+    Action = "action",
+    CheckpointReached = "checkpointReached",
+    Finished = "finished",
+    Qualified = "qualified",
+    Eliminated = "eliminated",
+    Won = "won",
+    RaceFinished = "raceFinished",
+}
+
+interface CharacterEvent<T extends RaceEventType> {
+    type: T;
+    // Race time
+    time: number;
+    character: Character;
+}
+
+export interface ObstacleHitEvent
+    extends CharacterEvent<RaceEventType.ObstacleHit> {
+    obstacle: GameObject;
+}
+
+export interface CharacterCollisionEvent
+    extends CharacterEvent<RaceEventType.CharacterCollision> {
+    other: Character;
+}
+
+export interface ActionEvent extends CharacterEvent<RaceEventType.Action> {
+    action: CharacterAction;
+}
+
+export interface CheckpointReachedEvent
+    extends CharacterEvent<RaceEventType.CheckpointReached> {
+    checkpointIndex: number;
+}
+
+// The race is over for the players, either finished or game over.
+export interface RaceFinishedEvent {
+    type: RaceEventType.RaceFinished;
+    time: number;
+    state: State;
+}
+
+/*
+ * Something that happened in a race. Qualified and won are sent when
+ * the qualified characters are known.
+ */
+export type RaceEvent =
+    | CharacterEvent<RaceEventType.Fell>
+    | CharacterEvent<RaceEventType.Dropped>
+    | ObstacleHitEvent
+    | CharacterCollisionEvent
+    | ActionEvent
+    | CheckpointReachedEvent
+    | CharacterEvent<RaceEventType.Finished>
+    | CharacterEvent<RaceEventType.Qualified>
+    | CharacterEvent<RaceEventType.Eliminated>
+    | CharacterEvent<RaceEventType.Won>
+    | RaceFinishedEvent;
+
+// Events of the characters only
+export type CharacterRaceEvent = Exclude<RaceEvent, RaceFinishedEvent>;
@@ -0,0 +1,225 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { CharacterAction, MovementSource } from "./Character";
+import { Vector, ZERO_VECTOR } from "./core/math/Vector";
+import { TrackTemplate } from "./TrackElement";
+
+const REPLAY_VERSION = 5;
+
+// Movement is stored as integers. The same rounded values are used
+// also when recording so that the replay matches the original race.
+const INPUT_PRECISION = 1000;
+
+/*
+ * Everything needed for running a race again exactly as it happened.
+ */
+export interface Replay {
+    version: number;
+    seed: number;
+    // Stored as it is, so that changes to the track generator don't
+    // change the replay.
+    track: TrackTemplate;
+    playerWidthOffset: number;
+    playerHeightOffset: number;
+    // Not set for the first race of a tournament, which has all the
+    // characters.
+    aiCharacterIds?: readonly number[];
+    eliminationCount: number;
+    // Player movement and action of every time step, run-length
+    // encoded as [count, x, y, action].
+    inputs: readonly number[];
+    // Time step when the player reached each checkpoint, the first
+    // one being the start.
+    checkpointSteps: readonly number[];
+}
+
+export type ReplaySetup = Pick<
+    Replay,
+    | "seed"
+    | "track"
+    | "playerWidthOffset"
+    | "playerHeightOffset"
+    | "aiCharacterIds"
+    | "eliminationCount"
+>;
+
+const quantize = (value: number): number => Math.round(value * INPUT_PRECISION);
+
+const INPUT_SIZE = 4;
+
+const toVector = (x: number, y: number): Vector =>
+    x === 0 && y === 0
+        ? ZERO_VECTOR
+        : { x: x / INPUT_PRECISION, y: y / INPUT_PRECISION };
+
+/*
+ * Records the player input of a race. Acts also as the movement
+ * source of the player so that the race sees the input exactly as it
+ * gets recorded.
+ */
+export class ReplayRecorder implements MovementSource {
+    private setup: ReplaySetup;
+    private inputs: number[] = [];
+    private checkpointSteps: number[] = [0];
+    private stepCount = 0;
+    private movement: Vector = ZERO_VECTOR;
+    private action: CharacterAction = CharacterAction.None;
+
+    constructor(setup: ReplaySetup) {
+        this.setup = setup;
+    }
+
+    /*
+     * Records the input for the next time step of the race.
+     */
+    record(movement: Vector, action: CharacterAction): void {
+        const x = quantize(movement.x);
+        const y = quantize(movement.y);
+
+        const last = this.inputs.length - INPUT_SIZE;
+        if (
+            last >= 0 &&
+            this.inputs[last + 1] === x &&
+            this.inputs[last + 2] === y &&
+            this.inputs[last + 3] === action
+        ) {
+            this.inputs[last]++;
+        } else {
+            this.inputs.push(1, x, y, action);
+        }
+
+        this.movement = toVector(x, y);
+        this.action = action;
+        this.stepCount++;
+    }
+
+    /*
+     * Records the time step if the player has reached a new
+     * checkpoint.
+     */
+    recordCheckpoint(checkpointIndex: number): void {
+        while (this.checkpointSteps.length <= checkpointIndex) {
+            this.checkpointSteps.push(this.stepCount);
+        }
+    }
+
+    getMovement(): Vector {
+        return this.movement;
+    }
+
+    getAction(): CharacterAction {
+        return this.action;
+    }
+
+    getReplay(): Replay {
+        return {
+            version: REPLAY_VERSION,
+            ...this.setup,
+            inputs: [...this.inputs],
+            checkpointSteps: [...this.checkpointSteps],
+        };
+    }
+}
+
+/*
+ * Feeds the recorded player input back to the race, one time step at
+ * a time.
+ */
+export class ReplayInput implements MovementSource {
+    private inputs: readonly number[];
+    private runIndex = 0;
+    private stepsLeftInRun = 0;
+    private movement: Vector = ZERO_VECTOR;
+    private action: CharacterAction = CharacterAction.None;
+
+    readonly stepCount: number;
+    step = 0;
+
+    constructor(replay: Replay) {
+        this.inputs = replay.inputs;
+
+        let count = 0;
+        for (let i = 0; i < this.inputs.length; i += INPUT_SIZE) {
+            count += this.inputs[i];
+        }
+        this.stepCount = count;
+    }
+
+    isFinished(): boolean {
+        return this.step >= this.stepCount;
+    }
+
+    /*
+     * Moves to the input of the next time step.
+     */
+    next(): void {
+        if (this.stepsLeftInRun === 0) {
+            const i = this.runIndex * INPUT_SIZE;
+            this.stepsLeftInRun = this.inputs[i];
+            this.movement = toVector(this.inputs[i + 1], this.inputs[i + 2]);
+            this.action = this.inputs[i + 3];
+            this.runIndex++;
+        }
+
+        this.stepsLeftInRun--;
+        this.step++;
+    }
+
+    getMovement(): Vector {
+        return this.movement;
+    }
+
+    getAction(): CharacterAction {
+        return this.action;
+    }
+}
+
+export const encodeReplay = (replay: Replay): string =>
+    btoa(JSON.stringify(replay))
+        .replace(/\+/g, "-")
+        .replace(/\//g, "_")
+        .replace(/=+$/, "");
+
+/*
+ * Throws an error if the text is not a valid replay.
+ */
+export const decodeReplay = (text: string): Replay => {
+    const json = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+    const replay = JSON.parse(json) as Replay;
+
+    if (replay.version !== REPLAY_VERSION) {
+        throw new Error(`Unsupported replay version: ${replay.version}`);
+    }
+    if (
+        !Array.isArray(replay.track) ||
+        !Number.isInteger(replay.eliminationCount) ||
+        !Array.isArray(replay.inputs) ||
+        replay.inputs.length % INPUT_SIZE !== 0
+    ) {
+        throw new Error("Invalid replay");
+    }
+
+    return replay;
+};
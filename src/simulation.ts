@@ -0,0 +1,108 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/*
+ * Headless race simulation for balancing tracks and testing the AI in
+ * bulk. Does not depend on DOM or canvas, so it can be run in Node.
+ */
+
+import { Random } from "./core/math/random";
+import { Race, State, TIME_STEP } from "./Race";
+import { TrackTemplate } from "./TrackElement";
+import { generateTrack } from "./trackGenerator";
+import { buildTrackTemplate, TrackDefinition } from "./trackFormat";
+
+// Give up if a race takes longer than this, e.g. if the AI gets
+// stuck somewhere.
+const DEFAULT_MAX_TIME = 10 * 60 * 1000;
+
+export interface SimulationOptions {
+    seed: number;
+    // Which race of the tournament (1 - 3) to generate the track for.
+    raceNumber?: number;
+    // Overrides the track picked by the race number.
+    track?: TrackTemplate;
+    // E.g. a track read from a file, overrides the race number.
+    trackDefinition?: TrackDefinition;
+    dt?: number;
+    maxTime?: number;
+}
+
+export interface CharacterResult {
+    id: number;
+    rank: number;
+    finished: boolean;
+    eliminated: boolean;
+    finishTime: number | undefined;
+}
+
+export interface SimulationResult {
+    seed: number;
+    track: TrackTemplate;
+    // False if the race was stopped because of the time limit.
+    completed: boolean;
+    time: number;
+    characters: CharacterResult[];
+}
+
+export const simulateRace = (options: SimulationOptions): SimulationResult => {
+    const {
+        seed,
+        raceNumber = 1,
+        dt = TIME_STEP,
+        maxTime = DEFAULT_MAX_TIME,
+    } = options;
+
+    const rng = new Random(seed);
+    const track =
+        options.track ??
+        (options.trackDefinition
+            ? buildTrackTemplate(options.trackDefinition, rng)
+            : generateTrack(raceNumber, rng.randomInt(4294967296)));
+
+    // No player input, so every character is controlled by the AI.
+    const race = new Race(track, 1, 1, undefined, rng);
+
+    while (race.state === State.RUNNING && race.time < maxTime) {
+        race.update(dt);
+    }
+
+    const characters: CharacterResult[] = race.characters
+        .map((c) => ({
+            id: c.id,
+            rank: c.rank,
+            finished: c.finished,
+            eliminated: c.eliminated,
+            finishTime: c.finishTime,
+        }))
+        .sort((a, b) => a.rank - b.rank);
+
+    return {
+        seed,
+        track,
+        completed: race.state !== State.RUNNING,
+        time: race.time,
+        characters,
+    };
+};
@@ -39,6 +39,9 @@ const scaleFontSize = (textSize: TextSize): number => {
     return Math.floor(textSize * scale);
 };
 
+// Size of the relative "rem" units of the text positions in pixels.
+export const getRemUnitSize = (): number => scaleFontSize(TextSize.Tiny);
+
 export const renderText = (
     text: string,
     textSize: TextSize,
@@ -53,7 +56,7 @@ export const renderText = (
     cx.save();
 
     const fontSize = scaleFontSize(textSize);
-    const remUnitSize = scaleFontSize(TextSize.Tiny);
+    const remUnitSize = getRemUnitSize();
     cx.globalAlpha = Math.max(alpha, 0);
     cx.font = `${fontSize}px ${fontName}`;
 
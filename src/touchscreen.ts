@@ -69,7 +69,11 @@ export const listenTouch = (
     button.addEventListener("touchend", handleEnd);
 };
 
-export const waitForTap = (area?: Area, soundToPlay?: Sound): Promise<void> => {
+export const waitForTap = (
+    area?: Area,
+    soundToPlay?: Sound,
+    signal?: AbortSignal,
+): Promise<void> => {
     return new Promise((resolve) => {
         const listener = (e: TouchEvent): void => {
             // Prevent default behavior if the touch is on the canvas
@@ -104,6 +108,9 @@ export const waitForTap = (area?: Area, soundToPlay?: Sound): Promise<void> => {
 
         // Add listener to canvas instead of window
         canvas.addEventListener("touchstart", listener, { passive: false });
+        signal?.addEventListener("abort", () =>
+            canvas.removeEventListener("touchstart", listener),
+        );
     });
 };
 
@@ -111,6 +118,7 @@ export const waitForTap = (area?: Area, soundToPlay?: Sound): Promise<void> => {
 export const waitForTapAndPlaySound = (
     soundToPlay: Sound,
     area?: Area,
+    signal?: AbortSignal,
 ): Promise<void> => {
-    return waitForTap(area, soundToPlay);
+    return waitForTap(area, soundToPlay, signal);
 };
@@ -0,0 +1,229 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Random } from "./core/math/random";
+import { MAX_CHARACTER_COUNT } from "./Race";
+import { TrackTemplate } from "./TrackElement";
+import { getBuiltInTrack } from "./tracks";
+import { TrackGeneration } from "./trackGenerator";
+
+export enum TrackSource {
+    // A new track every time.
+    Generated = "generated",
+    // The same hand-made track every time.
+    BuiltIn = "builtIn",
+}
+
+export enum FinalRoundType {
+    // Eliminates like the other rounds, and everyone left wins.
+    Elimination = "elimination",
+    // The first one to finish wins, everybody else is eliminated.
+    WinnerTakesAll = "winnerTakesAll",
+}
+
+export interface RoundDefinition {
+    track: TrackSource;
+    // Length and difficulty of the track, 1 - 3, like the races of
+    // the original tournament.
+    trackLevel: number;
+    // Not used in a winner takes all final.
+    eliminationCount: number;
+}
+
+export interface Tournament {
+    name: string;
+    participantCount: number;
+    rounds: readonly RoundDefinition[];
+    finalRoundType: FinalRoundType;
+}
+
+const generated = (
+    trackLevel: number,
+    eliminationCount: number,
+): RoundDefinition => ({
+    track: TrackSource.Generated,
+    trackLevel,
+    eliminationCount,
+});
+
+const builtIn = (
+    trackLevel: number,
+    eliminationCount: number,
+): RoundDefinition => ({
+    track: TrackSource.BuiltIn,
+    trackLevel,
+    eliminationCount,
+});
+
+// 40 - 27 - 14 - 1, on the original hand-made tracks.
+export const CLASSIC_TOURNAMENT: Tournament = {
+    name: "CLASSIC",
+    participantCount: MAX_CHARACTER_COUNT,
+    rounds: [builtIn(1, 13), builtIn(2, 13), builtIn(3, 13)],
+    finalRoundType: FinalRoundType.Elimination,
+};
+
+// 20 - 10 - 1
+const SPRINT_TOURNAMENT: Tournament = {
+    name: "SPRINT",
+    participantCount: 20,
+    rounds: [generated(1, 10), generated(3, 0)],
+    finalRoundType: FinalRoundType.WinnerTakesAll,
+};
+
+// 40 - 32 - 25 - 18 - 12 - 6 - 1
+const CUP_TOURNAMENT: Tournament = {
+    name: "CUP",
+    participantCount: MAX_CHARACTER_COUNT,
+    rounds: [
+        generated(1, 8),
+        generated(1, 7),
+        generated(2, 7),
+        generated(2, 6),
+        generated(3, 6),
+        generated(3, 0),
+    ],
+    finalRoundType: FinalRoundType.WinnerTakesAll,
+};
+
+export const TOURNAMENTS: readonly Tournament[] = [
+    CLASSIC_TOURNAMENT,
+    SPRINT_TOURNAMENT,
+    CUP_TOURNAMENT,
+];
+
+/*
+ * Throws an error if the tournament can't be run, e.g. if the rounds
+ * would eliminate everyone.
+ */
+export const validateTournament = (tournament: Tournament): void => {
+    const { name, participantCount, rounds, finalRoundType } = tournament;
+
+    if (
+        !Number.isInteger(participantCount) ||
+        participantCount < 2 ||
+        participantCount > MAX_CHARACTER_COUNT
+    ) {
+        throw new Error(`${name}: invalid participant count`);
+    }
+    if (rounds.length === 0) {
+        throw new Error(`${name}: no rounds`);
+    }
+
+    let remaining = participantCount;
+    rounds.forEach((round, i) => {
+        const isFinal = i === rounds.length - 1;
+        if (isFinal && finalRoundType === FinalRoundType.WinnerTakesAll) {
+            return;
+        }
+
+        if (
+            !Number.isInteger(round.eliminationCount) ||
+            round.eliminationCount < 1 ||
+            round.eliminationCount >= remaining
+        ) {
+            throw new Error(
+                `${name}: invalid elimination count in round ${i + 1}`,
+            );
+        }
+        remaining -= round.eliminationCount;
+    });
+};
+
+export const getParticipantIds = (tournament: Tournament): number[] =>
+    Array.from({ length: tournament.participantCount }, (_, i) => i);
+
+// Rounds are numbered from 1.
+export const getRound = (
+    tournament: Tournament,
+    roundNumber: number,
+): RoundDefinition =>
+    tournament.rounds[
+        Math.min(Math.max(roundNumber, 1), tournament.rounds.length) - 1
+    ];
+
+export const isFinalRound = (
+    tournament: Tournament,
+    roundNumber: number,
+): boolean => roundNumber >= tournament.rounds.length;
+
+/*
+ * Tells if a character in the final round won the tournament: in an
+ * elimination final everyone left wins, otherwise only the first one.
+ */
+export const hasWonFinalRound = (
+    tournament: Tournament,
+    { eliminated, rank }: { eliminated: boolean; rank: number },
+): boolean =>
+    !eliminated &&
+    (tournament.finalRoundType === FinalRoundType.Elimination || rank === 1);
+
+/*
+ * Number of characters eliminated in the round when it starts with
+ * the given number of characters.
+ */
+export const getEliminationCount = (
+    tournament: Tournament,
+    roundNumber: number,
+    characterCount: number,
+): number => {
+    if (
+        isFinalRound(tournament, roundNumber) &&
+        tournament.finalRoundType === FinalRoundType.WinnerTakesAll
+    ) {
+        return characterCount - 1;
+    }
+
+    // Someone always qualifies, even if there are fewer characters
+    // than planned, e.g. after extra eliminations at the checkpoints.
+    return Math.min(
+        getRound(tournament, roundNumber).eliminationCount,
+        characterCount - 1,
+    );
+};
+
+/*
+ * Track of a round, made a part at a time like a TrackGeneration.
+ */
+export interface RoundTrack {
+    run(): TrackTemplate | undefined;
+    finish(): TrackTemplate;
+}
+
+export const startRoundTrack = (
+    round: RoundDefinition,
+    seed: number,
+): RoundTrack => {
+    if (round.track === TrackSource.Generated) {
+        return new TrackGeneration(round.trackLevel, seed);
+    }
+
+    const track = getBuiltInTrack(round.trackLevel, new Random(seed));
+    return { run: () => track, finish: () => track };
+};
+
+export const createRoundTrack = (
+    round: RoundDefinition,
+    seed: number,
+): TrackTemplate => startRoundTrack(round, seed).finish();
@@ -0,0 +1,324 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/*
+ * Versioned JSON format of the tracks, so that tracks can be written
+ * without touching the code. E.g.
+ *
+ *     {
+ *         "version": 1,
+ *         "name": "Example",
+ *         "elements": {
+ *             "Bridge": { "surfaces": [{ "col": 4, "width": 1 }] }
+ *         },
+ *         "sections": [
+ *             { "elements": ["Checkpoint", "Basic"] },
+ *             { "variants": [["Bridge", "Bridge"], ["Chasm", "Raft"]] },
+ *             { "elements": ["Finish"] }
+ *         ]
+ *     }
+ *
+ * Elements are referred by name, either from the "elements" of the
+ * file or from the built-in ones (TT).
+ */
+
+import { Random } from "./core/math/random";
+import {
+    BLOCK_COUNT,
+    ELEMENT_TEMPLATES,
+    ElementTemplate,
+    MovingObstacleTemplate,
+    SurfaceTemplate,
+    TrackTemplate,
+    TT,
+} from "./TrackElement";
+
+export const TRACK_FORMAT_VERSION = 1;
+
+/*
+ * Part of a track. A section has either fixed elements or variants
+ * of them. One variant number is picked randomly for every race, and
+ * all the sections of the track use the variant with that number.
+ */
+export type TrackSection =
+    | { elements: readonly string[] }
+    | { variants: readonly (readonly string[])[] };
+
+export interface TrackDefinition {
+    version: number;
+    name: string;
+    // Elements of this track, in addition to the built-in ones.
+    elements?: Readonly<Record<string, ElementTemplate>>;
+    sections: readonly TrackSection[];
+}
+
+const isBuiltInElement = (name: string): name is TT =>
+    Object.prototype.hasOwnProperty.call(ELEMENT_TEMPLATES, name);
+
+const getElement = (
+    definition: TrackDefinition,
+    name: string,
+): ElementTemplate | undefined => {
+    if (
+        definition.elements &&
+        Object.prototype.hasOwnProperty.call(definition.elements, name)
+    ) {
+        return definition.elements[name];
+    }
+
+    return isBuiltInElement(name) ? ELEMENT_TEMPLATES[name] : undefined;
+};
+
+export const getVariantCount = (definition: TrackDefinition): number =>
+    Math.max(
+        1,
+        ...definition.sections.map((s) =>
+            "variants" in s ? s.variants.length : 1,
+        ),
+    );
+
+const getElementNames = (
+    section: TrackSection,
+    variant: number,
+): readonly string[] =>
+    "variants" in section
+        ? section.variants[variant % section.variants.length]
+        : section.elements;
+
+/*
+ * Builds the track for a race, picking the variant with the random
+ * number generator of the race.
+ */
+export const buildTrackTemplate = (
+    definition: TrackDefinition,
+    rng: Random,
+): TrackTemplate =>
+    buildTrackVariant(
+        definition,
+        Math.floor(rng.random(1) * getVariantCount(definition)),
+    );
+
+export const buildTrackVariant = (
+    definition: TrackDefinition,
+    variant: number,
+): TrackTemplate =>
+    definition.sections.flatMap((section) =>
+        getElementNames(section, variant).map((name) => {
+            const element = getElement(definition, name);
+            if (!element) {
+                throw new Error(`Unknown track element: ${name}`);
+            }
+            return element;
+        }),
+    );
+
+const isNumber = (value: unknown): value is number =>
+    typeof value === "number" && isFinite(value);
+
+const isColumn = (value: unknown): boolean =>
+    isNumber(value) && 0 <= value && value < BLOCK_COUNT;
+
+const checkSurface = (name: string, surface: SurfaceTemplate): void => {
+    if (
+        !isColumn(surface.col) ||
+        !isNumber(surface.width) ||
+        surface.width <= 0 ||
+        surface.col + surface.width > BLOCK_COUNT ||
+        (surface.force != null && !isNumber(surface.force))
+    ) {
+        throw new Error(`Invalid surface in track element ${name}`);
+    }
+};
+
+const checkMovingObstacle = (
+    name: string,
+    obstacle: MovingObstacleTemplate,
+): void => {
+    if (
+        (obstacle.kind !== "sliding" &&
+            obstacle.kind !== "sweeper" &&
+            obstacle.kind !== "pendulum") ||
+        !isColumn(obstacle.col) ||
+        !isNumber(obstacle.width) ||
+        obstacle.width <= 0 ||
+        obstacle.col + obstacle.width > BLOCK_COUNT ||
+        (obstacle.phase != null && !isNumber(obstacle.phase))
+    ) {
+        throw new Error(`Invalid moving obstacle in track element ${name}`);
+    }
+};
+
+const checkElement = (name: string, element: ElementTemplate): void => {
+    if (
+        element == null ||
+        !Array.isArray(element.surfaces) ||
+        (element.type != null &&
+            element.type !== "checkpoint" &&
+            element.type !== "finish") ||
+        (element.obstacles != null &&
+            (!Array.isArray(element.obstacles) ||
+                !element.obstacles.every(isColumn))) ||
+        (element.movingObstacles != null &&
+            !Array.isArray(element.movingObstacles))
+    ) {
+        throw new Error(`Invalid track element ${name}`);
+    }
+
+    element.surfaces.forEach((s) => checkSurface(name, s));
+    element.movingObstacles?.forEach((o) => checkMovingObstacle(name, o));
+};
+
+/*
+ * Reads a track from JSON. Throws an error if the track is not valid.
+ */
+export const parseTrackDefinition = (json: string): TrackDefinition => {
+    const definition = JSON.parse(json) as TrackDefinition;
+
+    if (definition?.version !== TRACK_FORMAT_VERSION) {
+        throw new Error(
+            `Unsupported track format version: ${definition?.version}`,
+        );
+    }
+    if (typeof definition.name !== "string") {
+        throw new Error("Track has no name");
+    }
+    if (
+        !Array.isArray(definition.sections) ||
+        definition.sections.length === 0
+    ) {
+        throw new Error("Track has no sections");
+    }
+
+    Object.entries(definition.elements ?? {}).forEach(([name, element]) =>
+        checkElement(name, element),
+    );
+
+    definition.sections.forEach((section, i) => {
+        const lists =
+            "variants" in section ? section.variants : [section.elements];
+        if (!Array.isArray(lists) || lists.length === 0) {
+            throw new Error(`Invalid track section ${i}`);
+        }
+
+        lists.forEach((names) => {
+            if (!Array.isArray(names)) {
+                throw new Error(`Invalid track section ${i}`);
+            }
+            names.forEach((name) => {
+                if (!getElement(definition, name)) {
+                    throw new Error(`Unknown track element: ${name}`);
+                }
+            });
+        });
+    });
+
+    return definition;
+};
+
+/*
+ * Reads a track from JSON and builds it for a race.
+ */
+export const loadTrackTemplate = (json: string, rng: Random): TrackTemplate =>
+    buildTrackTemplate(parseTrackDefinition(json), rng);
+
+/*
+ * Name of the built-in element that is the same as the given one.
+ */
+export const getBuiltInElementName = (
+    element: ElementTemplate,
+): TT | undefined => {
+    const json = JSON.stringify(element);
+    return Object.values(TT).find(
+        (name) => JSON.stringify(ELEMENT_TEMPLATES[name]) === json,
+    );
+};
+
+/*
+ * Creates a track definition with one section from the elements of a
+ * track, e.g. one made in the track editor. Elements that are not
+ * built-in get named in the order they appear.
+ */
+export const createTrackDefinition = (
+    name: string,
+    template: TrackTemplate,
+): TrackDefinition => {
+    const elements: Record<string, ElementTemplate> = {};
+
+    const names = template.map((element) => {
+        const builtInName = getBuiltInElementName(element);
+        if (builtInName) {
+            return builtInName;
+        }
+
+        const json = JSON.stringify(element);
+        const existingName = Object.keys(elements).find(
+            (n) => JSON.stringify(elements[n]) === json,
+        );
+        if (existingName) {
+            return existingName;
+        }
+
+        const newName = `Custom${Object.keys(elements).length + 1}`;
+        elements[newName] = element;
+        return newName;
+    });
+
+    return {
+        version: TRACK_FORMAT_VERSION,
+        name,
+        elements,
+        sections: [{ elements: names }],
+    };
+};
+
+/*
+ * Writes a track as JSON. The built-in elements used in the track are
+ * included in the file, so that the file shows the whole track and
+ * can be used as a starting point for new tracks.
+ */
+export const exportTrackDefinition = (definition: TrackDefinition): string => {
+    const elements: Record<string, ElementTemplate> = {};
+
+    definition.sections.forEach((section) => {
+        const lists =
+            "variants" in section ? section.variants : [section.elements];
+        lists.flat().forEach((name) => {
+            const element = getElement(definition, name);
+            if (element) {
+                elements[name] = element;
+            }
+        });
+    });
+
+    return JSON.stringify(
+        {
+            version: TRACK_FORMAT_VERSION,
+            name: definition.name,
+            elements,
+            sections: definition.sections,
+        },
+        null,
+        4,
+    );
+};
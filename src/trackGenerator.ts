@@ -0,0 +1,385 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/*
+ * Generates tracks from rules instead of the fixed layouts, with the
+ * difficulty growing from race to race.
+ */
+
+import { Random } from "./core/math/random";
+import { ELEMENT_TEMPLATES, TrackTemplate, TT } from "./TrackElement";
+import { builtInTracks, getBuiltInTrack } from "./tracks";
+import {
+    buildTrackVariant,
+    getBuiltInElementName,
+    getVariantCount,
+} from "./trackFormat";
+import { TestRace, validateTrackTemplate } from "./trackValidation";
+
+interface RaceRules {
+    length: number;
+    // Average difficulty (0 - 1) of the elements. The elements get
+    // harder towards the end of the track.
+    difficulty: number;
+}
+
+// By the race number, like the built-in tracks.
+const RACE_RULES: readonly RaceRules[] = [
+    { length: 28, difficulty: 0.2 },
+    { length: 40, difficulty: 0.4 },
+    { length: 56, difficulty: 0.55 },
+];
+
+// Difficulty change from the start to the end of a track.
+const DIFFICULTY_RISE = 0.3;
+
+// Number of elements between checkpoints.
+const MIN_CHECKPOINT_SPACING = 8;
+const MAX_CHECKPOINT_SPACING = 14;
+// Number of elements between the last checkpoint and the finish.
+const MIN_FINISH_SPACING = 3;
+
+// Narrow elements slow down the crowd, so there can't be too many of
+// them in a row.
+const MAX_CONSECUTIVE_NARROW = 2;
+
+// Moving obstacles are best when there's room to dodge them.
+const MIN_MOVING_OBSTACLE_SPACING = 3;
+
+// Tries before giving up and using a built-in track.
+const MAX_ATTEMPTS = 20;
+// The test races take a while, so only a few of them are run.
+const MAX_TEST_RACES = 3;
+// Time steps of the test races run at a time, a few milliseconds of
+// work.
+const STEPS_PER_RUN = 100;
+
+const ELEMENT_DIFFICULTY: Readonly<Partial<Record<TT, number>>> = {
+    [TT.FullWidth]: 0,
+    [TT.Basic]: 0.1,
+    [TT.FullWidthWithObstaclesOnRight]: 0.25,
+    [TT.FullWidthWithObstaclesOnRight2]: 0.25,
+    [TT.BasicSlope]: 0.3,
+    [TT.DualPassageExt]: 0.3,
+    [TT.FullWidthWithObstacles]: 0.35,
+    [TT.Narrow]: 0.4,
+    [TT.DualPassage]: 0.4,
+    [TT.TriplePassage]: 0.4,
+    [TT.FullWidthWithSlidingBlocks]: 0.45,
+    [TT.BasicSteepSlope]: 0.5,
+    [TT.FullWidthWithMoreObstacles]: 0.5,
+    [TT.SlopeEmptyPassage]: 0.5,
+    [TT.PassageEmptySlope]: 0.5,
+    [TT.Raft]: 0.55,
+    // Gap to jump over
+    [TT.Chasm]: 0.55,
+    [TT.RightPassage]: 0.6,
+    [TT.SlopeEmptySlope]: 0.6,
+    [TT.FullWidthWithSweeper]: 0.6,
+    [TT.FullWidthWithPendulum]: 0.65,
+    [TT.VeryNarrow]: 0.7,
+    [TT.SlopeObstacleSlope]: 0.7,
+    [TT.TwoRafts]: 0.8,
+};
+
+const CANDIDATES = Object.keys(ELEMENT_DIFFICULTY) as TT[];
+
+const NARROW_ELEMENTS: readonly TT[] = [
+    TT.Narrow,
+    TT.VeryNarrow,
+    TT.RightPassage,
+];
+
+const MOVING_OBSTACLE_ELEMENTS: readonly TT[] = [
+    TT.FullWidthWithSlidingBlocks,
+    TT.FullWidthWithSweeper,
+    TT.FullWidthWithPendulum,
+];
+
+const RAFT_ELEMENTS: readonly TT[] = [TT.Raft, TT.TwoRafts];
+
+// Elements wide enough to take off from and to land on when jumping
+// over a gap.
+const JUMP_ELEMENTS: readonly TT[] = [TT.FullWidth, TT.Basic];
+
+// Checkpoints, the finish and the elements with moving obstacles are
+// like any full width element when it comes to getting on and off
+// them.
+const FULL_WIDTH_ELEMENTS: readonly TT[] = [
+    TT.Checkpoint,
+    TT.Finish,
+    TT.FullWidthWithSlidingBlocks,
+    TT.FullWidthWithSweeper,
+    TT.FullWidthWithPendulum,
+];
+
+const toTransitionElement = (tt: TT): TT =>
+    FULL_WIDTH_ELEMENTS.includes(tt) ? TT.FullWidth : tt;
+
+const getTransitionKey = (previous: TT, next: TT): string =>
+    `${toTransitionElement(previous)} ${toTransitionElement(next)}`;
+
+/*
+ * The transitions between elements that appear in the built-in
+ * tracks, where the AI is known to get through. Elements can have
+ * enough in common to walk through them and still be too hard for the
+ * AI, e.g. from a narrow element to a side passage.
+ */
+const findAllowedTransitions = (): Set<string> => {
+    const transitions = new Set<string>();
+
+    builtInTracks.forEach((definition) => {
+        for (let v = 0; v < getVariantCount(definition); v++) {
+            const names = buildTrackVariant(definition, v).map(
+                getBuiltInElementName,
+            );
+            for (let i = 1; i < names.length; i++) {
+                const previous = names[i - 1];
+                const next = names[i];
+                if (previous && next) {
+                    transitions.add(getTransitionKey(previous, next));
+                }
+            }
+        }
+    });
+
+    return transitions;
+};
+
+const allowedTransitions = findAllowedTransitions();
+
+const canFollow = (previous: TT, next: TT): boolean =>
+    allowedTransitions.has(getTransitionKey(previous, next));
+
+const pickWeighted = <T>(
+    items: readonly T[],
+    getWeight: (item: T) => number,
+    rng: Random,
+): T => {
+    const weights = items.map(getWeight);
+    let r = rng.random(weights.reduce((sum, w) => sum + w, 0));
+
+    for (let i = 0; i < items.length; i++) {
+        r -= weights[i];
+        if (r < 0) {
+            return items[i];
+        }
+    }
+    return items[items.length - 1];
+};
+
+const generateSequence = (rules: RaceRules, rng: Random): TT[] => {
+    const sequence: TT[] = [TT.Checkpoint];
+    let sinceCheckpoint = 0;
+    let checkpointSpacing = MIN_CHECKPOINT_SPACING;
+    let consecutiveNarrow = 0;
+    let sinceMovingObstacle = MIN_MOVING_OBSTACLE_SPACING;
+
+    let previous: TT = TT.Checkpoint;
+
+    while (sequence.length < rules.length - 1) {
+        if (
+            sinceCheckpoint >= checkpointSpacing &&
+            canFollow(previous, TT.Checkpoint) &&
+            // No checkpoint right before the finish
+            rules.length - 1 - sequence.length >= MIN_FINISH_SPACING
+        ) {
+            sequence.push(TT.Checkpoint);
+            previous = TT.Checkpoint;
+            sinceCheckpoint = 0;
+            checkpointSpacing =
+                MIN_CHECKPOINT_SPACING +
+                rng.randomInt(
+                    MAX_CHECKPOINT_SPACING - MIN_CHECKPOINT_SPACING + 1,
+                );
+            continue;
+        }
+
+        const progress = sequence.length / rules.length;
+        const targetDifficulty =
+            rules.difficulty + DIFFICULTY_RISE * (progress - 0.5);
+
+        let candidates = CANDIDATES.filter(
+            (tt) =>
+                (tt === TT.Chasm
+                    ? JUMP_ELEMENTS.includes(toTransitionElement(previous))
+                    : canFollow(previous, tt)) &&
+                !(
+                    NARROW_ELEMENTS.includes(tt) &&
+                    consecutiveNarrow >= MAX_CONSECUTIVE_NARROW
+                ) &&
+                !(
+                    MOVING_OBSTACLE_ELEMENTS.includes(tt) &&
+                    (sinceMovingObstacle < MIN_MOVING_OBSTACLE_SPACING ||
+                        previous === TT.Chasm)
+                ) &&
+                // The moving obstacles reach over the next elements
+                // and would knock the characters off the rafts.
+                !(
+                    RAFT_ELEMENTS.includes(tt) &&
+                    MOVING_OBSTACLE_ELEMENTS.includes(previous)
+                ) &&
+                // Raft and the chasm after it, or a gap and the
+                // landing after it, need room before the finish
+                !(
+                    (RAFT_ELEMENTS.includes(tt) || tt === TT.Chasm) &&
+                    sequence.length + 2 >= rules.length - 1
+                ),
+        );
+
+        if (candidates.length === 0) {
+            // Dead end, the AI can get anywhere from a full width
+            // element.
+            candidates = [TT.FullWidth];
+        }
+
+        const next = pickWeighted(
+            candidates,
+            (tt) =>
+                1 /
+                (0.05 +
+                    Math.abs((ELEMENT_DIFFICULTY[tt] ?? 0) - targetDifficulty)),
+            rng,
+        );
+
+        consecutiveNarrow = NARROW_ELEMENTS.includes(next)
+            ? consecutiveNarrow + 1
+            : 0;
+        sinceMovingObstacle = MOVING_OBSTACLE_ELEMENTS.includes(next)
+            ? 0
+            : sinceMovingObstacle + 1;
+
+        if (RAFT_ELEMENTS.includes(next)) {
+            // Raft must be followed by a chasm where it moves.
+            sequence.push(next, TT.Chasm);
+            sinceCheckpoint += 2;
+            previous = TT.Chasm;
+        } else if (next === TT.Chasm) {
+            sequence.push(next, TT.FullWidth);
+            sinceCheckpoint += 2;
+            previous = TT.FullWidth;
+        } else {
+            sequence.push(next);
+            sinceCheckpoint++;
+            previous = next;
+        }
+    }
+
+    if (!canFollow(previous, TT.Finish)) {
+        sequence.push(TT.FullWidth);
+    }
+    sequence.push(TT.Finish);
+    return sequence;
+};
+
+/*
+ * Generates a track for the given race (1 - 3) of a tournament. The
+ * track is always valid: if the rules produce a track that can't be
+ * completed, or the AI fails to complete in a test race, another one
+ * is tried.
+ *
+ * The test races take a while, so the track is generated a part at a
+ * time, e.g. on the screens between the races, and only the rest of
+ * it when the track is needed. The track is the same however the work
+ * is split.
+ */
+export class TrackGeneration {
+    private raceNumber: number;
+    private rng: Random;
+    private rules: RaceRules;
+    private attemptCount = 0;
+    private testRaceCount = 0;
+    private candidate: TrackTemplate | undefined;
+    private testRace: TestRace | undefined;
+    private track: TrackTemplate | undefined;
+
+    constructor(raceNumber: number, seed: number) {
+        this.raceNumber = raceNumber;
+        this.rng = new Random(seed);
+        this.rules =
+            RACE_RULES[
+                Math.min(Math.max(raceNumber, 1), RACE_RULES.length) - 1
+            ];
+    }
+
+    /*
+     * Does a part of the work. Returns the track once it is ready.
+     */
+    run(maxSteps = STEPS_PER_RUN): TrackTemplate | undefined {
+        let steps = 0;
+        while (!this.track && steps < maxSteps) {
+            if (this.testRace) {
+                steps += this.testRace.run(maxSteps - steps);
+                if (this.testRace.isOver()) {
+                    if (this.testRace.isTrackCompleted()) {
+                        this.track = this.candidate;
+                    }
+                    this.testRace = undefined;
+                }
+            } else {
+                this.startTestRace();
+            }
+        }
+        return this.track;
+    }
+
+    /*
+     * Does the rest of the work right away.
+     */
+    finish(): TrackTemplate {
+        let track: TrackTemplate | undefined;
+        while (!track) {
+            track = this.run(Infinity);
+        }
+        return track;
+    }
+
+    private startTestRace(): void {
+        while (
+            this.attemptCount < MAX_ATTEMPTS &&
+            this.testRaceCount < MAX_TEST_RACES
+        ) {
+            this.attemptCount++;
+            const candidate = generateSequence(this.rules, this.rng).map(
+                (tt) => ELEMENT_TEMPLATES[tt],
+            );
+            if (validateTrackTemplate(candidate).length === 0) {
+                this.testRaceCount++;
+                this.candidate = candidate;
+                this.testRace = new TestRace(
+                    candidate,
+                    this.rng.randomInt(4294967296),
+                );
+                return;
+            }
+        }
+
+        this.track = getBuiltInTrack(this.raceNumber, this.rng);
+    }
+}
+
+export const generateTrack = (
+    raceNumber: number,
+    seed: number,
+): TrackTemplate => new TrackGeneration(raceNumber, seed).finish();
@@ -0,0 +1,263 @@
+/*
+ * Copyright (c) 2026 Tero Jäntti, Sami Heikkinen
+ *
+ * Permission is hereby granted, free of charge, to any person
+ * obtaining a copy of this software and associated documentation
+ * files (the "Software"), to deal in the Software without
+ * restriction, including without limitation the rights to use, copy,
+ * modify, merge, publish, distribute, sublicense, and/or sell copies
+ * of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be
+ * included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+ * EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+ * MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND
+ * NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS
+ * BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN
+ * ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/*
+ * Checks that a track can be completed, i.e. that the AI does not get
+ * stuck on it for good.
+ */
+
+import { Random } from "./core/math/random";
+import { Map } from "./Map";
+import { Race, State, TIME_STEP, TRACK_START_Y } from "./Race";
+import { Track } from "./Track";
+import {
+    BLOCK_COUNT,
+    BlockType,
+    TrackElementType,
+    TrackTemplate,
+} from "./TrackElement";
+import {
+    buildTrackVariant,
+    getVariantCount,
+    TrackDefinition,
+} from "./trackFormat";
+
+const BOTTOM = 0;
+const TOP = 1;
+
+// A test race of a few AI characters, of which most must finish in
+// the time given for each element of the track.
+const TEST_RACE_CHARACTER_COUNT = 10;
+const TEST_RACE_FINISHER_COUNT = 7;
+const TEST_RACE_TIME_PER_ELEMENT = 5000;
+
+export interface TrackProblem {
+    row: number;
+    reason: string;
+}
+
+const isWalkable = (map: Map, row: number, col: number): boolean => {
+    const block = map.getBlock(row, col);
+    return (
+        block.type === BlockType.Raft ||
+        block.type === BlockType.Obstacle ||
+        (block.type === BlockType.Free && map.isFree(row, col))
+    );
+};
+
+/*
+ * Finds the blocks that can be reached by walking or jumping from the
+ * first row.
+ * Returns a set of row * BLOCK_COUNT + col.
+ *
+ * An obstacle fills only the middle of its block, so the block can't
+ * be crossed from the bottom to the top, but the characters can go
+ * around the obstacle through the blocks beside it. That's why the
+ * bottom and the top half of every block are searched separately.
+ */
+const findReachableBlocks = (map: Map, rowCount: number): Set<number> => {
+    const reachable = new Set<number>();
+    const visited = new Set<number>();
+    const queue: [number, number, number][] = [];
+
+    const visit = (row: number, col: number, half: number): void => {
+        const key = (row * BLOCK_COUNT + col) * 2 + half;
+        if (
+            0 <= row &&
+            row < rowCount &&
+            0 <= col &&
+            col < BLOCK_COUNT &&
+            !visited.has(key) &&
+            isWalkable(map, row, col)
+        ) {
+            visited.add(key);
+            reachable.add(row * BLOCK_COUNT + col);
+            queue.push([row, col, half]);
+        }
+    };
+
+    for (let col = 0; col < BLOCK_COUNT; col++) {
+        visit(0, col, BOTTOM);
+    }
+
+    for (let i = 0; i < queue.length; i++) {
+        const [row, col, half] = queue[i];
+
+        if (map.getBlock(row, col).type !== BlockType.Obstacle) {
+            visit(row, col, half === BOTTOM ? TOP : BOTTOM);
+        }
+        if (half === TOP) {
+            visit(row + 1, col, BOTTOM);
+            if (map.getBlock(row + 1, col).type === BlockType.Empty) {
+                // Jump over the gap
+                visit(row + 2, col, BOTTOM);
+            }
+        } else {
+            visit(row - 1, col, TOP);
+        }
+        visit(row, col + 1, half);
+        visit(row, col - 1, half);
+    }
+
+    return reachable;
+};
+
+/*
+ * Returns the problems found in the track, in the order of the rows.
+ * The track is fine if there are none.
+ */
+export const validateTrack = (track: Track): TrackProblem[] => {
+    const rowCount = track.elementCount;
+    const reachable = findReachableBlocks(track, rowCount);
+
+    const isRowReachable = (row: number): boolean => {
+        for (let col = 0; col < BLOCK_COUNT; col++) {
+            if (reachable.has(row * BLOCK_COUNT + col)) {
+                return true;
+            }
+        }
+        return false;
+    };
+
+    const isRowEmpty = (row: number): boolean => {
+        for (let col = 0; col < BLOCK_COUNT; col++) {
+            if (track.getBlock(row, col).type !== BlockType.Empty) {
+                return false;
+            }
+        }
+        return true;
+    };
+
+    const problems: TrackProblem[] = [];
+    let isPathBroken = false;
+
+    for (let row = 0; row < rowCount; row++) {
+        // A single empty row is a gap to jump over.
+        if (
+            isRowEmpty(row) &&
+            (row === 0 ||
+                row === rowCount - 1 ||
+                isRowEmpty(row - 1) ||
+                isRowEmpty(row + 1))
+        ) {
+            problems.push({ row, reason: "No surface and no raft" });
+        }
+
+        if (!isPathBroken && !isRowReachable(row) && !isRowEmpty(row)) {
+            // The rows after this one can't be reached either, so
+            // only the first one is reported.
+            isPathBroken = true;
+            problems.push({ row, reason: "No walkable path to this row" });
+        }
+
+        const { type } = track.get(row);
+        if (type === TrackElementType.CheckPoint && !isRowReachable(row)) {
+            problems.push({ row, reason: "Checkpoint can't be reached" });
+        }
+        if (type === TrackElementType.Finish && !isRowReachable(row)) {
+            problems.push({ row, reason: "Finish can't be reached" });
+        }
+    }
+
+    if (track.get(rowCount - 1).type !== TrackElementType.Finish) {
+        problems.push({ row: rowCount - 1, reason: "Track has no finish" });
+    }
+
+    return problems;
+};
+
+export const formatTrackProblem = ({ row, reason }: TrackProblem): string =>
+    `Row ${row + 1}: ${reason}`;
+
+export const validateTrackTemplate = (
+    template: TrackTemplate,
+): TrackProblem[] =>
+    // Random positions of the rafts do not matter here.
+    validateTrack(new Track(template, TRACK_START_Y, new Random(0)));
+
+/*
+ * Checks every variant of the track. Returns the problems by the
+ * variant number.
+ */
+export const validateTrackDefinition = (
+    definition: TrackDefinition,
+): TrackProblem[][] => {
+    const problems: TrackProblem[][] = [];
+    for (let variant = 0; variant < getVariantCount(definition); variant++) {
+        problems.push(
+            validateTrackTemplate(buildTrackVariant(definition, variant)),
+        );
+    }
+    return problems;
+};
+
+/*
+ * A short race of AI characters on the track. Finds the tracks that
+ * pass the checks above but are too hard to complete in practice,
+ * e.g. when the AI keeps falling at the same place. Can be run a few
+ * time steps at a time, so that the game keeps running meanwhile.
+ */
+export class TestRace {
+    private race: Race;
+    private maxTime: number;
+
+    constructor(template: TrackTemplate, seed: number) {
+        this.race = new Race(
+            template,
+            1,
+            1,
+            Array.from({ length: TEST_RACE_CHARACTER_COUNT }, (_, i) => i),
+            new Random(seed),
+        );
+        this.race.eliminationCount =
+            TEST_RACE_CHARACTER_COUNT - TEST_RACE_FINISHER_COUNT;
+        this.maxTime = template.length * TEST_RACE_TIME_PER_ELEMENT;
+    }
+
+    isOver(): boolean {
+        return (
+            this.race.state !== State.RUNNING || this.race.time >= this.maxTime
+        );
+    }
+
+    /*
+     * Runs at most the given number of time steps. Returns the number
+     * of steps run.
+     */
+    run(maxSteps: number): number {
+        let steps = 0;
+        while (steps < maxSteps && !this.isOver()) {
+            this.race.update(TIME_STEP);
+            steps++;
+        }
+        return steps;
+    }
+
+    isTrackCompleted(): boolean {
+        return (
+            this.race.characters.filter((c) => c.finished).length >=
+            TEST_RACE_FINISHER_COUNT
+        );
+    }
+}
@@ -22,8 +22,15 @@
  * SOFTWARE.
  */
 
-import { random } from "./core/math/random";
-import { TT } from "./TrackElement";
+import { Random } from "./core/math/random";
+import { TrackTemplate, TT } from "./TrackElement";
+import {
+    buildTrackTemplate,
+    buildTrackVariant,
+    getVariantCount,
+    TRACK_FORMAT_VERSION,
+    TrackDefinition,
+} from "./trackFormat";
 
 const simpleTrack1: readonly TT[] = [
     TT.FullWidthWithObstacles,
@@ -57,17 +64,20 @@ const simpleTrack3: readonly TT[] = [
     TT.FullWidth,
 ];
 
-export function getFirstTrack(): readonly TT[] {
-    const randomizer = random(1);
-    return [
-        TT.Checkpoint,
-        ...(randomizer < 0.5 ? simpleTrack1 : simpleTrack2),
-        TT.Checkpoint,
-        ...(randomizer < 0.5 ? simpleTrack2 : simpleTrack1),
-        TT.Checkpoint,
-        ...simpleTrack3,
-        TT.Finish,
-    ];
+export const firstTrack: TrackDefinition = {
+    version: TRACK_FORMAT_VERSION,
+    name: "First",
+    sections: [
+        { elements: [TT.Checkpoint] },
+        { variants: [simpleTrack1, simpleTrack2] },
+        { elements: [TT.Checkpoint] },
+        { variants: [simpleTrack2, simpleTrack1] },
+        { elements: [TT.Checkpoint, ...simpleTrack3, TT.Finish] },
+    ],
+};
+
+export function getFirstTrack(rng: Random): TrackTemplate {
+    return buildTrackTemplate(firstTrack, rng);
 }
 
 const secondTrack1: readonly TT[] = [
@@ -112,15 +122,20 @@ const secondTrack2: readonly TT[] = [
     TT.Chasm,
 ];
 
-export function getSecondTrack(): readonly TT[] {
-    const randomizer = random(1);
-    return [
-        TT.Checkpoint,
-        ...(randomizer < 0.5 ? secondTrack1 : secondTrack2),
-        TT.Checkpoint,
-        ...(randomizer < 0.5 ? secondTrack2 : secondTrack1),
-        TT.Finish,
-    ];
+export const secondTrack: TrackDefinition = {
+    version: TRACK_FORMAT_VERSION,
+    name: "Second",
+    sections: [
+        { elements: [TT.Checkpoint] },
+        { variants: [secondTrack1, secondTrack2] },
+        { elements: [TT.Checkpoint] },
+        { variants: [secondTrack2, secondTrack1] },
+        { elements: [TT.Finish] },
+    ],
+};
+
+export function getSecondTrack(rng: Random): TrackTemplate {
+    return buildTrackTemplate(secondTrack, rng);
 }
 
 const thirdTrack1: readonly TT[] = [
@@ -189,17 +204,59 @@ const thirdTrack4: readonly TT[] = [
     TT.Chasm,
 ];
 
-export function getThirdTrack(): readonly TT[] {
-    const randomizer = random(1);
-    return [
-        TT.Checkpoint,
-        ...(randomizer < 0.5 ? thirdTrack1 : thirdTrack2),
-        TT.Checkpoint,
-        ...(randomizer < 0.5 ? thirdTrack2 : thirdTrack1),
-        TT.Checkpoint,
-        ...(randomizer < 0.5 ? thirdTrack3 : thirdTrack4),
-        TT.Checkpoint,
-        ...(randomizer < 0.5 ? thirdTrack4 : thirdTrack3),
-        TT.Finish,
-    ];
+export const thirdTrack: TrackDefinition = {
+    version: TRACK_FORMAT_VERSION,
+    name: "Third",
+    sections: [
+        { elements: [TT.Checkpoint] },
+        { variants: [thirdTrack1, thirdTrack2] },
+        { elements: [TT.Checkpoint] },
+        { variants: [thirdTrack2, thirdTrack1] },
+        { elements: [TT.Checkpoint] },
+        { variants: [thirdTrack3, thirdTrack4] },
+        { elements: [TT.Checkpoint] },
+        { variants: [thirdTrack4, thirdTrack3] },
+        { elements: [TT.Finish] },
+    ],
+};
+
+export function getThirdTrack(rng: Random): TrackTemplate {
+    return buildTrackTemplate(thirdTrack, rng);
+}
+
+// The tracks of a tournament, in order.
+export const builtInTracks: readonly TrackDefinition[] = [
+    firstTrack,
+    secondTrack,
+    thirdTrack,
+];
+
+export interface TrackVariant {
+    // E.g. "FIRST 2"
+    name: string;
+    track: TrackTemplate;
+}
+
+// Every variant of the built-in tracks.
+export function getBuiltInTrackVariants(): TrackVariant[] {
+    return builtInTracks.flatMap((definition) =>
+        Array.from({ length: getVariantCount(definition) }, (_, variant) => ({
+            name: `${definition.name.toUpperCase()} ${variant + 1}`,
+            track: buildTrackVariant(definition, variant),
+        })),
+    );
+}
+
+export function getBuiltInTrack(
+    raceNumber: number,
+    rng: Random,
+): TrackTemplate {
+    switch (raceNumber) {
+        case 2:
+            return getSecondTrack(rng);
+        case 3:
+            return getThirdTrack(rng);
+        default:
+            return getFirstTrack(rng);
+    }
 }
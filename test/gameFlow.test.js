@@ -0,0 +1,187 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { useSources } from "./sources.js";
+
+// Tests of the game flow, run headlessly in Node like the simulation:
+//
+//     npm test
+
+const load = useSources();
+
+let GameState;
+let GAME_STATE_TRANSITIONS;
+let createGameFlow;
+let StateMachine;
+
+before(async () => {
+    ({ GameState, GAME_STATE_TRANSITIONS, createGameFlow } =
+        await load("/src/gameFlow.ts"));
+    ({ StateMachine } = await load("/src/core/gameplay/StateMachine.ts"));
+});
+
+const createFlowAt = (state, handlers = {}) =>
+    new StateMachine(state, GAME_STATE_TRANSITIONS, handlers);
+
+describe("game flow", () => {
+    it("starts from loading", () => {
+        assert.equal(createGameFlow({}).state, GameState.Load);
+    });
+
+    it("has transitions from every state", () => {
+        for (const state of Object.values(GameState)) {
+            assert.ok(
+                GAME_STATE_TRANSITIONS[state].length > 0,
+                `No transitions from ${state}`,
+            );
+        }
+    });
+
+    it("makes every transition of the table", () => {
+        for (const [from, targets] of Object.entries(GAME_STATE_TRANSITIONS)) {
+            for (const to of targets) {
+                const flow = createFlowAt(from);
+                assert.ok(flow.canTransition(to));
+                flow.transition(to);
+                assert.equal(flow.state, to);
+            }
+        }
+    });
+
+    it("rejects the transitions missing from the table", () => {
+        for (const [from, targets] of Object.entries(GAME_STATE_TRANSITIONS)) {
+            for (const to of Object.values(GameState)) {
+                if (targets.includes(to)) {
+                    continue;
+                }
+
+                const flow = createFlowAt(from);
+                assert.equal(flow.canTransition(to), false);
+                assert.throws(() => flow.transition(to), {
+                    message: `No transition from ${from} to ${to}`,
+                });
+                assert.equal(flow.state, from);
+            }
+        }
+    });
+
+    it("plays a tournament through", () => {
+        const flow = createGameFlow({});
+        const visited = [];
+        flow.onTransition = (_from, to) => {
+            visited.push(to);
+        };
+
+        [
+            GameState.Init,
+            GameState.Start,
+            GameState.Wait,
+            GameState.RaceStarting,
+            GameState.Ready,
+            GameState.Running,
+            GameState.Paused,
+            GameState.Running,
+            GameState.GameFinished,
+            GameState.Ready,
+            GameState.Running,
+            GameState.GameOver,
+            GameState.Start,
+        ].forEach((state) => flow.transition(state));
+
+        assert.equal(visited.length, 13);
+        assert.equal(flow.state, GameState.Start);
+    });
+
+    it("starts over from every state after the first interaction", () => {
+        for (const state of Object.values(GameState)) {
+            const flow = createFlowAt(state);
+            assert.equal(
+                flow.canTransition(GameState.Start),
+                state !== GameState.Load,
+                state,
+            );
+        }
+    });
+
+    it("enters the start screen again when starting over on it", () => {
+        const signals = [];
+        const flow = createFlowAt(GameState.Start, {
+            [GameState.Start]: {
+                enter: (signal) => {
+                    signals.push(signal);
+                },
+            },
+        });
+
+        flow.transition(GameState.Start);
+        flow.transition(GameState.Start);
+
+        assert.equal(signals.length, 2);
+        assert.equal(signals[0].aborted, true);
+        assert.equal(signals[1].aborted, false);
+    });
+
+    it("cancels the enter hook when the state is left", async () => {
+        const calls = [];
+        let startSignal;
+        let waitForInput;
+
+        const flow = createFlowAt(GameState.Start, {
+            [GameState.Start]: {
+                exit: () => {
+                    calls.push("exit start");
+                },
+            },
+            [GameState.Wait]: {
+                enter: (signal) => {
+                    startSignal = signal;
+                    calls.push("enter wait");
+                    // Like waiting for the input to start the race
+                    waitForInput = new Promise((resolve) =>
+                        signal.addEventListener("abort", () =>
+                            resolve(signal.aborted),
+                        ),
+                    );
+                },
+                exit: () => {
+                    calls.push("exit wait");
+                },
+            },
+        });
+        flow.onTransition = (from, to) => {
+            calls.push(`${from} -> ${to}`);
+        };
+
+        flow.transition(GameState.Wait);
+        assert.equal(startSignal.aborted, false);
+
+        flow.transition(GameState.RaceStarting);
+        assert.equal(startSignal.aborted, true);
+        assert.equal(await waitForInput, true);
+
+        assert.deepEqual(calls, [
+            "exit start",
+            "start -> wait",
+            "enter wait",
+            "exit wait",
+            "wait -> raceStarting",
+        ]);
+    });
+
+    it("gives every state its own signal", () => {
+        const signals = [];
+        const enter = (signal) => {
+            signals.push(signal);
+        };
+        const flow = createFlowAt(GameState.Running, {
+            [GameState.Paused]: { enter },
+            [GameState.Running]: { enter },
+        });
+
+        flow.transition(GameState.Paused);
+        flow.transition(GameState.Running);
+
+        assert.equal(signals.length, 2);
+        assert.equal(signals[0].aborted, true);
+        assert.equal(signals[1].aborted, false);
+    });
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { useFakeStorage, useSources } from "./sources.js";
+
+// Tests of saving the ghosts of the personal bests and finding them
+// for the rounds of a tournament.
+
+const load = useSources();
+
+let CLASSIC_TOURNAMENT;
+let TOURNAMENTS;
+let createRoundTrack;
+let getRound;
+let GhostRecorder;
+let hashTrack;
+let hasRoundGhost;
+let loadGhostPath;
+let saveGhostPathIfBest;
+
+before(async () => {
+    ({ CLASSIC_TOURNAMENT, TOURNAMENTS, createRoundTrack, getRound } =
+        await load("/src/tournament.ts"));
+    ({
+        GhostRecorder,
+        hashTrack,
+        hasRoundGhost,
+        loadGhostPath,
+        saveGhostPathIfBest,
+    } = await load("/src/Ghost.ts"));
+});
+
+// Path of a player running straight up the track.
+const recordPath = (track, finishTime) => {
+    const recorder = new GhostRecorder(track, 1.2, 1.1);
+    for (let t = 0; t <= finishTime; t += 100) {
+        recorder.record(t, { x: 1, y: 400 - t / 10, fallStartTime: undefined });
+    }
+    return recorder.getPath(finishTime);
+};
+
+// Plays tournaments until the track of the round comes up again.
+const findSameRoundTrack = (round, track) => {
+    for (let seed = 1; seed < 1000; seed++) {
+        const next = createRoundTrack(round, seed);
+        if (hashTrack(next) === hashTrack(track)) {
+            return next;
+        }
+    }
+    return undefined;
+};
+
+describe("ghost", () => {
+    it("is kept only for the rounds on the built-in tracks", () => {
+        for (const tournament of TOURNAMENTS) {
+            for (const round of tournament.rounds) {
+                assert.equal(hasRoundGhost(round), round.track === "builtIn");
+            }
+        }
+        assert.ok(CLASSIC_TOURNAMENT.rounds.every(hasRoundGhost));
+    });
+
+    it("is loaded when the track of a tournament round comes up again", () => {
+        useFakeStorage();
+
+        for (let roundNumber = 1; roundNumber <= 3; roundNumber++) {
+            const round = getRound(CLASSIC_TOURNAMENT, roundNumber);
+            const track = createRoundTrack(round, 1000 + roundNumber);
+            const path = recordPath(track, 40000);
+            assert.ok(saveGhostPathIfBest(path));
+
+            const sameTrack = findSameRoundTrack(round, track);
+            assert.ok(sameTrack, `No same track in round ${roundNumber}`);
+            assert.deepEqual(loadGhostPath(sameTrack), path);
+        }
+    });
+
+    it("keeps only the best time", () => {
+        useFakeStorage();
+        const track = createRoundTrack(getRound(CLASSIC_TOURNAMENT, 1), 7);
+
+        assert.ok(saveGhostPathIfBest(recordPath(track, 50000)));
+        assert.ok(!saveGhostPathIfBest(recordPath(track, 60000)));
+        assert.equal(loadGhostPath(track).finishTime, 50000);
+        assert.ok(saveGhostPathIfBest(recordPath(track, 45000)));
+        assert.equal(loadGhostPath(track).finishTime, 45000);
+    });
+
+    it("is not loaded for another track", () => {
+        useFakeStorage();
+        const first = createRoundTrack(getRound(CLASSIC_TOURNAMENT, 1), 7);
+        const third = createRoundTrack(getRound(CLASSIC_TOURNAMENT, 3), 7);
+
+        saveGhostPathIfBest(recordPath(first, 50000));
+        assert.equal(loadGhostPath(third), undefined);
+    });
+});
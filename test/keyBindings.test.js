@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import { before, beforeEach, describe, it } from "node:test";
+import { useFakeStorage, useSources } from "./sources.js";
+
+// Tests of binding the actions to keys and gamepad buttons.
+
+const load = useSources();
+const storage = useFakeStorage();
+
+let GamepadButton;
+let InputAction;
+let bindButton;
+let bindKey;
+let clearKey;
+let findConflict;
+let getFirstButtonName;
+let getFirstKeyName;
+let getKeyMap;
+let getKeyNames;
+let isKeyBound;
+let resetKeyMap;
+
+before(async () => {
+    ({ GamepadButton } = await load("/src/gamepad.ts"));
+    ({
+        InputAction,
+        bindButton,
+        bindKey,
+        clearKey,
+        findConflict,
+        getFirstButtonName,
+        getFirstKeyName,
+        getKeyMap,
+        getKeyNames,
+        isKeyBound,
+        resetKeyMap,
+    } = await load("/src/keyBindings.ts"));
+});
+
+beforeEach(() => {
+    resetKeyMap();
+});
+
+describe("findConflict", () => {
+    it("finds another race action with the same key", () => {
+        assert.equal(
+            findConflict(InputAction.Jump, { key: "KeyE" }),
+            InputAction.Grab,
+        );
+        assert.equal(
+            findConflict(InputAction.Up, { key: "KeyP" }),
+            InputAction.Pause,
+        );
+    });
+
+    it("finds another race action with the same button", () => {
+        assert.equal(
+            findConflict(InputAction.Jump, { button: GamepadButton.X }),
+            InputAction.Grab,
+        );
+    });
+
+    it("lets the menu actions share the keys of the race actions", () => {
+        assert.equal(
+            findConflict(InputAction.Confirm, { key: "Space" }),
+            undefined,
+        );
+        assert.equal(
+            findConflict(InputAction.Jump, { key: "Enter" }),
+            undefined,
+        );
+        assert.equal(
+            findConflict(InputAction.Confirm, { button: GamepadButton.A }),
+            undefined,
+        );
+    });
+
+    it("finds no conflict with the action itself or a free key", () => {
+        assert.equal(
+            findConflict(InputAction.Jump, { key: "Space" }),
+            undefined,
+        );
+        assert.equal(
+            findConflict(InputAction.Jump, { key: "KeyJ" }),
+            undefined,
+        );
+    });
+});
+
+describe("bindKey", () => {
+    it("binds a free key to the slot", () => {
+        assert.equal(bindKey(InputAction.Jump, 1, "KeyJ"), undefined);
+
+        assert.deepEqual(getKeyMap()[InputAction.Jump].keys, [
+            "ControlRight",
+            "KeyJ",
+        ]);
+        assert.ok(isKeyBound(InputAction.Jump, "KeyJ"));
+        assert.ok(!isKeyBound(InputAction.Jump, "Space"));
+        assert.equal(getKeyNames(InputAction.Jump), "RIGHT CTRL / J");
+    });
+
+    it("saves the bindings", () => {
+        bindKey(InputAction.Confirm, 1, "KeyJ");
+
+        const saved = JSON.parse(storage.get("13thguy.keyMap"));
+        assert.deepEqual(saved[InputAction.Confirm].keys, ["Enter", "KeyJ"]);
+    });
+
+    it("returns the conflict and keeps the bindings", () => {
+        const keyMap = getKeyMap();
+
+        assert.equal(bindKey(InputAction.Jump, 1, "KeyW"), InputAction.Up);
+        assert.equal(getKeyMap(), keyMap);
+        assert.ok(!isKeyBound(InputAction.Jump, "KeyW"));
+    });
+
+    it("binds gamepad buttons the same way", () => {
+        assert.equal(
+            bindButton(InputAction.Dive, 1, GamepadButton.Y),
+            InputAction.Shove,
+        );
+        assert.equal(bindButton(InputAction.Dive, 1, 7), undefined);
+        assert.deepEqual(getKeyMap()[InputAction.Dive].buttons, [
+            GamepadButton.B,
+            7,
+        ]);
+    });
+});
+
+describe("clearKey", () => {
+    it("removes the key of the slot", () => {
+        assert.ok(clearKey(InputAction.Jump, 0));
+        assert.ok(clearKey(InputAction.Jump, 1));
+        assert.equal(getKeyNames(InputAction.Jump), "-");
+    });
+
+    it("keeps the last key to confirm and to pause", () => {
+        for (const action of [InputAction.Confirm, InputAction.Pause]) {
+            assert.ok(clearKey(action, 1));
+            assert.ok(!clearKey(action, 0));
+            assert.equal(
+                getKeyMap()[action].keys.filter((key) => key != null).length,
+                1,
+            );
+        }
+    });
+});
+
+describe("getFirstKeyName and getFirstButtonName", () => {
+    it("name the first input bound to the action", () => {
+        assert.equal(getFirstKeyName(InputAction.Pause), "ESC");
+        assert.equal(getFirstButtonName(InputAction.Grab), "X");
+
+        clearKey(InputAction.Grab, 0);
+        bindButton(InputAction.Grab, 0, 7);
+
+        assert.equal(getFirstKeyName(InputAction.Grab), "E");
+        assert.equal(getFirstButtonName(InputAction.Grab), "RT");
+    });
+});
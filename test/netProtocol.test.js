@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { useSources } from "./sources.js";
+
+// Tests of reading the messages of the networked races.
+
+const load = useSources();
+
+let PROTOCOL_VERSION;
+let encodeMessage;
+let parseClientMessage;
+let parseServerMessage;
+
+before(async () => {
+    ({
+        PROTOCOL_VERSION,
+        encodeMessage,
+        parseClientMessage,
+        parseServerMessage,
+    } = await load("/src/netProtocol.ts"));
+});
+
+const parse = (message) => parseClientMessage(JSON.stringify(message));
+
+describe("parseClientMessage", () => {
+    it("reads a join of the same protocol version", () => {
+        assert.deepEqual(
+            parse({ type: "join", version: PROTOCOL_VERSION, extra: 1 }),
+            { type: "join", version: PROTOCOL_VERSION },
+        );
+    });
+
+    it("rejects a join of another protocol version", () => {
+        assert.throws(
+            () => parse({ type: "join", version: PROTOCOL_VERSION + 1 }),
+            /Unsupported protocol version/,
+        );
+        assert.throws(
+            () => parse({ type: "join" }),
+            /Unsupported protocol version/,
+        );
+    });
+
+    it("reads a start", () => {
+        assert.deepEqual(parse({ type: "start" }), { type: "start" });
+    });
+
+    it("reads an input", () => {
+        const input = {
+            type: "input",
+            seq: 7,
+            movement: { x: 0.5, y: -0.5 },
+            action: 1,
+        };
+        assert.deepEqual(parse(input), input);
+    });
+
+    it("limits the movement of an input to a full tilt", () => {
+        const { movement } = parse({
+            type: "input",
+            seq: 1,
+            movement: { x: 30, y: -40 },
+            action: 0,
+        });
+        assert.deepEqual(movement, { x: 0.6, y: -0.8 });
+    });
+
+    it("rejects a broken input", () => {
+        const input = {
+            type: "input",
+            seq: 1,
+            movement: { x: 0, y: -1 },
+            action: 0,
+        };
+        for (const broken of [
+            { ...input, seq: 1.5 },
+            { ...input, seq: "1" },
+            { ...input, movement: undefined },
+            { ...input, movement: { x: "0", y: -1 } },
+            { ...input, action: 99 },
+            { ...input, action: "Jump" },
+        ]) {
+            assert.throws(() => parse(broken), /Invalid input message/);
+        }
+    });
+
+    it("rejects anything else", () => {
+        assert.throws(() => parse({ type: "snapshot" }), /Unknown message/);
+        assert.throws(() => parse(null), /Invalid message/);
+        assert.throws(() => parse(5), /Invalid message/);
+        assert.throws(() => parseClientMessage("{"), SyntaxError);
+    });
+});
+
+describe("parseServerMessage", () => {
+    it("reads the messages of the server", () => {
+        for (const message of [
+            { type: "raceState", status: "lobby", playerId: null },
+            { type: "snapshot", time: 100, inputSeq: 3, characters: [] },
+            { type: "error", message: "Not joined" },
+        ]) {
+            assert.deepEqual(
+                parseServerMessage(encodeMessage(message)),
+                message,
+            );
+        }
+    });
+
+    it("rejects the messages of a client", () => {
+        assert.throws(
+            () => parseServerMessage(encodeMessage({ type: "start" })),
+            /Invalid message from the server/,
+        );
+    });
+});
@@ -0,0 +1,186 @@
+import assert from "node:assert/strict";
+import { afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import { useFakeStorage, useSources } from "./sources.js";
+
+// Tests of reading the career profile saved in the browser.
+
+const load = useSources();
+const storage = useFakeStorage();
+
+let PROFILE_VERSION;
+let loadProfile;
+let migrateProfile;
+let saveProfile;
+
+before(async () => {
+    ({ PROFILE_VERSION, loadProfile, migrateProfile, saveProfile } =
+        await load("/src/profile.ts"));
+});
+
+let warn;
+
+beforeEach(() => {
+    storage.clear();
+    warn = mock.method(console, "warn", () => {});
+});
+
+afterEach(() => {
+    mock.restoreAll();
+});
+
+const STORAGE_KEY = "13thguy.profile";
+
+const createStoredProfile = (fields) => ({
+    version: PROFILE_VERSION,
+    racesPlayed: 12,
+    tournamentsPlayed: 4,
+    tournamentsWon: 1,
+    finalRanks: [13, 2, 1],
+    thirteenthEliminations: 2,
+    falls: 7,
+    checkpointsReached: 30,
+    bestTimes: { "FIRST 1": 41234 },
+    ...fields,
+});
+
+const without = (object, ...keys) =>
+    Object.fromEntries(
+        Object.entries(object).filter(([key]) => !keys.includes(key)),
+    );
+
+const createNewProfile = () =>
+    createStoredProfile({
+        racesPlayed: 0,
+        tournamentsPlayed: 0,
+        tournamentsWon: 0,
+        finalRanks: [],
+        thirteenthEliminations: 0,
+        falls: 0,
+        checkpointsReached: 0,
+        bestTimes: {},
+    });
+
+describe("loadProfile", () => {
+    it("starts a new profile when nothing is saved", () => {
+        assert.deepEqual(loadProfile(), createNewProfile());
+        assert.equal(warn.mock.callCount(), 0);
+    });
+
+    it("reads the saved profile", () => {
+        const profile = createStoredProfile();
+        assert.ok(saveProfile(profile));
+
+        assert.deepEqual(loadProfile(), profile);
+    });
+
+    it("starts a new profile when the saved one is not JSON", () => {
+        storage.set(STORAGE_KEY, "{ broken");
+
+        assert.deepEqual(loadProfile(), createNewProfile());
+        assert.ok(warn.mock.callCount() > 0);
+    });
+
+    it("starts a new profile when the saved one is not a profile", () => {
+        for (const stored of ["[]", "42", '"profile"', "{}"]) {
+            storage.set(STORAGE_KEY, stored);
+            assert.deepEqual(loadProfile(), createNewProfile());
+        }
+    });
+
+    it("uses the defaults for the fields of the wrong type", () => {
+        storage.set(
+            STORAGE_KEY,
+            JSON.stringify(
+                createStoredProfile({
+                    racesPlayed: "12",
+                    tournamentsWon: -1,
+                    falls: 1.5,
+                    checkpointsReached: null,
+                    finalRanks: [13, "2", null, 1],
+                    bestTimes: { "FIRST 1": 41234, "FIRST 2": "fast" },
+                }),
+            ),
+        );
+
+        assert.deepEqual(
+            loadProfile(),
+            createStoredProfile({
+                racesPlayed: 0,
+                tournamentsWon: 0,
+                falls: 0,
+                checkpointsReached: 0,
+                finalRanks: [13, 1],
+            }),
+        );
+    });
+
+    it("starts a new profile from a version it can't migrate", () => {
+        storage.set(
+            STORAGE_KEY,
+            JSON.stringify(createStoredProfile({ version: 0 })),
+        );
+
+        assert.deepEqual(loadProfile(), createNewProfile());
+        assert.equal(warn.mock.callCount(), 1);
+    });
+
+    it("keeps a profile of a later version as it is", () => {
+        const profile = createStoredProfile({
+            version: PROFILE_VERSION + 1,
+            medals: 3,
+        });
+        saveProfile(profile);
+
+        assert.deepEqual(loadProfile(), profile);
+    });
+});
+
+// E.g. the falls renamed and counted per race in the next version.
+const migrateToNextVersion = (profile) =>
+    migrateProfile(profile, PROFILE_VERSION + 1, {
+        [PROFILE_VERSION]: ({ falls, ...rest }) => ({
+            ...rest,
+            fallsPerRace: falls / rest.racesPlayed,
+        }),
+    });
+
+describe("migrateProfile", () => {
+    it("brings an older profile up to the version", () => {
+        // The falls of the older version are gone.
+        assert.deepEqual(
+            migrateToNextVersion(createStoredProfile()),
+            createStoredProfile({
+                version: PROFILE_VERSION + 1,
+                fallsPerRace: 7 / 12,
+                falls: 0,
+            }),
+        );
+    });
+
+    it("fills in the fields added since the stored version", () => {
+        const stored = without(
+            createStoredProfile(),
+            "thirteenthEliminations",
+            "bestTimes",
+        );
+
+        assert.deepEqual(
+            migrateToNextVersion(stored),
+            migrateToNextVersion(
+                createStoredProfile({
+                    thirteenthEliminations: 0,
+                    bestTimes: {},
+                }),
+            ),
+        );
+    });
+
+    it("does not read a profile without a migration", () => {
+        assert.equal(
+            migrateProfile(createStoredProfile({ version: 0 })),
+            undefined,
+        );
+        assert.equal(migrateProfile(null), undefined);
+        assert.equal(migrateProfile({ racesPlayed: 1 }), undefined);
+    });
+});
@@ -0,0 +1,209 @@
+import assert from "node:assert/strict";
+import { afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import { useSources } from "./sources.js";
+
+// Tests of running the networked races, with connections that keep
+// the messages and timers that run only when told to.
+
+const load = useSources();
+
+let RaceServer;
+let PROTOCOL_VERSION;
+let RaceStatus;
+let TIME_STEP;
+let TrackSource;
+let FinalRoundType;
+
+before(async () => {
+    ({ RaceServer } = await load("/src/RaceServer.ts"));
+    ({ PROTOCOL_VERSION, RaceStatus } = await load("/src/netProtocol.ts"));
+    ({ TIME_STEP } = await load("/src/Race.ts"));
+    ({ TrackSource, FinalRoundType } = await load("/src/tournament.ts"));
+});
+
+let now;
+
+beforeEach(() => {
+    now = 0;
+    mock.method(performance, "now", () => now);
+    mock.timers.enable({ apis: ["setInterval"] });
+});
+
+afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+});
+
+const connect = (server) => {
+    const connection = {
+        messages: [],
+        isClosed: false,
+        send: (data) => connection.messages.push(JSON.parse(data)),
+        close: () => {
+            connection.isClosed = true;
+        },
+    };
+    server.connect(connection);
+    return connection;
+};
+
+const send = (server, connection, message) =>
+    server.receive(connection, JSON.stringify(message));
+
+const join = (server) => {
+    const connection = connect(server);
+    send(server, connection, { type: "join", version: PROTOCOL_VERSION });
+    return connection;
+};
+
+const latest = (connection, type) =>
+    connection.messages.findLast((m) => m.type === type);
+
+// Runs the race on the server until it is over.
+const runRace = (connection, maxSteps = 20000) => {
+    for (let step = 0; step < maxSteps; step += 5) {
+        now += 5 * TIME_STEP;
+        mock.timers.tick(TIME_STEP);
+        if (latest(connection, "raceState").status !== RaceStatus.Running) {
+            return;
+        }
+    }
+    assert.fail("The race did not end");
+};
+
+// Nobody needs to move to qualify: the first one to reach a
+// checkpoint as 13th is the only one eliminated.
+const createShortTournament = () => ({
+    name: "SHORT",
+    participantCount: 40,
+    rounds: [
+        { track: TrackSource.BuiltIn, trackLevel: 1, eliminationCount: 1 },
+        { track: TrackSource.BuiltIn, trackLevel: 2, eliminationCount: 0 },
+    ],
+    finalRoundType: FinalRoundType.WinnerTakesAll,
+});
+
+describe("RaceServer", () => {
+    it("answers a join with the state of the lobby", () => {
+        const server = new RaceServer(1);
+        const first = join(server);
+        const second = join(server);
+
+        assert.deepEqual(latest(first, "raceState"), {
+            type: "raceState",
+            status: RaceStatus.Lobby,
+            playerId: null,
+            connectedCount: 2,
+        });
+        assert.equal(latest(second, "raceState").connectedCount, 2);
+        server.close();
+        assert.ok(first.isClosed && second.isClosed);
+    });
+
+    it("refuses the messages of a client that has not joined", () => {
+        const server = new RaceServer(1);
+        const connection = connect(server);
+
+        send(server, connection, { type: "start" });
+        server.receive(connection, "{");
+
+        assert.deepEqual(
+            connection.messages.map((m) => m.type),
+            ["error", "error"],
+        );
+        assert.equal(connection.messages[0].message, "Not joined");
+        assert.equal(latest(connection, "raceState"), undefined);
+        server.close();
+    });
+
+    it("starts the first round with the players and the AI", () => {
+        const server = new RaceServer(1);
+        const first = join(server);
+        const second = join(server);
+        send(server, second, { type: "start" });
+
+        const state = latest(first, "raceState");
+        assert.equal(state.status, RaceStatus.Running);
+        assert.equal(state.playerId, 0);
+        assert.equal(latest(second, "raceState").playerId, 1);
+
+        const { race } = state;
+        assert.equal(race.roundNumber, 1);
+        assert.equal(race.roundCount, 3);
+        assert.equal(race.eliminationCount, 13);
+        assert.deepEqual(race.playerIds, [0, 1]);
+        assert.deepEqual(
+            race.aiCharacterIds,
+            Array.from({ length: 38 }, (_, i) => i + 2),
+        );
+        assert.ok(race.track.length > 0);
+        server.close();
+    });
+
+    it("sends the race and its latest state to a client joining during it", () => {
+        const server = new RaceServer(1);
+        const racer = join(server);
+        send(server, racer, { type: "start" });
+        now += 5 * TIME_STEP;
+        mock.timers.tick(TIME_STEP);
+
+        const watcher = join(server);
+
+        const state = latest(watcher, "raceState");
+        assert.equal(state.status, RaceStatus.Running);
+        assert.equal(state.playerId, null);
+        assert.deepEqual(state.race, latest(racer, "raceState").race);
+
+        const snapshot = latest(watcher, "snapshot");
+        assert.equal(snapshot.time, 5 * TIME_STEP);
+        assert.equal(snapshot.characters.length, 40);
+        server.close();
+    });
+
+    it("continues the tournament with the qualified players", () => {
+        const server = new RaceServer(1, createShortTournament());
+        const racer = join(server);
+        send(server, racer, { type: "start" });
+        const watcher = join(server);
+
+        runRace(racer);
+
+        const result = latest(racer, "raceState");
+        assert.equal(result.status, RaceStatus.Finished);
+        assert.deepEqual(result.qualifiedPlayerIds, [0]);
+
+        send(server, watcher, { type: "start" });
+
+        const { race } = latest(racer, "raceState");
+        assert.equal(latest(racer, "raceState").playerId, 0);
+        assert.equal(latest(watcher, "raceState").playerId, null);
+        assert.equal(race.roundNumber, 2);
+        assert.deepEqual(race.playerIds, [0]);
+        assert.equal(race.aiCharacterIds.length, 38);
+        assert.ok(!race.aiCharacterIds.includes(0));
+        // The winner takes all.
+        assert.equal(race.eliminationCount, 38);
+        server.close();
+    });
+
+    it("starts a new tournament when the qualified players leave", () => {
+        const server = new RaceServer(1, createShortTournament());
+        const racer = join(server);
+        send(server, racer, { type: "start" });
+        const watcher = join(server);
+
+        runRace(racer);
+        send(server, watcher, { type: "start" });
+        server.disconnect(racer);
+
+        assert.equal(latest(watcher, "raceState").status, RaceStatus.Lobby);
+
+        send(server, watcher, { type: "start" });
+
+        const state = latest(watcher, "raceState");
+        assert.equal(state.playerId, 0);
+        assert.equal(state.race.roundNumber, 1);
+        assert.deepEqual(state.race.playerIds, [0]);
+        server.close();
+    });
+});
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { useSources } from "./sources.js";
+
+// Tests that the races are reproducible from their seed.
+
+const load = useSources();
+
+let Random;
+let Race;
+let State;
+let TIME_STEP;
+let getBuiltInTrack;
+
+before(async () => {
+    ({ Random } = await load("/src/core/math/random.ts"));
+    ({ Race, State, TIME_STEP } = await load("/src/Race.ts"));
+    ({ getBuiltInTrack } = await load("/src/tracks.ts"));
+});
+
+const takeNumbers = (rng, count) =>
+    Array.from({ length: count }, () => rng.random());
+
+// The player zigzags up the track and jumps now and then.
+const scriptedInput = {
+    getMovement: (t) => ({ x: Math.sin(t / 700), y: -1 }),
+    getAction: (t) => (Math.floor(t / 1000) % 4 === 0 ? 1 : 0),
+};
+
+const runRace = (seed, steps) => {
+    const rng = new Random(seed);
+    const track = getBuiltInTrack(1, rng);
+    const race = new Race(track, 1.2, 1.1, undefined, rng, [
+        { id: 0, input: scriptedInput },
+    ]);
+    for (let i = 0; i < steps && race.state === State.RUNNING; i++) {
+        race.update(TIME_STEP);
+    }
+    return {
+        state: race.state,
+        time: race.time,
+        characters: race.characters.map((c) => ({
+            id: c.id,
+            x: c.x,
+            y: c.y,
+            rank: c.rank,
+            finished: c.finished,
+            eliminated: c.eliminated,
+        })),
+    };
+};
+
+describe("Random", () => {
+    it("gives the same sequence for the same seed", () => {
+        assert.deepEqual(
+            takeNumbers(new Random(123), 100),
+            takeNumbers(new Random(123), 100),
+        );
+    });
+
+    it("gives a different sequence for a different seed", () => {
+        assert.notDeepEqual(
+            takeNumbers(new Random(123), 100),
+            takeNumbers(new Random(124), 100),
+        );
+    });
+
+    it("keeps the numbers in range", () => {
+        const rng = new Random(7);
+        for (let i = 0; i < 1000; i++) {
+            const n = rng.randomInt(10);
+            assert.ok(Number.isInteger(n) && n >= 0 && n < 10);
+            const x = rng.randomMinMax(-2, 3);
+            assert.ok(x >= -2 && x < 3);
+        }
+    });
+});
+
+describe("Race", () => {
+    it("ends in the same state for the same seed and input", () => {
+        const first = runRace(42, 1800);
+        assert.ok(first.time > 0);
+        assert.deepEqual(runRace(42, 1800), first);
+    });
+
+    it("runs differently for a different seed", () => {
+        assert.notDeepEqual(runRace(43, 600), runRace(42, 600));
+    });
+});
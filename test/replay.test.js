@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { useSources } from "./sources.js";
+
+// Tests of recording, sharing and playing back the replays.
+
+const load = useSources();
+
+let Random;
+let Race;
+let State;
+let TIME_STEP;
+let getBuiltInTrack;
+let ReplayRecorder;
+let ReplayInput;
+let encodeReplay;
+let decodeReplay;
+
+before(async () => {
+    ({ Random } = await load("/src/core/math/random.ts"));
+    ({ Race, State, TIME_STEP } = await load("/src/Race.ts"));
+    ({ getBuiltInTrack } = await load("/src/tracks.ts"));
+    ({ ReplayRecorder, ReplayInput, encodeReplay, decodeReplay } =
+        await load("/src/replay.ts"));
+});
+
+const STEP_COUNT = 1500;
+
+const createSetup = () => ({
+    seed: 99,
+    track: getBuiltInTrack(1, new Random(5)),
+    playerWidthOffset: 1.3,
+    playerHeightOffset: 1.1,
+    eliminationCount: 13,
+});
+
+const createRace = (setup, input) => {
+    const race = new Race(
+        setup.track,
+        setup.playerWidthOffset,
+        setup.playerHeightOffset,
+        setup.aiCharacterIds,
+        new Random(setup.seed),
+        [{ id: 0, input }],
+    );
+    race.eliminationCount = setup.eliminationCount;
+    return race;
+};
+
+const getRaceState = (race) =>
+    race.characters.map((c) => ({
+        id: c.id,
+        x: c.x,
+        y: c.y,
+        rank: c.rank,
+        finished: c.finished,
+        eliminated: c.eliminated,
+    }));
+
+// Races with the player steering like a human would, recording it.
+const recordRace = () => {
+    const recorder = new ReplayRecorder(createSetup());
+    const race = createRace(createSetup(), recorder);
+    for (let i = 0; i < STEP_COUNT && race.state === State.RUNNING; i++) {
+        const t = i * TIME_STEP;
+        recorder.record(
+            { x: Math.sin(t / 900) * 0.8, y: -1 },
+            Math.floor(t / 1500) % 3 === 0 ? 1 : 0,
+        );
+        race.update(TIME_STEP);
+    }
+    return { replay: recorder.getReplay(), state: getRaceState(race) };
+};
+
+const encodeJson = (value) => btoa(JSON.stringify(value));
+
+describe("replay", () => {
+    it("stays the same when encoded and decoded", () => {
+        const { replay } = recordRace();
+        const text = encodeReplay(replay);
+        assert.match(text, /^[A-Za-z0-9_-]+$/);
+        assert.deepEqual(decodeReplay(text), replay);
+    });
+
+    it("stores the track, not a reference to it", () => {
+        const { replay } = recordRace();
+        assert.deepEqual(replay.track, createSetup().track);
+    });
+
+    it("runs the race the same way as it was recorded", () => {
+        const { replay, state } = recordRace();
+        const input = new ReplayInput(decodeReplay(encodeReplay(replay)));
+        const race = createRace(replay, input);
+        while (!input.isFinished() && race.state === State.RUNNING) {
+            input.next();
+            race.update(TIME_STEP);
+        }
+        assert.equal(input.step, STEP_COUNT);
+        assert.deepEqual(getRaceState(race), state);
+    });
+
+    it("rejects text that is not a replay", () => {
+        assert.throws(() => decodeReplay("not a replay!"));
+        assert.throws(() => decodeReplay(btoa("{ not json")));
+        assert.throws(() => decodeReplay(encodeJson([1, 2, 3])));
+        assert.throws(() => decodeReplay(encodeJson(null)));
+    });
+
+    it("rejects replays of another version", () => {
+        const { replay } = recordRace();
+        assert.throws(
+            () => decodeReplay(encodeJson({ ...replay, version: 4 })),
+            /Unsupported replay version: 4/,
+        );
+    });
+
+    it("rejects replays with missing or broken fields", () => {
+        const { replay } = recordRace();
+        const broken = [
+            { ...replay, track: { source: 0, level: 1, seed: 5 } },
+            { ...replay, eliminationCount: undefined },
+            { ...replay, inputs: undefined },
+            { ...replay, inputs: [1, 0, 0] },
+        ];
+        for (const value of broken) {
+            assert.throws(
+                () => decodeReplay(encodeJson(value)),
+                /Invalid replay/,
+            );
+        }
+    });
+});
@@ -0,0 +1,39 @@
+import { after } from "node:test";
+import { createServer } from "vite";
+
+/*
+ * Loads the TypeScript sources of the game with Vite for the tests of
+ * a file, like the simulation script does. Call at the top level of
+ * the test file and load the modules in a before hook.
+ */
+export const useSources = () => {
+    let server;
+
+    after(async () => {
+        await (await server)?.close();
+    });
+
+    return async (path) => {
+        server ??= createServer({
+            server: { middlewareMode: true, hmr: false },
+            appType: "custom",
+            logLevel: "error",
+        });
+        return (await server).ssrLoadModule(path);
+    };
+};
+
+/*
+ * Replaces the local storage of the browser with an empty one kept in
+ * memory. Returns the stored items by their keys.
+ */
+export const useFakeStorage = () => {
+    const items = new Map();
+    globalThis.localStorage = {
+        getItem: (key) => (items.has(key) ? items.get(key) : null),
+        setItem: (key, value) => items.set(key, String(value)),
+        removeItem: (key) => items.delete(key),
+        clear: () => items.clear(),
+    };
+    return items;
+};
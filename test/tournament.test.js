@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { useSources } from "./sources.js";
+
+// Tests of the tournament rules.
+
+const load = useSources();
+
+let TrackSource;
+let FinalRoundType;
+let CLASSIC_TOURNAMENT;
+let TOURNAMENTS;
+let validateTournament;
+let getEliminationCount;
+let hasWonFinalRound;
+
+before(async () => {
+    ({
+        TrackSource,
+        FinalRoundType,
+        CLASSIC_TOURNAMENT,
+        TOURNAMENTS,
+        validateTournament,
+        getEliminationCount,
+        hasWonFinalRound,
+    } = await load("/src/tournament.ts"));
+});
+
+const createTournament = (eliminationCounts, finalRoundType) => ({
+    name: "TEST",
+    participantCount: 20,
+    rounds: eliminationCounts.map((eliminationCount, i) => ({
+        track: TrackSource.Generated,
+        trackLevel: Math.min(i + 1, 3),
+        eliminationCount,
+    })),
+    finalRoundType,
+});
+
+describe("validateTournament", () => {
+    it("accepts the tournaments of the game", () => {
+        for (const tournament of TOURNAMENTS) {
+            validateTournament(tournament);
+        }
+    });
+
+    it("has a tournament on the built-in tracks", () => {
+        assert.ok(
+            CLASSIC_TOURNAMENT.rounds.every(
+                (round) => round.track === TrackSource.BuiltIn,
+            ),
+        );
+    });
+
+    it("rejects a tournament without rounds", () => {
+        assert.throws(
+            () =>
+                validateTournament(
+                    createTournament([], FinalRoundType.Elimination),
+                ),
+            /TEST: no rounds/,
+        );
+    });
+
+    it("rejects rounds that eliminate everyone", () => {
+        assert.throws(
+            () =>
+                validateTournament(
+                    createTournament([10, 10], FinalRoundType.Elimination),
+                ),
+            /invalid elimination count in round 2/,
+        );
+        assert.throws(
+            () =>
+                validateTournament(
+                    createTournament([20, 0], FinalRoundType.WinnerTakesAll),
+                ),
+            /invalid elimination count in round 1/,
+        );
+    });
+
+    it("rejects rounds that eliminate no one", () => {
+        assert.throws(
+            () =>
+                validateTournament(
+                    createTournament([0, 5], FinalRoundType.Elimination),
+                ),
+            /invalid elimination count in round 1/,
+        );
+    });
+
+    it("doesn't need an elimination count in a winner takes all final", () => {
+        validateTournament(
+            createTournament([10, 0], FinalRoundType.WinnerTakesAll),
+        );
+    });
+
+    it("rejects invalid participant counts", () => {
+        for (const participantCount of [1, 41, 2.5]) {
+            assert.throws(
+                () =>
+                    validateTournament({
+                        ...createTournament([1], FinalRoundType.Elimination),
+                        participantCount,
+                    }),
+                /invalid participant count/,
+            );
+        }
+    });
+});
+
+describe("getEliminationCount", () => {
+    it("eliminates as planned for the round", () => {
+        const tournament = createTournament(
+            [8, 5, 0],
+            FinalRoundType.WinnerTakesAll,
+        );
+        assert.equal(getEliminationCount(tournament, 1, 20), 8);
+        assert.equal(getEliminationCount(tournament, 2, 12), 5);
+    });
+
+    it("leaves someone to qualify when there are fewer characters", () => {
+        const tournament = createTournament([8, 5], FinalRoundType.Elimination);
+        assert.equal(getEliminationCount(tournament, 2, 4), 3);
+        assert.equal(getEliminationCount(tournament, 2, 1), 0);
+    });
+
+    it("eliminates everyone but the winner in a winner takes all final", () => {
+        const tournament = createTournament(
+            [8, 0],
+            FinalRoundType.WinnerTakesAll,
+        );
+        assert.equal(getEliminationCount(tournament, 2, 12), 11);
+    });
+});
+
+describe("hasWonFinalRound", () => {
+    it("lets everyone left win an elimination final", () => {
+        const tournament = createTournament([8, 5], FinalRoundType.Elimination);
+        assert.ok(hasWonFinalRound(tournament, { eliminated: false, rank: 1 }));
+        assert.ok(hasWonFinalRound(tournament, { eliminated: false, rank: 7 }));
+        assert.ok(!hasWonFinalRound(tournament, { eliminated: true, rank: 9 }));
+    });
+
+    it("lets only the first one win a winner takes all final", () => {
+        const tournament = createTournament(
+            [8, 0],
+            FinalRoundType.WinnerTakesAll,
+        );
+        assert.ok(hasWonFinalRound(tournament, { eliminated: false, rank: 1 }));
+        assert.ok(
+            !hasWonFinalRound(tournament, { eliminated: false, rank: 2 }),
+        );
+        assert.ok(!hasWonFinalRound(tournament, { eliminated: true, rank: 5 }));
+    });
+});
@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { useSources } from "./sources.js";
+
+// Tests of reading and writing the track files.
+
+const load = useSources();
+
+let ELEMENT_TEMPLATES;
+let TRACK_FORMAT_VERSION;
+let buildTrackVariant;
+let createTrackDefinition;
+let exportTrackDefinition;
+let getVariantCount;
+let parseTrackDefinition;
+let builtInTracks;
+
+before(async () => {
+    ({ ELEMENT_TEMPLATES } = await load("/src/TrackElement.ts"));
+    ({
+        TRACK_FORMAT_VERSION,
+        buildTrackVariant,
+        createTrackDefinition,
+        exportTrackDefinition,
+        getVariantCount,
+        parseTrackDefinition,
+    } = await load("/src/trackFormat.ts"));
+    ({ builtInTracks } = await load("/src/tracks.ts"));
+});
+
+// The elements of a built-in track variant, straight from the
+// templates of the elements.
+const getTemplateElements = (definition, variant) =>
+    definition.sections.flatMap((section) =>
+        ("variants" in section
+            ? section.variants[variant % section.variants.length]
+            : section.elements
+        ).map((name) => ELEMENT_TEMPLATES[name]),
+    );
+
+const createJson = (fields) =>
+    JSON.stringify({
+        version: TRACK_FORMAT_VERSION,
+        name: "Test",
+        sections: [{ elements: ["Checkpoint", "Basic", "Finish"] }],
+        ...fields,
+    });
+
+describe("track format", () => {
+    it("reads back the exported built-in tracks", () => {
+        for (const definition of builtInTracks) {
+            const parsed = parseTrackDefinition(
+                exportTrackDefinition(definition),
+            );
+
+            assert.equal(parsed.name, definition.name);
+            assert.equal(getVariantCount(parsed), getVariantCount(definition));
+            for (let v = 0; v < getVariantCount(definition); v++) {
+                assert.deepEqual(
+                    buildTrackVariant(parsed, v),
+                    getTemplateElements(definition, v),
+                    `${definition.name}, variant ${v + 1}`,
+                );
+            }
+        }
+    });
+
+    it("reads back a track made from elements", () => {
+        const custom = {
+            surfaces: [{ col: 2, width: 3 }],
+            obstacles: [3],
+        };
+        const track = [
+            ELEMENT_TEMPLATES.Checkpoint,
+            custom,
+            ELEMENT_TEMPLATES.Basic,
+            custom,
+            ELEMENT_TEMPLATES.Finish,
+        ];
+        const json = exportTrackDefinition(
+            createTrackDefinition("Mine", track),
+        );
+
+        assert.deepEqual(
+            buildTrackVariant(parseTrackDefinition(json), 0),
+            track,
+        );
+    });
+
+    it("rejects another format version", () => {
+        assert.throws(
+            () => parseTrackDefinition(createJson({ version: 2 })),
+            /Unsupported track format version: 2/,
+        );
+        assert.throws(
+            () => parseTrackDefinition(createJson({ version: undefined })),
+            /Unsupported track format version/,
+        );
+    });
+
+    it("rejects unknown elements", () => {
+        assert.throws(
+            () =>
+                parseTrackDefinition(
+                    createJson({ sections: [{ elements: ["Basic", "Nope"] }] }),
+                ),
+            /Unknown track element: Nope/,
+        );
+        assert.throws(
+            () =>
+                parseTrackDefinition(
+                    createJson({
+                        sections: [{ variants: [["Basic"], ["Trampoline"]] }],
+                    }),
+                ),
+            /Unknown track element: Trampoline/,
+        );
+    });
+
+    it("rejects a track without sections", () => {
+        assert.throws(
+            () => parseTrackDefinition(createJson({ sections: [] })),
+            /Track has no sections/,
+        );
+        assert.throws(
+            () => parseTrackDefinition(createJson({ sections: undefined })),
+            /Track has no sections/,
+        );
+    });
+
+    it("rejects broken elements", () => {
+        assert.throws(
+            () =>
+                parseTrackDefinition(
+                    createJson({
+                        elements: {
+                            Wide: { surfaces: [{ col: 5, width: 9 }] },
+                        },
+                    }),
+                ),
+            /Invalid surface in track element Wide/,
+        );
+        assert.throws(
+            () => parseTrackDefinition(createJson({ elements: { Empty: {} } })),
+            /Invalid track element Empty/,
+        );
+    });
+
+    it("rejects text that is not JSON", () => {
+        assert.throws(() => parseTrackDefinition("{ version: 1"), SyntaxError);
+    });
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { useSources } from "./sources.js";
+
+// Tests of the generated tracks.
+
+const load = useSources();
+
+let TrackGeneration;
+let generateTrack;
+let validateTrackTemplate;
+
+before(async () => {
+    ({ TrackGeneration, generateTrack } = await load("/src/trackGenerator.ts"));
+    ({ validateTrackTemplate } = await load("/src/trackValidation.ts"));
+});
+
+const SEEDS = [1, 2, 3];
+
+describe("generateTrack", () => {
+    for (const raceNumber of [1, 2, 3]) {
+        it(`generates valid tracks for race ${raceNumber}`, () => {
+            for (const seed of SEEDS) {
+                const track = generateTrack(raceNumber, seed);
+                assert.deepEqual(
+                    validateTrackTemplate(track),
+                    [],
+                    `Seed ${seed}`,
+                );
+                assert.equal(track[0].type, "checkpoint");
+                assert.equal(track[track.length - 1].type, "finish");
+            }
+        });
+    }
+
+    it("generates the same track for the same seed", () => {
+        assert.deepEqual(generateTrack(2, 7), generateTrack(2, 7));
+    });
+
+    it("generates another track for another seed", () => {
+        assert.notDeepEqual(generateTrack(1, 7), generateTrack(1, 8));
+    });
+
+    it("generates the same track however the work is split", () => {
+        const generation = new TrackGeneration(1, 7);
+        let track;
+        let runCount = 0;
+        while (!track) {
+            track = generation.run();
+            runCount++;
+        }
+
+        assert.ok(runCount > 1);
+        assert.equal(generation.run(), track);
+        assert.deepEqual(track, generateTrack(1, 7));
+    });
+});
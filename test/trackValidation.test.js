@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { useSources } from "./sources.js";
+
+// Tests of finding the problems of a track, with small tracks made for
+// each problem.
+
+const load = useSources();
+
+let ELEMENT_TEMPLATES;
+let validateTrackTemplate;
+let formatTrackProblem;
+
+before(async () => {
+    ({ ELEMENT_TEMPLATES } = await load("/src/TrackElement.ts"));
+    ({ validateTrackTemplate, formatTrackProblem } = await load(
+        "/src/trackValidation.ts",
+    ));
+});
+
+// Obstacles across the whole track, nobody gets past them.
+const WALL = {
+    surfaces: [{ col: 0, width: 9 }],
+    obstacles: [0, 1, 2, 3, 4, 5, 6, 7, 8],
+};
+const LEFT_EDGE = { surfaces: [{ col: 0, width: 2 }] };
+const RIGHT_EDGE = { surfaces: [{ col: 7, width: 2 }] };
+
+// Builds a track from element names and elements.
+const createTrack = (...elements) =>
+    elements.map((e) => (typeof e === "string" ? ELEMENT_TEMPLATES[e] : e));
+
+const validate = (...elements) =>
+    validateTrackTemplate(createTrack(...elements)).map(formatTrackProblem);
+
+describe("validateTrack", () => {
+    it("finds no problems in a track that can be completed", () => {
+        assert.deepEqual(validate("Checkpoint", "Basic", "Finish"), []);
+        assert.deepEqual(
+            validate(
+                "Checkpoint",
+                "Basic",
+                "Chasm",
+                "Raft",
+                "Chasm",
+                "Basic",
+                "Finish",
+            ),
+            [],
+        );
+    });
+
+    it("allows a single empty row as a gap to jump over", () => {
+        assert.deepEqual(
+            validate("Checkpoint", "Basic", "Chasm", "Basic", "Finish"),
+            [],
+        );
+    });
+
+    it("reports rows with no surface and no raft", () => {
+        assert.deepEqual(
+            validate(
+                "Checkpoint",
+                "Basic",
+                "Chasm",
+                "Chasm",
+                "Basic",
+                "Finish",
+            ),
+            [
+                "Row 3: No surface and no raft",
+                "Row 4: No surface and no raft",
+                "Row 5: No walkable path to this row",
+                "Row 6: Finish can't be reached",
+            ],
+        );
+    });
+
+    it("reports an empty first or last row, which can't be jumped over", () => {
+        assert.deepEqual(validate("Chasm", "Basic", "Finish"), [
+            "Row 1: No surface and no raft",
+            "Row 2: No walkable path to this row",
+            "Row 3: Finish can't be reached",
+        ]);
+        assert.deepEqual(validate("Checkpoint", "Basic", "Chasm"), [
+            "Row 3: No surface and no raft",
+            "Row 3: Track has no finish",
+        ]);
+    });
+
+    it("reports the first row without a walkable path to it", () => {
+        // A gap of one row can be jumped over also beside a surface.
+        assert.deepEqual(
+            validate("Checkpoint", LEFT_EDGE, RIGHT_EDGE, "Basic", "Finish"),
+            [],
+        );
+        assert.deepEqual(
+            validate(
+                "Checkpoint",
+                LEFT_EDGE,
+                LEFT_EDGE,
+                RIGHT_EDGE,
+                RIGHT_EDGE,
+                "Basic",
+                "Finish",
+            ),
+            [
+                "Row 4: No walkable path to this row",
+                "Row 7: Finish can't be reached",
+            ],
+        );
+        assert.deepEqual(validate("Checkpoint", WALL, "Basic", "Finish"), [
+            "Row 3: No walkable path to this row",
+            "Row 4: Finish can't be reached",
+        ]);
+    });
+
+    it("reports checkpoints that can't be reached", () => {
+        assert.deepEqual(
+            validate("Checkpoint", WALL, "Basic", "Checkpoint", "Finish"),
+            [
+                "Row 3: No walkable path to this row",
+                "Row 4: Checkpoint can't be reached",
+                "Row 5: Finish can't be reached",
+            ],
+        );
+    });
+
+    it("reports a finish that can't be reached", () => {
+        assert.deepEqual(validate("Checkpoint", WALL, "Finish"), [
+            "Row 3: No walkable path to this row",
+            "Row 3: Finish can't be reached",
+        ]);
+    });
+
+    it("reports a track that has no finish", () => {
+        assert.deepEqual(validate("Checkpoint", "Basic", "Basic"), [
+            "Row 3: Track has no finish",
+        ]);
+    });
+});